@@ -1,39 +1,323 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
 import { User, onAuthStateChanged, signOut } from 'firebase/auth';
 import { auth } from './services/firebase';
-import { Holding, PortfolioSummary } from './types';
-import { getHoldings, saveHoldings, getUserHoldings, saveUserHoldings } from './services/storageService';
-import { refreshMarketPrices } from './services/marketDataService';
-import AddAssetForm from './components/AddAssetForm';
+import { Account, AlertEvent, AlertRule, AssetSearchResult, CostMethod, Currency, FxRates, Holding, PortfolioSettings, PortfolioSnapshot, PortfolioSummary, PriceStatus, ProfitSharingAgreement, ProfitSharingSettlement, Quote, Transaction, TransactionType, WatchlistItem } from './types';
+import { DEFAULT_SETTINGS, getHoldings, saveHoldings, getTransactions, saveTransactions, getSettings, saveSettings, getUserSettings, saveUserSettings, getSnapshots, saveSnapshots, getUserSnapshots, saveUserSnapshot, saveUserSnapshots, getAccounts, saveAccounts, getUserAccounts, saveUserAccounts, getActiveAccountId, saveActiveAccountId, deleteUserSnapshots, getDeviceId, getLocalOwner, saveLocalOwner, getAlertRules, saveAlertRules, getAlertHistory, saveAlertHistory, getUserAlertRules, saveUserAlertRules, getWatchlist, saveWatchlist, getUserWatchlist, saveUserWatchlist } from './services/storageService';
+import { fetchWatchlistQuotes, refreshMarketPrices } from './services/marketDataService';
+import { applyLedger, createOpeningTransaction, createTransaction, findOversellsAfterRemoval, isSimpleLedger, migrateHoldingsToLedger } from './services/ledgerService';
+import { buildSnapshot, filterSnapshots, toLocalDateString, upsertSnapshot } from './services/snapshotService';
+import { backfillSnapshots } from './services/historyService';
+import { HoldingPerformance, getHoldingPerformance, getPortfolioPerformance } from './services/performanceService';
+import { createAutoRefreshScheduler } from './services/autoRefreshScheduler';
+import { getMarketStatus } from './services/marketCalendar';
+import { CURRENCY_SYMBOLS, DEFAULT_FX_RATES, getFxRates } from './services/fxService';
+import { getHoldingCurrency, valueHoldings } from './services/valuationService';
+import { isQuotable, valueLocally } from './services/assetTypes';
+import { ALL_ACCOUNTS, filterByAccount, getAccountId, reconcileAccounts, summarizeAccounts } from './services/accountService';
+import { ImportResult } from './services/importService';
+import { PortfolioData, RestoreMode, restoreBackup } from './services/backupService';
+import { PortfolioSync, SyncConflict, SyncStatus, createPortfolioSync } from './services/syncService';
+import { HoldingComparison, MergeChoice, PortfolioSide, compareSides, hasLocalChanges, mergeAccounts, mergeSides } from './services/mergeService';
+import { MAX_ALERT_HISTORY, evaluateAlerts, mergeRemoteRules, notifyAlerts } from './services/alertService';
+import { createWatchlistItem, isWatched } from './services/watchlistService';
+import AddAssetForm, { AssetPrefill } from './components/AddAssetForm';
 import HoldingsTable from './components/HoldingsTable';
 import ProfitSharing from './components/ProfitSharing';
 import SmartAdvisor from './components/SmartAdvisor';
 import AuthModal from './components/AuthModal';
+import TransactionHistory from './components/TransactionHistory';
+import SellAssetForm, { SellOrder } from './components/SellAssetForm';
+import CorporateActionForm from './components/CorporateActionForm';
+import SettingsModal from './components/SettingsModal';
+import EquityCurveChart from './components/EquityCurveChart';
+import AccountManager from './components/AccountManager';
+import BackupManager from './components/BackupManager';
+import SyncConflictDialog from './components/SyncConflictDialog';
+import SignInMergeDialog from './components/SignInMergeDialog';
+import AlertPanel from './components/AlertPanel';
+import WatchlistTable from './components/WatchlistTable';
 
 const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f43f5e', '#10b981', '#3b82f6'];
 
 const App: React.FC = () => {
   const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [sellingId, setSellingId] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PortfolioSettings>(getSettings());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>(getAccounts());
+  const [activeAccountId, setActiveAccountId] = useState<string>(getActiveAccountId());
+  const [isAccountsOpen, setIsAccountsOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(getAlertRules());
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(getAlertHistory());
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>(getWatchlist());
+  const [watchQuotes, setWatchQuotes] = useState<Record<string, Quote>>({});
+  // Watched asset being bought through the add form; it leaves the watchlist once the holding is added
+  const [watchPrefill, setWatchPrefill] = useState<AssetPrefill | null>(null);
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>(getSnapshots());
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [isMarketOpen, setIsMarketOpen] = useState(getMarketStatus().isOpen);
+  const [fxRates, setFxRates] = useState<FxRates>(DEFAULT_FX_RATES);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string>('');
+  const [refreshError, setRefreshError] = useState<string | null>(null);
   
   // Auth State
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
 
+  // Live cloud sync of holdings and transactions while signed in
+  const syncRef = useRef<PortfolioSync | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  // Local data that differs from the cloud portfolio at sign-in, waiting for the user's choice
+  const [signInMerge, setSignInMerge] = useState<{
+    userId: string;
+    comparisons: HoldingComparison[];
+    cloudAccounts: Account[];
+    costMethod: CostMethod;
+  } | null>(null);
+
+  // Load holdings + ledger, migrating legacy Holding[]-only data into opening transactions
+  const loadPortfolio = (rawHoldings: Holding[], rawTransactions: Transaction[], costMethod: CostMethod) => {
+    const ledger = migrateHoldingsToLedger(rawHoldings, rawTransactions);
+    const derived = applyLedger(rawHoldings, ledger, costMethod);
+    if (ledger !== rawTransactions) saveTransactions(ledger);
+    setTransactions(ledger);
+    setHoldings(derived);
+    return { holdings: derived, transactions: ledger };
+  };
+
+  // Accounts referenced by holdings are restored if missing; a vanished active account falls back to the combined view
+  const loadAccounts = (rawAccounts: Account[], loadedHoldings: Holding[]) => {
+    const reconciled = reconcileAccounts(rawAccounts, loadedHoldings);
+    setAccounts(reconciled);
+    saveAccounts(reconciled);
+    setActiveAccountId(prev => (prev === ALL_ACCOUNTS || reconciled.some(a => a.id === prev) ? prev : ALL_ACCOUNTS));
+    return reconciled;
+  };
+
+  // Cloud snapshots win for days present in both; local-only days are kept
+  const loadCloudSnapshots = async (userId: string) => {
+    const cloudSnapshots = await getUserSnapshots(userId);
+    setSnapshots(prev => {
+      const merged = cloudSnapshots.reduce(upsertSnapshot, prev);
+      saveSnapshots(merged);
+      return merged;
+    });
+  };
+
+  // The sync listeners are created once per sign-in, so they read current state through refs
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const transactionsRef = useRef(transactions);
+  transactionsRef.current = transactions;
+  const alertRulesRef = useRef(alertRules);
+  alertRulesRef.current = alertRules;
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+
+  // Another device changed holdings or transactions; positions are re-derived locally
+  const applyRemotePortfolio = (remoteHoldings: Holding[], remoteTransactions: Transaction[]) => {
+    const derived = applyLedger(remoteHoldings, remoteTransactions, settingsRef.current.costMethod)
+      .map(h => isQuotable(h.type) ? h : valueLocally(h));
+    setHoldings(derived);
+    setTransactions(remoteTransactions);
+    saveHoldings(derived);
+    saveTransactions(remoteTransactions);
+  };
+
+  const applyRemoteSettings = (remoteSettings: PortfolioSettings) => {
+    const merged = { ...DEFAULT_SETTINGS, ...remoteSettings };
+    const current = settingsRef.current;
+    if (JSON.stringify(merged) === JSON.stringify(current)) return;
+    setSettings(merged);
+    saveSettings(merged);
+    if (merged.costMethod !== current.costMethod) {
+      setHoldings(prev => applyLedger(prev, transactionsRef.current, merged.costMethod));
+    }
+  };
+
+  const applyRemoteAlertRules = (remoteRules: AlertRule[]) => {
+    const merged = mergeRemoteRules(alertRulesRef.current, remoteRules);
+    if (JSON.stringify(merged) === JSON.stringify(alertRulesRef.current)) return;
+    alertRulesRef.current = merged;
+    setAlertRules(merged);
+    saveAlertRules(merged);
+  };
+
+  const applyRemoteWatchlist = (remoteItems: WatchlistItem[]) => {
+    if (JSON.stringify(remoteItems) === JSON.stringify(watchlistRef.current)) return;
+    watchlistRef.current = remoteItems;
+    setWatchlist(remoteItems);
+    saveWatchlist(remoteItems);
+  };
+
+  const createSync = (userId: string) => createPortfolioSync({
+    userId,
+    deviceId: getDeviceId(),
+    onRemoteChange: applyRemotePortfolio,
+    onConflicts: conflicts => setSyncConflicts(prev => [...prev.filter(c => !conflicts.some(n => n.id === c.id)), ...conflicts]),
+    onRemoteSettings: applyRemoteSettings,
+    onRemoteAccounts: remoteAccounts => loadAccounts(remoteAccounts, holdingsRef.current),
+    onRemoteAlertRules: applyRemoteAlertRules,
+    onRemoteWatchlist: applyRemoteWatchlist,
+    onStatus: setSyncStatus
+  });
+
+  // Record today's value after each price refresh (one snapshot per day, last write wins)
+  const recordSnapshot = (currentHoldings: Holding[], rates: FxRates) => {
+    if (currentHoldings.length === 0) return;
+    const snapshot = buildSnapshot(currentHoldings, rates);
+    setSnapshots(prev => {
+      const next = upsertSnapshot(prev, snapshot);
+      saveSnapshots(next);
+      return next;
+    });
+
+    // The refresh may run from the auth listener before `user` state is set
+    const currentUser = auth?.currentUser;
+    if (currentUser) {
+      saveUserSnapshot(currentUser.uid, snapshot).catch(e => console.error("Failed to sync snapshot", e));
+    }
+  };
+
+  // Reconstruct past daily values from historical prices; recorded snapshots are never overwritten
+  const handleBackfill = async () => {
+    setIsBackfilling(true);
+    try {
+      const result = await backfillSnapshots(holdings, transactions, settings.costMethod, fxRates);
+      const recordedDates = new Set(snapshots.map(snap => snap.date));
+      const missingDays = result.snapshots.filter(snap => !recordedDates.has(snap.date));
+
+      const merged = missingDays.reduce(upsertSnapshot, snapshots);
+      setSnapshots(merged);
+      saveSnapshots(merged);
+      if (user && auth) await saveUserSnapshots(user.uid, missingDays);
+
+      if (result.missingCodes.length > 0) {
+        alert(`以下代码无法获取历史数据 (No history for): ${result.missingCodes.join(', ')}`);
+      }
+    } catch (e) {
+      console.error("Backfill failed", e);
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
+
+  // Logged in: load the cloud portfolio and keep it live. Offline, the sync engine starts from its
+  // IndexedDB copy; a device that has never synced shows its local data until a retry succeeds.
+  const connectCloud = async (currentUser: User) => {
+    syncRef.current?.stop();
+    syncRef.current = null;
+    try {
+      const cloudSettings = await getUserSettings(currentUser.uid).catch(() => null) || getSettings();
+      setSettings(cloudSettings);
+      saveSettings(cloudSettings);
+
+      // Cloud rules win; a first sign-in uploads the rules set up on this device
+      const cloudRules = await getUserAlertRules(currentUser.uid).catch(() => null);
+      if (cloudRules) {
+        applyRemoteAlertRules(cloudRules);
+      } else if (alertRulesRef.current.length > 0) {
+        await saveUserAlertRules(currentUser.uid, alertRulesRef.current);
+      }
+      const cloudWatchlist = await getUserWatchlist(currentUser.uid).catch(() => null);
+      if (cloudWatchlist) {
+        applyRemoteWatchlist(cloudWatchlist);
+      } else if (watchlistRef.current.length > 0) {
+        await saveUserWatchlist(currentUser.uid, watchlistRef.current);
+      }
+
+      const sync = createSync(currentUser.uid);
+      syncRef.current = sync;
+      const cloudData = await sync.start();
+      if (cloudData) {
+        const cloudAccounts = await getUserAccounts(currentUser.uid).catch(() => null) || getAccounts();
+
+        // Work done on this device before signing in is offered for merging rather than dropped
+        if (getLocalOwner() !== currentUser.uid) {
+          const localHoldings = getHoldings();
+          const localSide = { holdings: localHoldings, transactions: migrateHoldingsToLedger(localHoldings, getTransactions()) };
+          const comparisons = compareSides(localSide, cloudData, cloudSettings.costMethod);
+          if (hasLocalChanges(comparisons)) {
+            setSignInMerge({ userId: currentUser.uid, comparisons, cloudAccounts, costMethod: cloudSettings.costMethod });
+            return;
+          }
+        }
+        await loadCloudPortfolio(currentUser.uid, cloudData, cloudAccounts, cloudSettings.costMethod, false);
+      } else {
+        // No cloud data (new user), upload current local data as initial state
+        const localData = loadPortfolio(getHoldings(), getTransactions(), cloudSettings.costMethod);
+        await sync.save(localData.holdings, localData.transactions);
+        await saveUserAccounts(currentUser.uid, loadAccounts(getAccounts(), localData.holdings));
+        await Promise.all(getSnapshots().map(snap => saveUserSnapshot(currentUser.uid, snap)));
+        saveLocalOwner(currentUser.uid);
+        handleRefresh(localData.holdings); // Keep using local data but now it's synced
+      }
+    } catch (e) {
+      console.error("Sync error", e);
+      syncRef.current?.stop();
+      syncRef.current = null;
+      setSyncStatus({ state: 'error', pending: 0, error: e instanceof Error ? e.message : String(e) });
+      const localData = loadPortfolio(getHoldings(), getTransactions(), getSettings().costMethod);
+      loadAccounts(getAccounts(), localData.holdings);
+      handleRefresh(localData.holdings);
+    }
+  };
+
+  // Shows the cloud portfolio (or the merge result, which is then written back) and marks the local copy as the user's
+  const loadCloudPortfolio = async (userId: string, data: PortfolioSide, cloudAccounts: Account[], costMethod: CostMethod, upload: boolean) => {
+    const loaded = loadPortfolio(data.holdings, data.transactions, costMethod);
+    const reconciled = loadAccounts(cloudAccounts, loaded.holdings);
+    await loadCloudSnapshots(userId).catch(e => console.error("Failed to load cloud snapshots", e));
+    if (upload || loaded.transactions !== data.transactions) {
+      await syncRef.current?.save(loaded.holdings, loaded.transactions);
+    }
+    if (upload) await saveUserAccounts(userId, reconciled);
+    saveLocalOwner(userId);
+    handleRefresh(loaded.holdings);
+  };
+
+  const handleSignInMerge = async (choices: Record<string, MergeChoice>) => {
+    if (!signInMerge) return;
+    const { userId, comparisons, cloudAccounts, costMethod } = signInMerge;
+    setSignInMerge(null);
+
+    const merged = mergeSides(comparisons, choices);
+    const keepsLocal = Object.values(choices).some(choice => choice !== 'cloud');
+    try {
+      await loadCloudPortfolio(userId, merged, mergeAccounts(cloudAccounts, getAccounts(), merged.holdings), costMethod, keepsLocal);
+    } catch (e) {
+      console.error("Failed to merge local data", e);
+    }
+  };
+
+  const handleRetrySync = () => {
+    if (syncRef.current) {
+      syncRef.current.retry();
+    } else if (user) {
+      connectCloud(user);
+    }
+  };
+
   // Initialize App & Auth Listener
   useEffect(() => {
     // Graceful fallback if Firebase is not configured
     if (!auth) {
       console.log("App running in Local Mode (Firebase not configured)");
-      const localData = getHoldings();
-      setHoldings(localData);
-      handleRefresh(localData);
+      const localData = loadPortfolio(getHoldings(), getTransactions(), getSettings().costMethod);
+      loadAccounts(getAccounts(), localData.holdings);
+      handleRefresh(localData.holdings);
       setAuthLoading(false);
       return;
     }
@@ -41,136 +325,257 @@ const App: React.FC = () => {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
       setUser(currentUser);
       setAuthLoading(true);
+      syncRef.current?.stop();
+      syncRef.current = null;
+      setSyncConflicts([]);
+      setSyncStatus(null);
 
       if (currentUser) {
-        // Logged In: Try to fetch from cloud
-        try {
-          const cloudData = await getUserHoldings(currentUser.uid);
-          if (cloudData) {
-            // Found cloud data, use it
-            setHoldings(cloudData);
-            handleRefresh(cloudData);
-          } else {
-            // No cloud data (new user), upload current local data as initial state
-            const localData = getHoldings();
-            await saveUserHoldings(currentUser.uid, localData);
-            setHoldings(localData); // Keep using local data but now it's synced
-            handleRefresh(localData);
-          }
-        } catch (e) {
-          console.error("Sync error", e);
-        }
+        await connectCloud(currentUser);
       } else {
         // Guest: Load from Local Storage
-        const localData = getHoldings();
-        setHoldings(localData);
-        handleRefresh(localData);
+        const localSettings = getSettings();
+        setSettings(localSettings);
+        const localData = loadPortfolio(getHoldings(), getTransactions(), localSettings.costMethod);
+        loadAccounts(getAccounts(), localData.holdings);
+        handleRefresh(localData.holdings);
       }
       setAuthLoading(false);
     });
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      syncRef.current?.stop();
+    };
   }, []);
 
   // Save Logic (Cloud + Local Backup)
-  const persistHoldings = async (newHoldings: Holding[]) => {
-    setHoldings(newHoldings);
+  // Positions are always re-derived from the ledger before saving; cash and deposits are revalued
+  // right away since no quote refresh will touch them
+  const persistPortfolio = async (newHoldings: Holding[], newTransactions: Transaction[], costMethod: CostMethod = settings.costMethod) => {
+    const derived = applyLedger(newHoldings, newTransactions, costMethod)
+      .map(h => isQuotable(h.type) ? h : valueLocally(h));
+    setHoldings(derived);
+    setTransactions(newTransactions);
     
     // Always save to local as cache/backup
-    saveHoldings(newHoldings);
+    saveHoldings(derived);
+    saveTransactions(newTransactions);
+    if (!syncRef.current) saveLocalOwner(null);
 
     // If logged in, sync to cloud
-    if (user && auth) {
+    if (syncRef.current) {
       try {
-        await saveUserHoldings(user.uid, newHoldings);
+        await syncRef.current.save(derived, newTransactions);
       } catch (e) {
         console.error("Failed to sync to cloud", e);
       }
     }
+    return derived;
+  };
+
+  // Runs after every quote refresh. Rules fire once per crossing; a new drawdown peak alone is kept
+  // locally and reaches the cloud with the next rule change.
+  const checkAlerts = (refreshed: Holding[], rates: FxRates) => {
+    const current = alertRulesRef.current;
+    const { rules, events, armingChanged } = evaluateAlerts(current, refreshed, rates);
+    if (rules.some((rule, i) => rule !== current[i])) {
+      alertRulesRef.current = rules;
+      setAlertRules(rules);
+      saveAlertRules(rules);
+    }
+    if (armingChanged && user && auth) {
+      saveUserAlertRules(user.uid, rules).catch(e => console.error("Failed to sync alert rules", e));
+    }
+    if (events.length === 0) return;
+
+    setAlertHistory(prev => {
+      const next = [...events, ...prev].slice(0, MAX_ALERT_HISTORY);
+      saveAlertHistory(next);
+      return next;
+    });
+    notifyAlerts(events);
   };
 
+  // Watchlist quotes live in memory only; a failed fetch keeps the previous ones
+  const refreshWatchQuotes = async (items: WatchlistItem[]) => {
+    if (items.length === 0) return;
+    try {
+      const quotes = await fetchWatchlistQuotes(items);
+      setWatchQuotes(prev => ({ ...prev, ...quotes }));
+    } catch (e) {
+      console.error("Failed to refresh watchlist quotes", e);
+    }
+  };
+
+  const describeRefreshError = (e: unknown) => e instanceof Error ? e.message : String(e);
+
   const handleRefresh = async (currentHoldings: Holding[]) => {
     setIsRefreshing(true);
     try {
-      const updated = await refreshMarketPrices(currentHoldings);
+      const [updated, rates] = await Promise.all([refreshMarketPrices(currentHoldings), getFxRates()]);
+      setFxRates(rates);
       setHoldings(updated);
       saveHoldings(updated);
-      if (user && auth) saveUserHoldings(user.uid, updated);
+      syncRef.current?.update(updated).catch(e => console.error("Failed to sync prices", e));
+      recordSnapshot(updated, rates);
+      checkAlerts(updated, rates);
+      refreshWatchQuotes(watchlistRef.current);
       
       setLastUpdated(new Date().toLocaleTimeString('zh-CN', { hour12: false }));
+      setRefreshError(null);
+    } catch (e) {
+      console.error("Failed to refresh market data", e);
+      setRefreshError(describeRefreshError(e));
     } finally {
       setIsRefreshing(false);
     }
   };
 
-  // Modified to handle Incremental Updates (Weighted Average)
-  const handleAddHoldings = (newHoldings: Holding[]) => {
+  // The scheduler outlives renders, so it reads the latest holdings / refresh handler through refs
+  const holdingsRef = useRef(holdings);
+  holdingsRef.current = holdings;
+  const refreshRef = useRef(handleRefresh);
+  refreshRef.current = handleRefresh;
+
+  useEffect(() => {
+    const statusTimer = setInterval(() => setIsMarketOpen(getMarketStatus().isOpen), 60 * 1000);
+    if (!settings.autoRefresh) {
+      return () => clearInterval(statusTimer);
+    }
+
+    const scheduler = createAutoRefreshScheduler({
+      intervalMs: settings.refreshIntervalSec * 1000,
+      onRefresh: () => refreshRef.current(holdingsRef.current)
+    });
+    scheduler.start();
+    return () => {
+      clearInterval(statusTimer);
+      scheduler.stop();
+    };
+  }, [settings.autoRefresh, settings.refreshIntervalSec]);
+
+  // Newly watched assets (added here or on another device) are quoted right away; the rest wait for the next refresh
+  useEffect(() => {
+    refreshWatchQuotes(watchlist.filter(item => !watchQuotes[item.id]));
+  }, [watchlist]);
+
+  // Foreign-currency trades keep the CNY rate of their trade date, so FX P/L can be separated
+  // later. Only today's rate is known; backdated entries stay unbooked rather than take it.
+  // CNY holdings carry no rate
+  const tradeFxRate = (holding: Holding, date: string): number | undefined => {
+    const currency = getHoldingCurrency(holding);
+    if (currency === Currency.CNY || date !== toLocalDateString()) return undefined;
+    return fxRates[currency];
+  };
+
+  // Every purchase is recorded as a BUY transaction; positions are derived from the ledger
+  const handleAddHoldings = (newHoldings: Holding[], fees: Record<string, number> = {}) => {
     const updatedList = [...holdings];
+    const updatedTransactions = [...transactions];
     const affectedIds: string[] = [];
 
     newHoldings.forEach(incoming => {
-      // Find if this asset already exists (match by Code and Type)
-      const existingIndex = updatedList.findIndex(
-        h => h.code === incoming.code && h.type === incoming.type
+      // Find if this asset already exists in the same account (match by Code and Type)
+      const existing = updatedList.find(
+        h => h.code === incoming.code && h.type === incoming.type && getAccountId(h) === getAccountId(incoming)
       );
 
-      if (existingIndex !== -1) {
-        // --- MERGE LOGIC ---
-        const existing = updatedList[existingIndex];
-        
-        // Calculate Weighted Average Cost
-        const totalOldCost = existing.buyPrice * existing.quantity;
-        const totalNewCost = incoming.buyPrice * incoming.quantity;
-        const newTotalQty = existing.quantity + incoming.quantity;
-        
-        // Avoid division by zero
-        const newAvgPrice = newTotalQty > 0 ? (totalOldCost + totalNewCost) / newTotalQty : 0;
-
-        updatedList[existingIndex] = {
-          ...existing,
-          quantity: newTotalQty,
-          buyPrice: newAvgPrice,
-        };
+      if (existing) {
+        // --- APPEND TO EXISTING LEDGER ---
+        updatedTransactions.push(createTransaction(existing.id, TransactionType.BUY, {
+          date: incoming.buyDate,
+          price: incoming.buyPrice,
+          quantity: incoming.quantity,
+          fee: fees[incoming.id] || undefined,
+          fxRate: tradeFxRate(existing, incoming.buyDate)
+        }));
         affectedIds.push(existing.id);
       } else {
         // --- ADD LOGIC ---
         updatedList.push(incoming);
+        updatedTransactions.push(createOpeningTransaction({ ...incoming, costFxRate: tradeFxRate(incoming, incoming.buyDate) }, undefined, fees[incoming.id]));
         affectedIds.push(incoming.id);
       }
     });
 
-    persistHoldings(updatedList);
+    const derivedList = applyLedger(updatedList, updatedTransactions, settings.costMethod);
+    persistPortfolio(updatedList, updatedTransactions);
     setIsModalOpen(false); 
+    // The watched item stays; the watchlist marks it as held
+    setWatchPrefill(null);
     
     // Trigger price fetch for only the items that were added or modified
-    const itemsToRefresh = updatedList.filter(h => affectedIds.includes(h.id));
-
-    refreshMarketPrices(itemsToRefresh).then(refreshedItems => {
-        setHoldings(currentHoldings => {
-             // Merge the fresh prices back into the main state
-             const finalMix = currentHoldings.map(p => {
-                 const fresh = refreshedItems.find(f => f.id === p.id);
-                 return fresh ? { 
-                   ...p, 
-                   currentPrice: fresh.currentPrice, 
-                   yesterdayPrice: fresh.yesterdayPrice, 
-                   priceDate: fresh.priceDate,
-                   name: fresh.name 
-                 } : p;
-             });
-             
-             saveHoldings(finalMix);
-             if (user && auth) saveUserHoldings(user.uid, finalMix);
-             
-             return finalMix;
-         });
-    });
+    refreshAffectedPrices(derivedList.filter(h => affectedIds.includes(h.id)));
+  };
+
+  // Statement import: new holdings plus their ledger entries, FX-stamped like manual entries
+  const handleImport = async (result: ImportResult) => {
+    const updatedList = [...holdings, ...result.holdings];
+    const byId = new Map(updatedList.map(h => [h.id, h]));
+    const imported = result.transactions.map(t => ({ ...t, fxRate: tradeFxRate(byId.get(t.holdingId)!, t.date) }));
+
+    const derived = await persistPortfolio(updatedList, [...transactions, ...imported]);
+    setIsModalOpen(false);
+
+    const affectedIds = new Set(imported.map(t => t.holdingId));
+    refreshAffectedPrices(derived.filter(h => affectedIds.has(h.id)));
+  };
+
+  // Quotes for just-added holdings, merged into whatever state is current when they arrive
+  const refreshAffectedPrices = async (itemsToRefresh: Holding[]) => {
+    setIsRefreshing(true);
+    try {
+      const refreshedItems = await refreshMarketPrices(itemsToRefresh);
+      checkAlerts(refreshedItems, fxRates);
+      setHoldings(currentHoldings => {
+           // Merge the fresh prices back into the main state
+           const finalMix = currentHoldings.map(p => {
+               const fresh = refreshedItems.find(f => f.id === p.id);
+               return fresh ? { 
+                 ...p, 
+                 currentPrice: fresh.currentPrice, 
+                 yesterdayPrice: fresh.yesterdayPrice, 
+                 priceDate: fresh.priceDate,
+                 priceStatus: fresh.priceStatus,
+                 name: fresh.name 
+               } : p;
+           });
+           
+           saveHoldings(finalMix);
+           syncRef.current?.update(finalMix).catch(e => console.error("Failed to sync prices", e));
+           
+           return finalMix;
+       });
+      setRefreshError(null);
+    } catch (e) {
+      console.error("Failed to fetch prices for new holdings", e);
+      setRefreshError(describeRefreshError(e));
+    } finally {
+      setIsRefreshing(false);
+    }
   };
 
-  const handleUpdateHolding = (updatedHolding: Holding) => {
+  const handleUpdateHolding = (updatedHolding: Holding, fee?: number) => {
     // Edit mode replaces the specific record entirely (useful for correcting mistakes)
     const updatedList = holdings.map(h => h.id === updatedHolding.id ? updatedHolding : h);
-    persistHoldings(updatedList);
+    const previous = holdings.find(h => h.id === updatedHolding.id);
+    const currencyChanged = !!previous && getHoldingCurrency(previous) !== getHoldingCurrency(updatedHolding);
+
+    // A single-entry ledger is corrected in place; longer ledgers are edited via the history
+    let updatedTransactions = transactions;
+    if (isSimpleLedger(transactions, updatedHolding.id)) {
+      updatedTransactions = [
+        ...transactions.filter(t => t.holdingId !== updatedHolding.id),
+        createOpeningTransaction(
+          currencyChanged ? { ...updatedHolding, costFxRate: tradeFxRate(updatedHolding, updatedHolding.buyDate) } : updatedHolding,
+          undefined,
+          fee
+        )
+      ];
+    }
+
+    persistPortfolio(updatedList, updatedTransactions);
     setEditingId(null);
     setIsModalOpen(false);
   };
@@ -178,7 +583,8 @@ const App: React.FC = () => {
   const handleDelete = (id: string) => {
     if (confirm('确认删除? (Confirm delete?)')) {
       const updatedList = holdings.filter(h => h.id !== id);
-      persistHoldings(updatedList);
+      const updatedTransactions = transactions.filter(t => t.holdingId !== id);
+      persistPortfolio(updatedList, updatedTransactions);
       if (editingId === id) {
         setEditingId(null);
         setIsModalOpen(false);
@@ -186,13 +592,214 @@ const App: React.FC = () => {
     }
   };
 
+  // Partial or full close: the SELL entry books realized P/L against the cost basis
+  const handleSell = (order: SellOrder) => {
+    const updatedTransactions = [
+      ...transactions,
+      createTransaction(order.holdingId, TransactionType.SELL, {
+        date: order.date,
+        price: order.price,
+        quantity: order.quantity,
+        fee: order.fee || undefined,
+        fxRate: sellingHolding ? tradeFxRate(sellingHolding, order.date) : undefined
+      })
+    ];
+    persistPortfolio(holdings, updatedTransactions);
+    setSellingId(null);
+  };
+
+  // Dividends and splits are ledger entries too; the position is re-derived with them applied
+  const handleCorporateAction = (transaction: Transaction) => {
+    const holding = holdings.find(h => h.id === transaction.holdingId);
+    const entry = transaction.type === TransactionType.DIVIDEND && holding
+      ? { ...transaction, fxRate: tradeFxRate(holding, transaction.date) }
+      : transaction;
+    persistPortfolio(holdings, [...transactions, entry]);
+    setActionId(null);
+  };
+
+  // Changing the cost method re-derives every position from the ledger
+  const handleSaveSettings = async (newSettings: PortfolioSettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings);
+    setIsSettingsOpen(false);
+
+    const derived = applyLedger(holdings, transactions, newSettings.costMethod);
+    setHoldings(derived);
+    saveHoldings(derived);
+
+    if (user && auth) {
+      try {
+        await saveUserSettings(user.uid, newSettings);
+        await syncRef.current?.update(derived);
+      } catch (e) {
+        console.error("Failed to sync settings to cloud", e);
+      }
+    }
+  };
+
+  const handleSaveProfitSharing = (profitSharing: ProfitSharingAgreement[], profitSharingSettlements: ProfitSharingSettlement[]) => {
+    handleSaveSettings({ ...settings, profitSharing, profitSharingSettlements });
+  };
+
+  const handleSaveAlertRules = async (rules: AlertRule[]) => {
+    alertRulesRef.current = rules;
+    setAlertRules(rules);
+    saveAlertRules(rules);
+    if (user && auth) {
+      try {
+        await saveUserAlertRules(user.uid, rules);
+      } catch (e) {
+        console.error("Failed to sync alert rules to cloud", e);
+      }
+    }
+  };
+
+  const handleSaveWatchlist = async (items: WatchlistItem[]) => {
+    watchlistRef.current = items;
+    setWatchlist(items);
+    saveWatchlist(items);
+    if (user && auth) {
+      try {
+        await saveUserWatchlist(user.uid, items);
+      } catch (e) {
+        console.error("Failed to sync watchlist to cloud", e);
+      }
+    }
+  };
+
+  const handleWatch = (asset: AssetSearchResult) => {
+    if (isWatched(watchlist, asset)) return;
+    handleSaveWatchlist([...watchlist, createWatchlistItem(asset)]);
+  };
+
+  // Opens the add form with the watched asset and its latest price
+  const handleConvertWatch = (item: WatchlistItem) => {
+    const quote = watchQuotes[item.id];
+    setEditingId(null);
+    setWatchPrefill({
+      type: item.type,
+      name: quote?.name || item.name,
+      code: item.code,
+      market: item.market,
+      currency: item.currency,
+      buyPrice: quote?.currentPrice
+    });
+    setIsModalOpen(true);
+  };
+
+  // Opening the panel marks every fired alert as seen
+  const handleOpenAlerts = () => {
+    setIsAlertsOpen(true);
+    if (alertHistory.some(e => !e.read)) {
+      const seen = alertHistory.map(e => (e.read ? e : { ...e, read: true }));
+      setAlertHistory(seen);
+      saveAlertHistory(seen);
+    }
+  };
+
+  const handleClearAlertHistory = () => {
+    setAlertHistory([]);
+    saveAlertHistory([]);
+  };
+
+  const handleSelectAccount = (accountId: string) => {
+    setActiveAccountId(accountId);
+    saveActiveAccountId(accountId);
+  };
+
+  const handleSaveAccounts = async (newAccounts: Account[]) => {
+    setAccounts(newAccounts);
+    saveAccounts(newAccounts);
+    setIsAccountsOpen(false);
+    if (activeAccountId !== ALL_ACCOUNTS && !newAccounts.some(a => a.id === activeAccountId)) {
+      handleSelectAccount(ALL_ACCOUNTS);
+    }
+
+    if (user && auth) {
+      try {
+        await saveUserAccounts(user.uid, newAccounts);
+      } catch (e) {
+        console.error("Failed to sync accounts to cloud", e);
+      }
+    }
+  };
+
+  // Restoring a backup writes every store the same way the live handlers do, local and cloud
+  const handleRestore = async (incoming: PortfolioData, mode: RestoreMode) => {
+    const current: PortfolioData = { holdings, transactions, accounts, settings, snapshots, alertRules, alertHistory, watchlist };
+    const restored = restoreBackup(current, incoming, mode);
+    const restoredAccounts = reconcileAccounts(restored.accounts, restored.holdings);
+    const restoredDays = new Set(restored.snapshots.map(s => s.date));
+    const droppedDays = snapshots.map(s => s.date).filter(date => !restoredDays.has(date));
+
+    setSettings(restored.settings);
+    saveSettings(restored.settings);
+    setAccounts(restoredAccounts);
+    saveAccounts(restoredAccounts);
+    if (activeAccountId !== ALL_ACCOUNTS && !restoredAccounts.some(a => a.id === activeAccountId)) {
+      handleSelectAccount(ALL_ACCOUNTS);
+    }
+    setSnapshots(restored.snapshots);
+    saveSnapshots(restored.snapshots);
+    alertRulesRef.current = restored.alertRules;
+    setAlertRules(restored.alertRules);
+    saveAlertRules(restored.alertRules);
+    setAlertHistory(restored.alertHistory);
+    saveAlertHistory(restored.alertHistory);
+    watchlistRef.current = restored.watchlist;
+    setWatchlist(restored.watchlist);
+    saveWatchlist(restored.watchlist);
+    const derived = await persistPortfolio(restored.holdings, restored.transactions, restored.settings.costMethod);
+
+    if (user && auth) {
+      try {
+        await saveUserSettings(user.uid, restored.settings);
+        await saveUserAccounts(user.uid, restoredAccounts);
+        await saveUserSnapshots(user.uid, restored.snapshots);
+        if (droppedDays.length > 0) await deleteUserSnapshots(user.uid, droppedDays);
+        await saveUserAlertRules(user.uid, restored.alertRules);
+        await saveUserWatchlist(user.uid, restored.watchlist);
+      } catch (e) {
+        console.error("Failed to sync restored data to cloud", e);
+      }
+    }
+
+    setIsBackupOpen(false);
+    handleRefresh(derived);
+  };
+
+  const handleResolveConflict = (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+    syncRef.current?.resolveConflict(conflict, keep).catch(e => console.error("Failed to resolve sync conflict", e));
+  };
+
+  // Undo a wrong ledger entry; the position is re-derived from what remains. Entries a later
+  // sale depends on (buys, reinvested dividends, splits) stay until that sale is fixed
+  const handleDeleteTransaction = (transactionId: string) => {
+    const target = transactions.find(t => t.id === transactionId);
+    const own = target ? transactions.filter(t => t.holdingId === target.holdingId) : [];
+    const oversell = findOversellsAfterRemoval(own, transactionId)[0];
+    if (oversell) {
+      const sale = own.find(t => t.id === oversell.transactionId);
+      alert(`删除后 ${sale?.date} 的卖出将超过当时持仓 ${oversell.available}，请先删除或修改该卖出 (A later sale would exceed the units held)`);
+      return;
+    }
+    if (confirm('确认删除该交易记录? (Delete this transaction?)')) {
+      const updatedTransactions = transactions.filter(t => t.id !== transactionId);
+      persistPortfolio(holdings, updatedTransactions);
+    }
+  };
+
   const handleEdit = (id: string) => {
     setEditingId(id);
+    setWatchPrefill(null);
     setIsModalOpen(true);
   };
 
   const openAddModal = () => {
     setEditingId(null);
+    setWatchPrefill(null);
     setIsModalOpen(true);
   };
 
@@ -203,58 +810,115 @@ const App: React.FC = () => {
   };
 
   const editingHolding = useMemo(() => holdings.find(h => h.id === editingId), [holdings, editingId]);
+  const historyHolding = useMemo(() => holdings.find(h => h.id === historyId), [holdings, historyId]);
+  const sellingHolding = useMemo(() => holdings.find(h => h.id === sellingId), [holdings, sellingId]);
+  const actionHolding = useMemo(() => holdings.find(h => h.id === actionId), [holdings, actionId]);
+
+  // Every amount below is in the base currency
+  const valuations = useMemo(
+    () => valueHoldings(holdings, fxRates, settings.baseCurrency),
+    [holdings, fxRates, settings.baseCurrency]
+  );
+
+  // Dashboard figures cover the account picked in the header; refreshes and snapshots always cover every account
+  const visibleHoldings = useMemo(() => filterByAccount(holdings, activeAccountId), [holdings, activeAccountId]);
+  const visibleSnapshots = useMemo(
+    () => activeAccountId === ALL_ACCOUNTS ? snapshots : filterSnapshots(snapshots, new Set(visibleHoldings.map(h => h.id))),
+    [snapshots, visibleHoldings, activeAccountId]
+  );
+
+  const accountSummaries = useMemo(
+    () => summarizeAccounts(accounts, holdings, valuations),
+    [accounts, holdings, valuations]
+  );
+
+  // New holdings go to the account on screen, or the first one in the combined view
+  const targetAccountId = activeAccountId === ALL_ACCOUNTS ? accounts[0].id : activeAccountId;
 
   const summary: PortfolioSummary = useMemo(() => {
     let cost = 0;
     let value = 0;
     let dayPL = 0;
+    let realizedPL = 0;
+    let dividends = 0;
+    let fxPL = 0;
+    let fees = 0;
 
-    holdings.forEach(h => {
-      cost += h.buyPrice * h.quantity;
-      value += h.currentPrice * h.quantity;
-      if (h.yesterdayPrice) {
-        dayPL += (h.currentPrice - h.yesterdayPrice) * h.quantity;
-      }
+    visibleHoldings.forEach(h => {
+      const v = valuations[h.id];
+      realizedPL += v.realizedProfitLoss;
+      dividends += v.dividendIncome;
+      cost += v.cost;
+      value += v.marketValue;
+      dayPL += v.dayProfitLoss;
+      fxPL += v.fxProfitLoss;
+      fees += v.feesPaid;
     });
 
     const pl = value - cost;
     const rate = cost > 0 ? (pl / cost) * 100 : 0;
+    const performance = getPortfolioPerformance(visibleHoldings, transactions, visibleSnapshots, fxRates);
 
     return {
       totalCost: cost,
       totalMarketValue: value,
       totalProfitLoss: pl,
       totalReturnRate: rate,
-      totalDayProfitLoss: dayPL
+      totalDayProfitLoss: dayPL,
+      totalRealizedProfitLoss: realizedPL,
+      totalDividendIncome: dividends,
+      totalFxProfitLoss: fxPL,
+      totalFees: fees,
+      baseCurrency: settings.baseCurrency,
+      xirr: performance.xirr,
+      timeWeightedReturn: performance.timeWeightedReturn
     };
-  }, [holdings]);
+  }, [visibleHoldings, valuations, transactions, visibleSnapshots, fxRates, settings.baseCurrency]);
+
+  const unreadAlerts = alertHistory.filter(e => !e.read).length;
+
+  // Open positions whose price is an intraday fund estimate, so the totals are provisional
+  const estimatedCount = useMemo(
+    () => visibleHoldings.filter(h => h.quantity > 0 && h.priceStatus === PriceStatus.ESTIMATE).length,
+    [visibleHoldings]
+  );
+
+  const holdingPerformance = useMemo(() => {
+    const result: Record<string, HoldingPerformance> = {};
+    holdings.forEach(h => {
+      result[h.id] = getHoldingPerformance(h, transactions, snapshots, fxRates);
+    });
+    return result;
+  }, [holdings, transactions, snapshots, fxRates]);
 
   const pieData = useMemo(() => {
-    return holdings.map(h => ({
+    return visibleHoldings.map(h => ({
       name: h.name,
-      value: h.currentPrice * h.quantity
+      value: valuations[h.id].marketValue
     })).filter(d => d.value > 0);
-  }, [holdings]);
+  }, [visibleHoldings, valuations]);
 
   const barData = useMemo(() => {
-     return [...holdings]
+     return [...visibleHoldings]
         .sort((a,b) => {
-             const plA = (a.currentPrice - a.buyPrice) * a.quantity;
-             const plB = (b.currentPrice - b.buyPrice) * b.quantity;
+             const plA = valuations[a.id].profitLoss;
+             const plB = valuations[b.id].profitLoss;
              return Math.abs(plB) - Math.abs(plA); 
         })
         .slice(0, 8)
         .map(h => ({
             name: h.name,
-            pl: (h.currentPrice - h.buyPrice) * h.quantity
+            pl: valuations[h.id].profitLoss
         }));
-  }, [holdings]);
+  }, [visibleHoldings, valuations]);
 
   const getPLColor = (val: number) => val >= 0 ? 'text-red-400' : 'text-green-400';
   const getBarColor = (val: number) => val >= 0 ? '#f87171' : '#4ade80';
 
   // Format Helper
   const fmtInt = (val: number) => Math.round(val).toLocaleString('zh-CN');
+  const currencySymbol = CURRENCY_SYMBOLS[settings.baseCurrency];
+  const fmtRate = (val: number | null) => val === null ? '--' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}%`;
 
   if (authLoading && !holdings.length) {
       return <div className="min-h-screen bg-slate-900 flex items-center justify-center text-slate-500">Loading...</div>;
@@ -276,7 +940,22 @@ const App: React.FC = () => {
                <div className="flex items-center space-x-2">
                  <p className="text-xs text-slate-400">Personal Finance Dashboard</p>
                  {user ? (
-                   <span className="text-[10px] bg-indigo-900/50 text-indigo-300 px-1.5 py-0.5 rounded border border-indigo-500/30">Cloud Sync Active</span>
+                   <>
+                     <span className="text-[10px] bg-indigo-900/50 text-indigo-300 px-1.5 py-0.5 rounded border border-indigo-500/30">Cloud Sync Active</span>
+                     {syncStatus && (
+                       <span className="flex items-center space-x-1 text-[10px]" title={syncStatus.error}>
+                         {syncStatus.state === 'synced' && <span className="text-emerald-400">● 已同步 (Synced)</span>}
+                         {syncStatus.state === 'pending' && <span className="text-amber-400">● 待同步 {syncStatus.pending} (Pending)</span>}
+                         {syncStatus.state === 'offline' && <span className="text-slate-400">● 离线，待同步 {syncStatus.pending} (Offline)</span>}
+                         {syncStatus.state === 'error' && <span className="text-red-400">● 同步失败{syncStatus.pending > 0 ? ` ${syncStatus.pending}` : ''} (Error)</span>}
+                         {syncStatus.state !== 'synced' && (
+                           <button onClick={handleRetrySync} className="text-indigo-400 hover:text-indigo-300 underline">
+                             重试
+                           </button>
+                         )}
+                       </span>
+                     )}
+                   </>
                  ) : (
                    <span className="text-[10px] bg-slate-700 text-slate-400 px-1.5 py-0.5 rounded">
                      {auth ? 'Local Mode' : 'Offline Mode (No Config)'}
@@ -286,6 +965,27 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-4">
+             {/* Account Switcher */}
+             <div className="flex items-center space-x-1">
+               <select
+                 value={activeAccountId}
+                 onChange={e => handleSelectAccount(e.target.value)}
+                 className="text-sm bg-slate-900 text-slate-200 border-slate-600 rounded-md border px-2 py-1 max-w-[160px] focus:outline-none focus:ring-2 focus:ring-indigo-500"
+               >
+                 <option value={ALL_ACCOUNTS}>全部账户 (All accounts)</option>
+                 {accounts.map(a => (
+                   <option key={a.id} value={a.id}>{a.name}</option>
+                 ))}
+               </select>
+               <button
+                 onClick={() => setIsAccountsOpen(true)}
+                 className="text-xs text-slate-400 hover:text-indigo-400 transition-colors px-1"
+                 title="Manage accounts"
+               >
+                 管理
+               </button>
+             </div>
+
              {/* Auth Buttons */}
              {user ? (
                <div className="hidden sm:flex items-center space-x-3 border-r border-slate-700 pr-4 mr-1">
@@ -309,8 +1009,17 @@ const App: React.FC = () => {
              )}
 
              <div className="text-right hidden md:block">
-               <div className="text-[10px] text-slate-400 uppercase tracking-wider">Data Updated</div>
+               <div className="text-[10px] text-slate-400 uppercase tracking-wider flex items-center justify-end">
+                 <span
+                   className={`inline-block w-1.5 h-1.5 rounded-full mr-1 ${isMarketOpen ? 'bg-emerald-400' : 'bg-slate-500'}`}
+                   title={isMarketOpen ? '交易中 (Market open)' : '休市 (Market closed)'}
+                 ></span>
+                 Data Updated
+               </div>
                <div className="text-xs font-mono text-slate-200">{lastUpdated || '--:--:--'}</div>
+               {refreshError && (
+                 <div className="text-[10px] text-red-400" title={refreshError}>● 行情刷新失败 (Refresh failed)</div>
+               )}
              </div>
              
              <button
@@ -322,6 +1031,39 @@ const App: React.FC = () => {
               </svg>
               Add Asset
             </button>
+            <button
+              onClick={handleOpenAlerts}
+              className="relative text-slate-400 hover:text-indigo-400 transition-colors"
+              title="Price Alerts"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+              </svg>
+              {unreadAlerts > 0 && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white text-center">
+                  {unreadAlerts}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setIsBackupOpen(true)}
+              className="text-slate-400 hover:text-indigo-400 transition-colors"
+              title="Backup & Restore"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="text-slate-400 hover:text-indigo-400 transition-colors"
+              title="Settings"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
             <button 
               onClick={() => handleRefresh(holdings)}
               className={`flex items-center space-x-2 text-slate-400 hover:text-indigo-400 transition-colors ${isRefreshing ? 'animate-pulse' : ''}`}
@@ -338,7 +1080,7 @@ const App: React.FC = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
         
         {/* KPI Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
            <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm relative overflow-hidden order-1">
             <div className={`absolute top-0 right-0 p-2 opacity-10 ${summary.totalDayProfitLoss >= 0 ? 'bg-red-500' : 'bg-green-500'} rounded-bl-xl`}>
                 <span className="text-xl">Today</span>
@@ -347,6 +1089,9 @@ const App: React.FC = () => {
             <p className={`text-2xl font-bold mt-2 font-mono ${getPLColor(summary.totalDayProfitLoss)}`}>
                {summary.totalDayProfitLoss >= 0 ? '+' : ''}{fmtInt(summary.totalDayProfitLoss)}
             </p>
+            {estimatedCount > 0 && (
+              <p className="text-[10px] text-amber-400 mt-1">含 {estimatedCount} 项估值 (incl. estimates)</p>
+            )}
           </div>
 
           <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-2">
@@ -354,26 +1099,80 @@ const App: React.FC = () => {
             <p className={`text-2xl font-bold mt-2 font-mono ${getPLColor(summary.totalProfitLoss)}`}>
               {summary.totalProfitLoss >= 0 ? '+' : ''}{fmtInt(summary.totalProfitLoss)}
             </p>
+            {Math.abs(summary.totalFxProfitLoss) >= 0.5 && (
+              <p className="text-[10px] text-slate-500 mt-1 font-mono">
+                汇兑 (FX) {summary.totalFxProfitLoss >= 0 ? '+' : ''}{fmtInt(summary.totalFxProfitLoss)}
+              </p>
+            )}
           </div>
 
           <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-3">
+            <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold">已实现盈亏 (Realized)</p>
+            <p className={`text-2xl font-bold mt-2 font-mono ${getPLColor(summary.totalRealizedProfitLoss)}`}>
+              {summary.totalRealizedProfitLoss >= 0 ? '+' : ''}{fmtInt(summary.totalRealizedProfitLoss)}
+            </p>
+            {summary.totalDividendIncome > 0 && (
+              <p className="text-[10px] text-slate-500 mt-1 font-mono">
+                分红 (Dividends) +{fmtInt(summary.totalDividendIncome)}
+              </p>
+            )}
+          </div>
+
+          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-4">
             <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold">总收益率 (Return)</p>
             <p className={`text-2xl font-bold mt-2 font-mono ${getPLColor(summary.totalReturnRate)}`}>
                {summary.totalReturnRate >= 0 ? '+' : ''}{summary.totalReturnRate.toFixed(2)}%
             </p>
+            <p className="text-[10px] text-slate-500 mt-1 font-mono">
+              XIRR {fmtRate(summary.xirr)} · TWR {fmtRate(summary.timeWeightedReturn)}
+            </p>
           </div>
 
-          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-4">
+          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-5">
             <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold">当前总市值 (Value)</p>
-            <p className="text-2xl font-bold text-indigo-300 mt-2 font-mono">¥{fmtInt(summary.totalMarketValue)}</p>
+            <p className="text-2xl font-bold text-indigo-300 mt-2 font-mono">{currencySymbol}{fmtInt(summary.totalMarketValue)}</p>
+            {estimatedCount > 0 && (
+              <p className="text-[10px] text-amber-400 mt-1">含估值，收盘后确认 (Provisional until NAVs publish)</p>
+            )}
           </div>
 
-          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-5">
+          <div className="bg-slate-800 p-5 rounded-xl border border-slate-700 shadow-sm order-6">
             <p className="text-xs text-slate-400 uppercase tracking-wider font-semibold">总投入成本 (Cost)</p>
-            <p className="text-2xl font-bold text-slate-100 mt-2 font-mono">¥{fmtInt(summary.totalCost)}</p>
+            <p className="text-2xl font-bold text-slate-100 mt-2 font-mono">{currencySymbol}{fmtInt(summary.totalCost)}</p>
+            {summary.totalFees > 0 && (
+              <p className="text-[10px] text-slate-500 mt-1 font-mono">
+                累计费用 (Fees paid) {currencySymbol}{fmtInt(summary.totalFees)}
+              </p>
+            )}
           </div>
         </div>
 
+        {/* Per-account breakdown of the combined view */}
+        {activeAccountId === ALL_ACCOUNTS && accounts.length > 1 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {accounts.map(account => {
+              const totals = accountSummaries.find(a => a.accountId === account.id)!;
+              return (
+                <button
+                  key={account.id}
+                  onClick={() => handleSelectAccount(account.id)}
+                  className="text-left bg-slate-800 p-4 rounded-xl border border-slate-700 hover:border-indigo-500/50 transition-colors"
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-slate-200 truncate">{account.name}</span>
+                    <span className="text-[10px] text-slate-500">{totals.holdingCount} 项</span>
+                  </div>
+                  <div className="text-lg font-bold text-indigo-300 font-mono mt-1">{currencySymbol}{fmtInt(totals.marketValue)}</div>
+                  <div className="text-xs font-mono flex space-x-3">
+                    <span className={getPLColor(totals.profitLoss)}>{totals.profitLoss >= 0 ? '+' : ''}{fmtInt(totals.profitLoss)}</span>
+                    <span className={getPLColor(totals.dayProfitLoss)}>今日 {totals.dayProfitLoss >= 0 ? '+' : ''}{fmtInt(totals.dayProfitLoss)}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm min-h-[350px]">
@@ -381,7 +1180,7 @@ const App: React.FC = () => {
                     <span className="w-1 h-5 bg-indigo-500 rounded-full mr-2"></span>
                     资产配置 (Allocation)
                 </h3>
-                {holdings.length > 0 ? (
+                {visibleHoldings.length > 0 ? (
                     <ResponsiveContainer width="100%" height={250}>
                         <PieChart>
                             <Pie
@@ -400,7 +1199,7 @@ const App: React.FC = () => {
                             </Pie>
                             <Tooltip 
                                 contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
-                                formatter={(value: number) => `¥${Math.round(value).toLocaleString()}`} 
+                                formatter={(value: number) => `${currencySymbol}${Math.round(value).toLocaleString()}`} 
                             />
                             <Legend />
                         </PieChart>
@@ -415,7 +1214,7 @@ const App: React.FC = () => {
                     <span className="w-1 h-5 bg-indigo-500 rounded-full mr-2"></span>
                     主要盈亏贡献 (Top Movers)
                  </h3>
-                  {holdings.length > 0 ? (
+                  {visibleHoldings.length > 0 ? (
                     <ResponsiveContainer width="100%" height={250}>
                         <BarChart data={barData} layout="vertical" margin={{ top: 5, right: 30, left: 40, bottom: 5 }}>
                              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#334155" />
@@ -424,7 +1223,7 @@ const App: React.FC = () => {
                              <Tooltip 
                                 cursor={{fill: '#334155', opacity: 0.4}}
                                 contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
-                                formatter={(value: number) => `¥${Math.round(value).toLocaleString()}`} 
+                                formatter={(value: number) => `${currencySymbol}${Math.round(value).toLocaleString()}`} 
                              />
                              <Bar dataKey="pl" radius={[0, 4, 4, 0]}>
                                 {barData.map((entry, index) => (
@@ -439,14 +1238,36 @@ const App: React.FC = () => {
             </div>
         </div>
 
+        {/* Equity Curve */}
+        <EquityCurveChart
+          snapshots={visibleSnapshots}
+          onBackfill={handleBackfill}
+          isBackfilling={isBackfilling}
+          baseCurrency={settings.baseCurrency}
+          fxRates={fxRates}
+        />
+
         {/* Profit Sharing Logic */}
-        <ProfitSharing summary={summary} />
+        <ProfitSharing
+          agreements={settings.profitSharing}
+          settlements={settings.profitSharingSettlements}
+          holdings={holdings}
+          valuations={valuations}
+          snapshots={snapshots}
+          fxRates={fxRates}
+          baseCurrency={settings.baseCurrency}
+          accounts={accounts}
+          onSave={handleSaveProfitSharing}
+        />
 
         {/* Holdings List */}
-        <HoldingsTable holdings={holdings} onDelete={handleDelete} onEdit={handleEdit} />
+        <HoldingsTable holdings={visibleHoldings} onDelete={handleDelete} onEdit={handleEdit} onHistory={setHistoryId} onSell={setSellingId} onCorporateAction={setActionId} performance={holdingPerformance} valuations={valuations} baseCurrency={settings.baseCurrency} accounts={accounts} />
+
+        {/* Watchlist */}
+        <WatchlistTable items={watchlist} quotes={watchQuotes} holdings={holdings} onSave={handleSaveWatchlist} onConvert={handleConvertWatch} />
 
         {/* AI Advisor */}
-        <SmartAdvisor holdings={holdings} />
+        <SmartAdvisor holdings={visibleHoldings} watchlist={watchlist} onWatch={handleWatch} />
 
       </main>
 
@@ -457,9 +1278,21 @@ const App: React.FC = () => {
               <AddAssetForm 
                   onAdd={handleAddHoldings} 
                   onUpdate={handleUpdateHolding}
+                  onImport={handleImport}
+                  holdings={holdings}
+                  transactions={transactions}
                   editingHolding={editingHolding || undefined} 
+                  openingEntry={editingHolding && isSimpleLedger(transactions, editingHolding.id)
+                    ? transactions.find(t => t.holdingId === editingHolding.id)
+                    : undefined}
+                  isPositionLocked={!!editingHolding && !isSimpleLedger(transactions, editingHolding.id)}
+                  feeSchedules={settings.feeSchedules}
+                  accounts={accounts}
+                  defaultAccountId={targetAccountId}
+                  prefill={watchPrefill || undefined}
                   onCancelEdit={() => {
                     setEditingId(null);
+                    setWatchPrefill(null);
                     setIsModalOpen(false);
                   }}
               />
@@ -467,6 +1300,100 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Sell Modal */}
+      {sellingHolding && (
+        <SellAssetForm
+          holding={sellingHolding}
+          transactions={transactions}
+          costMethod={settings.costMethod}
+          feeSchedules={settings.feeSchedules}
+          onSell={handleSell}
+          onCancel={() => setSellingId(null)}
+        />
+      )}
+
+      {/* Dividend / Split Modal */}
+      {actionHolding && (
+        <CorporateActionForm
+          holding={actionHolding}
+          transactions={transactions}
+          onSubmit={handleCorporateAction}
+          onCancel={() => setActionId(null)}
+        />
+      )}
+
+      {/* Accounts Modal */}
+      {isAccountsOpen && (
+        <AccountManager
+          accounts={accounts}
+          holdings={holdings}
+          onSave={handleSaveAccounts}
+          onClose={() => setIsAccountsOpen(false)}
+        />
+      )}
+
+      {/* Backup Modal */}
+      {isBackupOpen && (
+        <BackupManager
+          data={{ holdings, transactions, accounts, settings, snapshots, alertRules, alertHistory, watchlist }}
+          isCloud={!!user}
+          onRestore={handleRestore}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      )}
+
+      {/* Sign-in Merge */}
+      {signInMerge && (
+        <SignInMergeDialog
+          comparisons={signInMerge.comparisons}
+          accounts={[...signInMerge.cloudAccounts, ...getAccounts()]}
+          onResolve={handleSignInMerge}
+        />
+      )}
+
+      {/* Sync Conflicts */}
+      {syncConflicts.length > 0 && (
+        <SyncConflictDialog
+          conflicts={syncConflicts}
+          accounts={accounts}
+          feeSchedules={settings.feeSchedules}
+          onResolve={handleResolveConflict}
+          onDismiss={() => setSyncConflicts([])}
+        />
+      )}
+
+      {/* Settings Modal */}
+      {isSettingsOpen && (
+        <SettingsModal
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* Transaction History Modal */}
+      {historyHolding && (
+        <TransactionHistory
+          holding={historyHolding}
+          transactions={transactions}
+          onDeleteTransaction={handleDeleteTransaction}
+          onClose={() => setHistoryId(null)}
+        />
+      )}
+
+      {/* Price Alerts Modal */}
+      {isAlertsOpen && (
+        <AlertPanel
+          rules={alertRules}
+          history={alertHistory}
+          holdings={holdings}
+          fxRates={fxRates}
+          onSaveRules={handleSaveAlertRules}
+          onClearHistory={handleClearAlertHistory}
+          onClose={() => setIsAlertsOpen(false)}
+        />
+      )}
+
       {/* Auth Modal */}
       {isAuthModalOpen && (
         <AuthModal onClose={() => setIsAuthModalOpen(false)} />
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Account, Holding } from '../types';
+import { createAccount, getAccountId } from '../services/accountService';
+
+interface AccountManagerProps {
+  accounts: Account[];
+  holdings: Holding[];
+  onSave: (accounts: Account[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const AccountManager: React.FC<AccountManagerProps> = ({ accounts, holdings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Account[]>(accounts);
+  const [newName, setNewName] = useState('');
+
+  // Holdings (open or closed) keep their ledger, so an account can only go once it is empty
+  const countHoldings = (accountId: string) => holdings.filter(h => getAccountId(h) === accountId).length;
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    setDraft([...draft, createAccount(newName.trim())]);
+    setNewName('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.some(a => !a.name.trim())) return;
+    onSave(draft.map(a => ({ ...a, name: a.name.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">账户管理 (Accounts)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {draft.map(account => {
+              const count = countHoldings(account.id);
+              return (
+                <div key={account.id} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    required
+                    value={account.name}
+                    onChange={e => setDraft(draft.map(a => (a.id === account.id ? { ...a, name: e.target.value } : a)))}
+                    className={inputClass}
+                  />
+                  <span className="text-[10px] text-slate-500 whitespace-nowrap w-14 text-right">{count} 项</span>
+                  <button
+                    type="button"
+                    disabled={count > 0 || draft.length === 1}
+                    onClick={() => setDraft(draft.filter(a => a.id !== account.id))}
+                    className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500"
+                    title={count > 0 ? '请先删除或移出该账户的持仓 (Move or delete its holdings first)' : 'Delete'}
+                  >
+                    删除
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              placeholder="e.g. 券商账户 / 支付宝基金 / 家人账户"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+              className="px-3 py-2 rounded-md text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 whitespace-nowrap disabled:opacity-50"
+            >
+              + 添加 (Add)
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            编辑持仓可将其移至其他账户 (Edit a holding to move it to another account)
+          </p>
+
+          <button
+            type="submit"
+            className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            保存 (Save)
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AccountManager;
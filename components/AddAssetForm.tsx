@@ -1,127 +1,238 @@
 
 import React, { useState, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { AssetType, Holding } from '../types';
+import { Account, AssetSearchResult, AssetType, Currency, FeeSchedule, Holding, Market, Transaction, TransactionType } from '../types';
+import { searchAssets } from '../services/marketDataService';
+import { formatStockCode, getMarketCurrency, parseStockCode } from '../services/stockCodes';
+import { ASSET_TYPE_LABELS, ASSET_TYPE_SHORT_LABELS, isManuallyPriced, isQuotable } from '../services/assetTypes';
+import { estimateTradeFee } from '../services/feeService';
+import { getAccountId } from '../services/accountService';
+import { ImportResult } from '../services/importService';
+import { toLocalDateString } from '../services/snapshotService';
+import ImportWizard from './ImportWizard';
 
 interface AddAssetFormProps {
-  onAdd: (holdings: Holding[]) => void;
-  onUpdate: (holding: Holding) => void;
+  onAdd: (holdings: Holding[], fees?: Record<string, number>) => void; // Purchase fees keyed by holding id
+  onUpdate: (holding: Holding, fee?: number) => void;
+  onImport: (result: ImportResult) => void;
+  holdings: Holding[]; // Existing positions and ledger, for duplicate detection on import
+  transactions: Transaction[];
   editingHolding?: Holding;
+  openingEntry?: Transaction; // The single BUY of a simple ledger, so its price before fees can be edited
+  isPositionLocked?: boolean; // Ledger has several entries: cost/qty/date are derived, not editable
+  feeSchedules: FeeSchedule[];
+  accounts: Account[];
+  defaultAccountId: string; // Account selected in the header, used for new holdings
+  prefill?: AssetPrefill; // Starts a new holding from a watched asset
   onCancelEdit: () => void;
 }
 
-const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, editingHolding, onCancelEdit }) => {
-  const [activeTab, setActiveTab] = useState<'manual' | 'batch'>('manual');
+export type AssetPrefill = Pick<Holding, 'type' | 'name' | 'code' | 'market' | 'currency'> & { buyPrice?: number };
+
+const createEmptyForm = (accountId: string) => ({
+  accountId,
+  type: AssetType.FUND,
+  market: '' as Market | '',
+  currency: Currency.CNY,
+  name: '',
+  code: '',
+  buyDate: toLocalDateString(),
+  buyPrice: '',
+  quantity: '',
+  currentPrice: '', // Manually priced types only
+  interestRate: '', // DEPOSIT only
+  maturityDate: '', // DEPOSIT only
+  fee: null as string | null, // null = calculated from the fee schedule
+  feeScheduleId: ''
+});
+
+type TypeFields = Pick<Holding, 'currentPrice' | 'priceDate' | 'interestRate' | 'maturityDate'>;
+
+// Cash and deposits are recorded as units bought at 1.0, so only the amount is asked for
+const hasUnitPrice = (type: AssetType) => type !== AssetType.CASH && type !== AssetType.DEPOSIT;
+
+const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, onImport, holdings, transactions, editingHolding, openingEntry, isPositionLocked, feeSchedules, accounts, defaultAccountId, prefill, onCancelEdit }) => {
+  const [activeTab, setActiveTab] = useState<'manual' | 'import'>('manual');
   
   // Manual State
-  const [manualForm, setManualForm] = useState({
-    type: AssetType.FUND,
-    name: '',
-    code: '',
-    buyDate: new Date().toISOString().split('T')[0],
-    buyPrice: '',
-    quantity: ''
-  });
+  const [manualForm, setManualForm] = useState(createEmptyForm(defaultAccountId));
 
   // Load editing data into form
   useEffect(() => {
     if (editingHolding) {
       setActiveTab('manual');
       setManualForm({
+        accountId: getAccountId(editingHolding),
         type: editingHolding.type,
+        market: editingHolding.market || '',
+        currency: editingHolding.currency || Currency.CNY,
         name: editingHolding.name,
         code: editingHolding.code,
         buyDate: editingHolding.buyDate,
-        buyPrice: editingHolding.buyPrice.toString(),
-        quantity: editingHolding.quantity.toString()
+        // buyPrice includes fees; the opening entry holds the price they were added to
+        buyPrice: (openingEntry ? openingEntry.price : editingHolding.buyPrice).toString(),
+        quantity: editingHolding.quantity.toString(),
+        currentPrice: editingHolding.currentPrice.toString(),
+        interestRate: editingHolding.interestRate?.toString() || '',
+        maturityDate: editingHolding.maturityDate || '',
+        fee: (openingEntry?.fee || 0).toString(),
+        feeScheduleId: editingHolding.feeScheduleId || ''
       });
-    } else {
-      // Reset form if not editing
+    } else if (prefill) {
+      setActiveTab('manual');
       setManualForm({
-        type: AssetType.FUND,
-        name: '',
-        code: '',
-        buyDate: new Date().toISOString().split('T')[0],
-        buyPrice: '',
-        quantity: ''
+        ...createEmptyForm(defaultAccountId),
+        type: prefill.type,
+        market: prefill.market || '',
+        currency: prefill.currency || Currency.CNY,
+        name: prefill.name,
+        code: prefill.code,
+        buyPrice: prefill.buyPrice ? prefill.buyPrice.toString() : ''
       });
+    } else {
+      // Reset form if not editing
+      setManualForm(createEmptyForm(defaultAccountId));
+    }
+  }, [editingHolding, openingEntry, prefill, defaultAccountId]);
+
+  // Fees follow the schedule of the asset type until the user types their own figure
+  const typeSchedules = feeSchedules.filter(fs => fs.assetType === manualForm.type);
+  const autoFee = hasUnitPrice(manualForm.type)
+    ? estimateTradeFee(
+        feeSchedules,
+        { type: manualForm.type, feeScheduleId: manualForm.feeScheduleId || undefined },
+        TransactionType.BUY,
+        (parseFloat(manualForm.buyPrice) || 0) * (parseFloat(manualForm.quantity) || 0)
+      )
+    : 0;
+  const feeValue = manualForm.fee ?? autoFee.toString();
+
+  // Search suggestions for the name field (debounced, add mode only)
+  const [suggestions, setSuggestions] = useState<AssetSearchResult[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    if (editingHolding || !isQuotable(manualForm.type) || searchQuery.trim().length < 2) {
+      setSuggestions([]);
+      return;
     }
-  }, [editingHolding]);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchAssets(searchQuery.trim()).then(results => {
+        if (!cancelled) setSuggestions(results.slice(0, 8));
+      });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, editingHolding, manualForm.type]);
+
+  const applySuggestion = (s: AssetSearchResult) => {
+    setManualForm({
+      ...manualForm,
+      type: s.type,
+      code: s.code,
+      name: s.name,
+      market: s.market || '',
+      currency: s.market ? getMarketCurrency(s.market) : manualForm.currency
+    });
+    setSearchQuery('');
+    setSuggestions([]);
+  };
+
+  // Typing 0700.HK / AAPL / sh600519 selects the market and its currency
+  const handleCodeChange = (value: string) => {
+    const parsed = manualForm.type === AssetType.STOCK ? parseStockCode(value) : null;
+    setManualForm(parsed
+      ? { ...manualForm, code: value, market: parsed.market, currency: getMarketCurrency(parsed.market) }
+      : { ...manualForm, code: value });
+  };
 
-  // Batch State
-  const [batchText, setBatchText] = useState('');
+  // Stocks are stored with the canonical code and an explicit market
+  const resolveStockCode = (): Pick<Holding, 'code' | 'market'> => {
+    if (manualForm.type !== AssetType.STOCK) return { code: manualForm.code.trim(), market: undefined };
+    const parsed = parseStockCode(manualForm.code);
+    return {
+      code: parsed ? parsed.code : manualForm.code.trim(),
+      market: manualForm.market || parsed?.market
+    };
+  };
+
+  // Type-specific fields; the rest of the holding is shared by every type
+  const resolveTypeFields = (buyPrice: number): TypeFields | null => {
+    const fields: TypeFields = {
+      currentPrice: editingHolding ? editingHolding.currentPrice : buyPrice, // Quotes replace it on the next refresh
+      priceDate: editingHolding?.priceDate,
+      interestRate: undefined,
+      maturityDate: undefined
+    };
+    if (isManuallyPriced(manualForm.type)) {
+      fields.currentPrice = manualForm.currentPrice ? parseFloat(manualForm.currentPrice) : buyPrice;
+      if (fields.currentPrice !== editingHolding?.currentPrice) {
+        fields.priceDate = new Date().toISOString().split('T')[0];
+      }
+    }
+    if (manualForm.type === AssetType.DEPOSIT) {
+      if (!manualForm.interestRate) return null;
+      fields.interestRate = parseFloat(manualForm.interestRate);
+      fields.maturityDate = manualForm.maturityDate || undefined;
+    }
+    return fields;
+  };
 
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!manualForm.code || !manualForm.buyPrice || !manualForm.quantity) return;
+    const buyPrice = hasUnitPrice(manualForm.type) ? manualForm.buyPrice : '1';
+    // Non-quotable assets may go without a code; the name identifies them
+    if (isQuotable(manualForm.type) && !manualForm.code) return;
+    if (!manualForm.code && !manualForm.name) return;
+    if (!buyPrice || !manualForm.quantity) return;
+
+    const resolved = resolveStockCode();
+    const code = resolved.code || manualForm.name.trim();
+    const market = resolved.market;
+    const typeFields = resolveTypeFields(parseFloat(buyPrice));
+    if (!typeFields) return;
+    const fee = hasUnitPrice(manualForm.type) ? parseFloat(feeValue) || 0 : 0;
+    const feeScheduleId = manualForm.feeScheduleId || undefined;
 
     if (editingHolding) {
         // Update Logic
         const updated: Holding = {
             ...editingHolding,
+            accountId: manualForm.accountId,
             type: manualForm.type,
+            market,
+            currency: manualForm.currency,
             name: manualForm.name || editingHolding.name,
-            code: manualForm.code,
+            code,
             buyDate: manualForm.buyDate,
-            buyPrice: parseFloat(manualForm.buyPrice),
+            buyPrice: parseFloat(buyPrice),
             quantity: parseFloat(manualForm.quantity),
+            feeScheduleId,
+            ...typeFields
         };
-        onUpdate(updated);
+        onUpdate(updated, fee);
     } else {
         // Add Logic
         const newHolding: Holding = {
             id: uuidv4(),
+            accountId: manualForm.accountId,
             type: manualForm.type,
-            name: manualForm.name || manualForm.code,
-            code: manualForm.code,
+            market,
+            currency: manualForm.currency,
+            name: manualForm.name || code,
+            code,
             buyDate: manualForm.buyDate,
-            buyPrice: parseFloat(manualForm.buyPrice),
+            buyPrice: parseFloat(buyPrice),
             quantity: parseFloat(manualForm.quantity),
-            currentPrice: parseFloat(manualForm.buyPrice) // Init with buy price, will fetch later
+            feeScheduleId,
+            ...typeFields
         };
-        onAdd([newHolding]);
+        onAdd([newHolding], { [newHolding.id]: fee });
         // Reset
-        setManualForm({ ...manualForm, name: '', code: '', buyPrice: '', quantity: '' });
-    }
-  };
-
-  const handleBatchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    const lines = batchText.trim().split('\n');
-    const newHoldings: Holding[] = [];
-    const today = new Date().toISOString().split('T')[0];
-
-    lines.forEach(line => {
-      // Expected: Name, Code, Price, Quantity
-      const parts = line.split(/,|，/).map(p => p.trim());
-      
-      if (parts.length >= 4) {
-        const name = parts[0];
-        const code = parts[1];
-        const price = parseFloat(parts[2]);
-        const qty = parseFloat(parts[3]);
-
-        if (code && !isNaN(price) && !isNaN(qty)) {
-          newHoldings.push({
-            id: uuidv4(),
-            type: AssetType.FUND, // Default to fund for batch
-            name: name || code,
-            code: code,
-            buyDate: today,
-            buyPrice: price,
-            quantity: qty,
-            currentPrice: price
-          });
-        }
-      }
-    });
-
-    if (newHoldings.length > 0) {
-      onAdd(newHoldings);
-      setBatchText('');
-    } else {
-      alert('Could not parse any valid holdings. Format: Name, Code, Price, Quantity');
+        setManualForm({ ...manualForm, name: '', code: '', buyPrice: '', quantity: '', currentPrice: '', interestRate: '', maturityDate: '', fee: null });
     }
   };
 
@@ -148,10 +259,10 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, editingHol
           </button>
           {!editingHolding && (
               <button
-              className={`pb-2 text-sm font-medium transition-colors ${activeTab === 'batch' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
-              onClick={() => setActiveTab('batch')}
+              className={`pb-2 text-sm font-medium transition-colors ${activeTab === 'import' ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+              onClick={() => setActiveTab('import')}
               >
-              批量导入 (Batch)
+              导入对账单 (Import)
               </button>
           )}
       </div>
@@ -162,33 +273,55 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, editingHol
             <label className="block text-xs font-medium text-slate-400 mb-1">类型 (Type)</label>
             <select
               value={manualForm.type}
-              onChange={e => setManualForm({...manualForm, type: e.target.value as AssetType})}
+              onChange={e => setManualForm({...manualForm, type: e.target.value as AssetType, feeScheduleId: ''})}
               className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
             >
-              <option value={AssetType.FUND}>基金 (Fund)</option>
-              <option value={AssetType.STOCK}>股票 (Stock)</option>
+              {Object.values(AssetType).map(type => (
+                <option key={type} value={type}>{ASSET_TYPE_LABELS[type]}</option>
+              ))}
             </select>
           </div>
           <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1">代码 (Code)</label>
+            <label className="block text-xs font-medium text-slate-400 mb-1">
+              代码 (Code){!isQuotable(manualForm.type) && <span className="text-slate-500"> · 可选 (optional)</span>}
+            </label>
             <input
               type="text"
-              required
-              placeholder="e.g. 600519"
+              required={isQuotable(manualForm.type)}
+              placeholder="e.g. 600519 / 0700.HK / AAPL.US"
               value={manualForm.code}
-              onChange={e => setManualForm({...manualForm, code: e.target.value})}
+              onChange={e => handleCodeChange(e.target.value)}
               className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
             />
           </div>
-          <div>
+          <div className="relative">
             <label className="block text-xs font-medium text-slate-400 mb-1">名称 (Name)</label>
             <input
               type="text"
               placeholder="e.g. 茅台"
               value={manualForm.name}
-              onChange={e => setManualForm({...manualForm, name: e.target.value})}
+              onChange={e => {
+                setManualForm({...manualForm, name: e.target.value});
+                setSearchQuery(e.target.value);
+              }}
               className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
             />
+            {suggestions.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full bg-slate-900 border border-slate-600 rounded-md shadow-lg max-h-56 overflow-y-auto">
+                {suggestions.map(s => (
+                  <li key={`${s.type}:${s.code}`}>
+                    <button
+                      type="button"
+                      onClick={() => applySuggestion(s)}
+                      className="w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 flex justify-between"
+                    >
+                      <span className="truncate">{s.name}</span>
+                      <span className="text-xs text-slate-500 font-mono ml-2">{s.market ? formatStockCode(s.code, s.market) : s.code} · {ASSET_TYPE_SHORT_LABELS[s.type]}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <div>
             <label className="block text-xs font-medium text-slate-400 mb-1">买入日期 (Date)</label>
@@ -196,34 +329,176 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, editingHol
               type="date"
               required
               value={manualForm.buyDate}
+              disabled={isPositionLocked}
               onChange={e => setManualForm({...manualForm, buyDate: e.target.value})}
-              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            />
-          </div>
-          <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1">买入单价 (Cost)</label>
-            <input
-              type="number"
-              required
-              step="0.0001"
-              min="0"
-              value={manualForm.buyPrice}
-              onChange={e => setManualForm({...manualForm, buyPrice: e.target.value})}
-              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
             />
           </div>
+          {hasUnitPrice(manualForm.type) && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">买入单价 (Cost)</label>
+              <input
+                type="number"
+                required
+                step="0.0001"
+                min="0"
+                value={manualForm.buyPrice}
+                disabled={isPositionLocked}
+                onChange={e => setManualForm({...manualForm, buyPrice: e.target.value})}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+              />
+            </div>
+          )}
           <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1">持仓数量 (Qty)</label>
+            <label className="block text-xs font-medium text-slate-400 mb-1">
+              {manualForm.type === AssetType.CASH ? '金额 (Amount)' : manualForm.type === AssetType.DEPOSIT ? '本金 (Principal)' : '持仓数量 (Qty)'}
+            </label>
             <input
               type="number"
               required
               step="0.01"
               min="0"
               value={manualForm.quantity}
+              disabled={isPositionLocked}
               onChange={e => setManualForm({...manualForm, quantity: e.target.value})}
-              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
             />
           </div>
+          {hasUnitPrice(manualForm.type) && (
+            <div>
+              <div className="flex justify-between items-center text-xs font-medium text-slate-400 mb-1">
+                <span>交易费用 (Fees)</span>
+                {manualForm.fee !== null && !isPositionLocked && (
+                  <button
+                    type="button"
+                    onClick={() => setManualForm({...manualForm, fee: null})}
+                    className="text-[10px] text-indigo-400 hover:text-indigo-300"
+                  >
+                    自动计算 (Auto)
+                  </button>
+                )}
+              </div>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={feeValue}
+                disabled={isPositionLocked}
+                onChange={e => setManualForm({...manualForm, fee: e.target.value})}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+              />
+              <p className="text-[10px] text-slate-500 mt-1">
+                {manualForm.fee === null ? '按费率方案估算，计入成本 (Estimated, added to cost)' : '手动输入，计入成本 (Entered, added to cost)'}
+              </p>
+            </div>
+          )}
+          {hasUnitPrice(manualForm.type) && typeSchedules.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">费率方案 (Fee Schedule)</label>
+              <select
+                value={manualForm.feeScheduleId}
+                onChange={e => setManualForm({...manualForm, feeScheduleId: e.target.value})}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">默认 ({typeSchedules[0].name})</option>
+                {typeSchedules.map(fs => (
+                  <option key={fs.id} value={fs.id}>{fs.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {isManuallyPriced(manualForm.type) && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">当前估值单价 (Current Price)</label>
+              <input
+                type="number"
+                step="0.0001"
+                min="0"
+                placeholder="默认等于买入单价 (Defaults to cost)"
+                value={manualForm.currentPrice}
+                onChange={e => setManualForm({...manualForm, currentPrice: e.target.value})}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          )}
+          {manualForm.type === AssetType.DEPOSIT && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">年利率 % (Interest Rate)</label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  min="0"
+                  value={manualForm.interestRate}
+                  onChange={e => setManualForm({...manualForm, interestRate: e.target.value})}
+                  className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">到期日 (Maturity)</label>
+                <input
+                  type="date"
+                  value={manualForm.maturityDate}
+                  min={manualForm.buyDate}
+                  onChange={e => setManualForm({...manualForm, maturityDate: e.target.value})}
+                  className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            </>
+          )}
+          {manualForm.type === AssetType.STOCK && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">市场 (Market)</label>
+              <select
+                value={manualForm.market}
+                onChange={e => {
+                  const market = e.target.value as Market | '';
+                  setManualForm({ ...manualForm, market, currency: market ? getMarketCurrency(market) : manualForm.currency });
+                }}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">按代码识别 (Auto)</option>
+                <option value={Market.SH}>上交所 (SH)</option>
+                <option value={Market.SZ}>深交所 (SZ)</option>
+                <option value={Market.BJ}>北交所 (BJ)</option>
+                <option value={Market.HK}>港股 (HK)</option>
+                <option value={Market.US}>美股 (US)</option>
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">计价货币 (Currency)</label>
+            <select
+              value={manualForm.currency}
+              disabled={isPositionLocked}
+              onChange={e => setManualForm({...manualForm, currency: e.target.value as Currency})}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <option value={Currency.CNY}>人民币 (CNY)</option>
+              <option value={Currency.HKD}>港币 (HKD)</option>
+              <option value={Currency.USD}>美元 (USD)</option>
+            </select>
+          </div>
+          {accounts.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">账户 (Account)</label>
+              <select
+                value={manualForm.accountId}
+                onChange={e => setManualForm({...manualForm, accountId: e.target.value})}
+                className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {isPositionLocked && (
+            <p className="md:col-span-2 text-xs text-amber-400/80">
+              该持仓有多笔交易记录，成本与数量由交易明细计算，请在交易记录中修改。(Cost and quantity are derived from the transaction history.)
+            </p>
+          )}
           <div className="md:col-span-2 mt-4">
             <button
               type="submit"
@@ -238,29 +513,13 @@ const AddAssetForm: React.FC<AddAssetFormProps> = ({ onAdd, onUpdate, editingHol
           </div>
         </form>
       ) : (
-        <form onSubmit={handleBatchSubmit}>
-          <div className="mb-4">
-            <label className="block text-xs font-medium text-slate-400 mb-1">
-              批量文本输入 (Batch Text)
-            </label>
-            <p className="text-[10px] text-slate-500 mb-2">
-              格式: 名称, 代码, 买入价格, 持仓数量 (逗号隔开，每行一条)
-            </p>
-            <textarea
-              rows={8}
-              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 font-mono"
-              placeholder={`招商白酒, 161725, 1.25, 1000\n易方达蓝筹, 005827, 2.30, 500`}
-              value={batchText}
-              onChange={e => setBatchText(e.target.value)}
-            />
-          </div>
-          <button
-            type="submit"
-            className="w-full bg-emerald-600 text-white py-2 px-4 rounded-md hover:bg-emerald-700 transition-colors text-sm font-medium"
-          >
-            解析并导入 (Parse & Import)
-          </button>
-        </form>
+        <ImportWizard
+          holdings={holdings}
+          transactions={transactions}
+          accounts={accounts}
+          defaultAccountId={defaultAccountId}
+          onImport={onImport}
+        />
       )}
     </div>
   );
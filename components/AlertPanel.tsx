@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertEvent, AlertRule, FxRates, Holding } from '../types';
+import {
+  ALERT_CONDITION_LABELS,
+  createAlertRule,
+  describeEvent,
+  describeRule,
+  getNotificationPermission,
+  isPriceCondition,
+  measureAlert,
+  requestNotificationPermission
+} from '../services/alertService';
+import { isQuotable } from '../services/assetTypes';
+
+interface AlertPanelProps {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  holdings: Holding[];
+  fxRates: FxRates;
+  onSaveRules: (rules: AlertRule[]) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('zh-CN', { hour12: false });
+
+const AlertPanel: React.FC<AlertPanelProps> = ({ rules, history, holdings, fxRates, onSaveRules, onClearHistory, onClose }) => {
+  const watchable = holdings.filter(h => isQuotable(h.type));
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+  const [holdingId, setHoldingId] = useState(watchable[0]?.id || '');
+  const [condition, setCondition] = useState<AlertCondition>('PRICE_ABOVE');
+  const [threshold, setThreshold] = useState('');
+  const [permission, setPermission] = useState(getNotificationPermission());
+
+  const byId = new Map<string, Holding>(holdings.map(h => [h.id, h]));
+  // Rules of deleted holdings are dropped on the next save
+  const liveRules = rules.filter(r => byId.has(r.holdingId));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const holding = byId.get(holdingId);
+    const value = parseFloat(threshold);
+    if (!holding || isNaN(value)) return;
+    onSaveRules([...liveRules, createAlertRule(holding, condition, value)]);
+    setThreshold('');
+  };
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    onSaveRules(liveRules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const thresholdHint = isPriceCondition(condition)
+    ? '报价币种价格 (Price in quote currency)'
+    : condition === 'DRAWDOWN' ? '回撤幅度 %，如 10 (Drop from peak)' : '正数为上涨，负数为下跌 (Negative watches falls)';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-2xl bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-4 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">价格提醒 (Price Alerts)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex justify-between items-center mb-4">
+          <div className="inline-flex rounded-md border border-slate-600 overflow-hidden text-xs">
+            {(['rules', 'history'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1 ${tab === t ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              >
+                {t === 'rules' ? `规则 (${liveRules.length})` : `记录 (${history.length})`}
+              </button>
+            ))}
+          </div>
+          {permission === 'granted' ? (
+            <span className="text-[10px] text-emerald-400">浏览器通知已开启 (Notifications on)</span>
+          ) : permission === 'unsupported' ? (
+            <span className="text-[10px] text-slate-500">此浏览器不支持通知 (Notifications unsupported)</span>
+          ) : permission === 'denied' ? (
+            <span className="text-[10px] text-amber-400">通知已被浏览器禁止，请在网站设置中允许</span>
+          ) : (
+            <button onClick={handleEnableNotifications} className="text-xs text-indigo-400 hover:text-indigo-300">
+              开启浏览器通知 (Enable notifications)
+            </button>
+          )}
+        </div>
+
+        {tab === 'rules' ? (
+          <>
+            <form onSubmit={handleAdd} className="grid grid-cols-[2fr_2fr_1fr_auto] gap-2 items-end mb-1">
+              <select value={holdingId} onChange={e => setHoldingId(e.target.value)} className={inputClass}>
+                {watchable.map(h => <option key={h.id} value={h.id}>{h.name} ({h.code})</option>)}
+              </select>
+              <select value={condition} onChange={e => setCondition(e.target.value as AlertCondition)} className={inputClass}>
+                {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(c => (
+                  <option key={c} value={c}>{ALERT_CONDITION_LABELS[c]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="any"
+                required
+                value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                placeholder="阈值"
+                className={inputClass}
+              />
+              <button
+                type="submit"
+                disabled={!holdingId}
+                className="py-1.5 px-3 rounded-md text-xs font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+              >
+                添加
+              </button>
+            </form>
+            <p className="text-[10px] text-slate-500 mb-4">{thresholdHint} · 每次刷新报价后检查，条件成立时提醒一次，恢复后重新生效</p>
+
+            {liveRules.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">暂无提醒规则 (No alert rules)</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-normal pb-2">持仓 (Holding)</th>
+                    <th className="text-left font-normal pb-2">条件 (Condition)</th>
+                    <th className="text-right font-normal pb-2">当前 (Now)</th>
+                    <th className="text-right font-normal pb-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {liveRules.map(rule => {
+                    const holding = byId.get(rule.holdingId)!;
+                    const value = measureAlert(rule, holding, fxRates);
+                    return (
+                      <tr key={rule.id} className={`border-t border-slate-700/50 align-top ${rule.enabled ? '' : 'opacity-50'}`}>
+                        <td className="py-2 pr-2">
+                          <div className="text-slate-200">{holding.name}</div>
+                          <div className="text-[10px] text-slate-500">{holding.code}</div>
+                        </td>
+                        <td className="py-2 pr-2">
+                          <div className="text-slate-300">{describeRule(rule)}</div>
+                          <div className="text-[10px] text-slate-500">
+                            {rule.triggeredAt ? <span className="text-amber-400">已触发 {formatTime(rule.triggeredAt)}</span> : '监控中 (Armed)'}
+                            {rule.condition === 'DRAWDOWN' && rule.peakPrice !== undefined && (
+                              <>
+                                {' · '}高点 {rule.peakPrice.toFixed(3)}
+                                <button
+                                  onClick={() => updateRule(rule.id, { peakPrice: holding.currentPrice || undefined, triggeredAt: undefined })}
+                                  className="ml-1 text-indigo-400 hover:text-indigo-300"
+                                >
+                                  重置
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-2 text-right font-mono text-slate-300">
+                          {value === null ? '--' : isPriceCondition(rule.condition) ? value.toFixed(3) : `${value.toFixed(2)}%`}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => updateRule(rule.id, { enabled: !rule.enabled, triggeredAt: undefined })}
+                            className="text-slate-400 hover:text-indigo-300 mr-3"
+                          >
+                            {rule.enabled ? '暂停' : '启用'}
+                          </button>
+                          <button
+                            onClick={() => onSaveRules(liveRules.filter(r => r.id !== rule.id))}
+                            className="text-slate-500 hover:text-red-400"
+                          >
+                            删除
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </>
+        ) : (
+          <>
+            {history.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">暂无提醒记录 (No alerts yet)</p>
+            ) : (
+              <ul className="space-y-2">
+                {history.map(event => (
+                  <li key={event.id} className="bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2">
+                    <div className="text-sm text-slate-200">{describeEvent(event)}</div>
+                    <div className="text-[10px] text-slate-500">{formatTime(event.triggeredAt)}</div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {history.length > 0 && (
+              <button
+                onClick={onClearHistory}
+                className="w-full mt-4 py-2 px-4 rounded-md transition-colors text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-200"
+              >
+                清空记录 (Clear history)
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertPanel;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import {
+  BackupDiff,
+  EntityDiff,
+  PortfolioBackup,
+  PortfolioData,
+  RestoreMode,
+  createBackup,
+  diffBackup,
+  holdingsToCsv,
+  parseBackup,
+  transactionsToCsv
+} from '../services/backupService';
+import { toLocalDateString } from '../services/snapshotService';
+
+interface BackupManagerProps {
+  data: PortfolioData;
+  isCloud: boolean;
+  onRestore: (incoming: PortfolioData, mode: RestoreMode) => Promise<void>;
+  onClose: () => void;
+}
+
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DIFF_ROWS: Array<{ key: Exclude<keyof BackupDiff, 'settingsChanged'>; label: string }> = [
+  { key: 'holdings', label: '持仓 (Holdings)' },
+  { key: 'transactions', label: '交易记录 (Transactions)' },
+  { key: 'accounts', label: '账户 (Accounts)' },
+  { key: 'snapshots', label: '每日快照 (Snapshots)' },
+  { key: 'feeSchedules', label: '费率方案 (Fee Schedules)' },
+  { key: 'profitSharing', label: '分成协议 (Agreements)' },
+  { key: 'profitSharingSettlements', label: '分成结算 (Settlements)' },
+  { key: 'alertRules', label: '提醒规则 (Alert Rules)' },
+  { key: 'alertHistory', label: '提醒记录 (Alert History)' },
+  { key: 'watchlist', label: '自选 (Watchlist)' }
+];
+
+const BackupManager: React.FC<BackupManagerProps> = ({ data, isCloud, onRestore, onClose }) => {
+  const [backup, setBackup] = useState<PortfolioBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const stamp = toLocalDateString();
+  const diff = backup ? diffBackup(data, backup) : null;
+
+  const handleExportJson = () => {
+    downloadFile(`wealthtrack-backup-${stamp}.json`, JSON.stringify(createBackup(data), null, 2), 'application/json');
+  };
+
+  const handleExportCsv = (kind: 'holdings' | 'transactions') => {
+    const content = kind === 'holdings'
+      ? holdingsToCsv(data.holdings, data.accounts)
+      : transactionsToCsv(data.transactions, data.holdings, data.accounts);
+    downloadFile(`wealthtrack-${kind}-${stamp}.csv`, content, 'text/csv;charset=utf-8');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = parseBackup(await file.text());
+    setBackup(result.backup);
+    setErrors(result.errors);
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm('替换将删除当前所有数据并以备份为准，确认继续? (Replace all current data with the backup?)')) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      await onRestore(backup, mode);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderDiffCell = (value: number, color: string) => (
+    <td className={`py-1.5 text-right font-mono ${value > 0 ? color : 'text-slate-600'}`}>{value}</td>
+  );
+
+  const renderDiffRow = (label: string, d: EntityDiff) => (
+    <tr key={label} className="border-t border-slate-700/50">
+      <td className="py-1.5 text-slate-300">{label}</td>
+      {renderDiffCell(d.added, 'text-emerald-400')}
+      {renderDiffCell(d.changed, 'text-amber-400')}
+      {renderDiffCell(d.removed, 'text-red-400')}
+      {renderDiffCell(d.unchanged, 'text-slate-400')}
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">备份与恢复 (Backup &amp; Restore)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <section>
+            <h3 className="text-sm font-medium text-slate-300 mb-1">导出 (Export)</h3>
+            <p className="text-[10px] text-slate-500 mb-3">
+              {data.holdings.length} 项持仓 · {data.transactions.length} 条交易 · {data.snapshots.length} 天快照 · {data.alertRules.length} 条提醒 · {data.watchlist.length} 项自选 ·
+              {isCloud ? ' 云端数据 (Cloud)' : ' 本地数据 (Local)'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={handleExportJson}
+                className="py-2 px-2 rounded-md text-xs font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                完整备份 (JSON)
+              </button>
+              <button
+                onClick={() => handleExportCsv('holdings')}
+                className="py-2 px-2 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-200"
+              >
+                持仓 (CSV)
+              </button>
+              <button
+                onClick={() => handleExportCsv('transactions')}
+                className="py-2 px-2 rounded-md text-xs bg-slate-700 hover:bg-slate-600 text-slate-200"
+              >
+                交易记录 (CSV)
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-2">
+              只有 JSON 备份可用于恢复；交易记录 CSV 可通过“导入对账单”重新导入 (Only JSON backups can be restored)
+            </p>
+          </section>
+
+          <section className="border-t border-slate-700 pt-4">
+            <h3 className="text-sm font-medium text-slate-300 mb-3">恢复 (Restore)</h3>
+            <label className="block w-full text-center py-2 px-4 rounded-md text-sm border border-dashed border-slate-600 text-slate-400 hover:border-indigo-500 hover:text-indigo-300 cursor-pointer">
+              {fileName || '选择备份文件 (Choose .json backup)'}
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+
+            {errors.length > 0 && (
+              <ul className="mt-3 text-xs text-red-400 bg-red-900/20 border border-red-500/30 rounded-md p-3 space-y-1 max-h-40 overflow-y-auto">
+                {errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            )}
+
+            {backup && diff && (
+              <div className="mt-3">
+                <p className="text-[10px] text-slate-500 mb-2">
+                  备份时间 (Exported) {backup.exportedAt ? new Date(backup.exportedAt).toLocaleString('zh-CN', { hour12: false }) : '--'}
+                </p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-500">
+                      <th className="text-left font-normal pb-1">与当前数据相比</th>
+                      <th className="text-right font-normal pb-1">新增</th>
+                      <th className="text-right font-normal pb-1">变更</th>
+                      <th className="text-right font-normal pb-1">仅当前有</th>
+                      <th className="text-right font-normal pb-1">相同</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {DIFF_ROWS.map(row => renderDiffRow(row.label, diff[row.key]))}
+                  </tbody>
+                </table>
+                {diff.settingsChanged && (
+                  <p className="text-[10px] text-amber-400 mt-2">备份中的偏好设置与当前不同，仅“替换”会应用 (Preferences differ; only Replace applies them)</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-2 mt-4">
+                  <button
+                    onClick={() => handleRestore('merge')}
+                    disabled={isRestoring}
+                    className="py-2 px-4 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+                  >
+                    合并 (Merge)
+                  </button>
+                  <button
+                    onClick={() => handleRestore('replace')}
+                    disabled={isRestoring}
+                    className="py-2 px-4 rounded-md text-sm font-medium bg-red-600/80 hover:bg-red-600 text-white disabled:opacity-50"
+                  >
+                    替换 (Replace)
+                  </button>
+                </div>
+                <p className="text-[10px] text-slate-500 mt-2">
+                  合并：保留当前数据，新增并以备份覆盖同一条目；替换：删除“仅当前有”的条目
+                  {isCloud && '，并同步到云端'}
+                </p>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupManager;
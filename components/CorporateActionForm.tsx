@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { Holding, Transaction, TransactionType } from '../types';
+import { createTransaction, derivePosition } from '../services/ledgerService';
+import { toLocalDateString } from '../services/snapshotService';
+
+interface CorporateActionFormProps {
+  holding: Holding;
+  transactions: Transaction[];
+  onSubmit: (transaction: Transaction) => void;
+  onCancel: () => void;
+}
+
+type ActionKind = 'CASH_DIVIDEND' | 'REINVEST_DIVIDEND' | 'SPLIT';
+
+const KIND_LABELS: Record<ActionKind, string> = {
+  CASH_DIVIDEND: '现金分红 (Cash Dividend)',
+  REINVEST_DIVIDEND: '红利再投资 (Reinvest)',
+  SPLIT: '拆股 / 送转 (Split / Bonus)'
+};
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const CorporateActionForm: React.FC<CorporateActionFormProps> = ({ holding, transactions, onSubmit, onCancel }) => {
+  const [kind, setKind] = useState<ActionKind>('CASH_DIVIDEND');
+  const [form, setForm] = useState({
+    date: toLocalDateString(),
+    perUnit: '', // Dividend per unit held on the record date
+    price: holding.currentPrice.toString(), // Reinvestment NAV
+    bonusPer10: '', // 每10股送转 X 股
+    note: ''
+  });
+
+  // Units held on the record date decide the payout and the new share count
+  const heldOnDate = useMemo(() => {
+    const own = transactions.filter(t => t.holdingId === holding.id && t.date <= form.date);
+    return derivePosition(own).quantity;
+  }, [transactions, holding.id, form.date]);
+
+  const perUnit = parseFloat(form.perUnit);
+  const price = parseFloat(form.price);
+  const bonusPer10 = parseFloat(form.bonusPer10);
+
+  const amount = !isNaN(perUnit) && perUnit > 0 ? perUnit * heldOnDate : 0;
+  const reinvestUnits = kind === 'REINVEST_DIVIDEND' && price > 0 ? amount / price : 0;
+  const ratio = !isNaN(bonusPer10) && bonusPer10 > 0 ? 1 + bonusPer10 / 10 : 0;
+
+  const isValid = heldOnDate > 0 && (kind === 'SPLIT' ? ratio > 0 : amount > 0 && (kind === 'CASH_DIVIDEND' || reinvestUnits > 0));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const note = form.note || undefined;
+    if (kind === 'SPLIT') {
+      onSubmit(createTransaction(holding.id, TransactionType.SPLIT, { date: form.date, ratio, note }));
+    } else {
+      onSubmit(createTransaction(holding.id, TransactionType.DIVIDEND, {
+        date: form.date,
+        amount,
+        reinvested: kind === 'REINVEST_DIVIDEND',
+        price: kind === 'REINVEST_DIVIDEND' ? price : 0,
+        quantity: reinvestUnits,
+        note
+      }));
+    }
+  };
+
+  const fmtQty = (val: number) => val.toLocaleString('zh-CN', { maximumFractionDigits: 2 });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <div>
+            <h2 className="text-xl font-bold text-slate-100">分红与公司行为 (Corporate Action)</h2>
+            <p className="text-xs text-slate-500 font-mono">{holding.name} · {holding.code}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex space-x-4 mb-6">
+          {(Object.keys(KIND_LABELS) as ActionKind[]).map(k => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => setKind(k)}
+              className={`pb-2 text-sm font-medium transition-colors ${kind === k ? 'text-indigo-400 border-b-2 border-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">
+              {kind === 'SPLIT' ? '除权日 (Ex-date)' : '权益登记日 (Record Date)'}
+            </label>
+            <input
+              type="date"
+              required
+              value={form.date}
+              onChange={e => setForm({ ...form, date: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">当日持仓 (Held): {fmtQty(heldOnDate)}</p>
+          </div>
+
+          {kind === 'SPLIT' ? (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">每10股送转 (Bonus per 10)</label>
+              <input
+                type="number"
+                required
+                step="0.0001"
+                min="0"
+                placeholder="e.g. 3 = 10送3; 10 = 1拆2"
+                value={form.bonusPer10}
+                onChange={e => setForm({ ...form, bonusPer10: e.target.value })}
+                className={inputClass}
+              />
+              {ratio > 0 && (
+                <p className="text-[10px] text-slate-500 mt-1">
+                  × {ratio.toFixed(4)} → {fmtQty(heldOnDate * ratio)} 份，总成本不变 (cost basis unchanged)
+                </p>
+              )}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">每份分红 (Per Unit)</label>
+              <input
+                type="number"
+                required
+                step="0.0001"
+                min="0"
+                value={form.perUnit}
+                onChange={e => setForm({ ...form, perUnit: e.target.value })}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">合计 (Total): {amount.toFixed(2)}</p>
+            </div>
+          )}
+
+          {kind === 'REINVEST_DIVIDEND' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">再投资净值 (Reinvest NAV)</label>
+              <input
+                type="number"
+                required
+                step="0.0001"
+                min="0"
+                value={form.price}
+                onChange={e => setForm({ ...form, price: e.target.value })}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">新增份额 (New units): {fmtQty(reinvestUnits)}</p>
+            </div>
+          )}
+
+          <div className={kind === 'REINVEST_DIVIDEND' ? '' : 'md:col-span-2'}>
+            <label className="block text-xs font-medium text-slate-400 mb-1">备注 (Note)</label>
+            <input
+              type="text"
+              value={form.note}
+              onChange={e => setForm({ ...form, note: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <p className="md:col-span-2 text-[10px] text-slate-500">
+            {kind === 'CASH_DIVIDEND' && '现金分红计入已实现收益，份额与成本不变 (Booked as realized income)'}
+            {kind === 'REINVEST_DIVIDEND' && '再投资份额不增加投入成本，摊薄持仓成本价 (New units lower the average cost)'}
+            {kind === 'SPLIT' && '送股、转增、拆分只改变份额与单位成本 (Only share count and unit cost change)'}
+          </p>
+
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={!isValid}
+              className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+            >
+              记录 (Record)
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CorporateActionForm;
@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { Currency, FxRates, PortfolioSnapshot } from '../types';
+import { SnapshotRange, filterSnapshotsByRange, toEquityCurve } from '../services/snapshotService';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+
+interface EquityCurveChartProps {
+  snapshots: PortfolioSnapshot[];
+  onBackfill: () => void;
+  isBackfilling: boolean;
+  baseCurrency: Currency;
+  fxRates: FxRates;
+}
+
+const RANGES: SnapshotRange[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+
+const EquityCurveChart: React.FC<EquityCurveChartProps> = ({ snapshots, onBackfill, isBackfilling, baseCurrency, fxRates }) => {
+  const [range, setRange] = useState<SnapshotRange>('3M');
+
+  const cnyPerUnit = fxRates[baseCurrency];
+  const data = useMemo(
+    () => toEquityCurve(filterSnapshotsByRange(snapshots, range), cnyPerUnit),
+    [snapshots, range, cnyPerUnit]
+  );
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-sm min-h-[350px]">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <span className="w-1 h-5 bg-indigo-500 rounded-full mr-2"></span>
+          净值走势 (Equity Curve)
+        </h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onBackfill}
+            disabled={isBackfilling}
+            className="px-2 py-1 mr-2 text-xs rounded-md border border-slate-600 text-slate-400 hover:text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-wait"
+            title="Reconstruct past values from historical prices"
+          >
+            {isBackfilling ? '回填中... (Loading)' : '回填历史 (Backfill)'}
+          </button>
+          {RANGES.map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${range === r ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+      {data.length > 1 ? (
+        <ResponsiveContainer width="100%" height={250}>
+          <ComposedChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <defs>
+              <linearGradient id="equityValue" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#6366f1" stopOpacity={0.4} />
+                <stop offset="95%" stopColor="#6366f1" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+            <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#94a3b8' }} tickFormatter={(d: string) => d.slice(5)} minTickGap={20} />
+            <YAxis yAxisId="value" tick={{ fontSize: 11, fill: '#94a3b8' }} tickFormatter={(v: number) => `${Math.round(v / 1000)}k`} width={50} />
+            <YAxis yAxisId="return" orientation="right" tick={{ fontSize: 11, fill: '#94a3b8' }} tickFormatter={(v: number) => `${v.toFixed(0)}%`} width={45} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+              formatter={(value: number, name: string) => name === 'returnRate'
+                ? [`${value.toFixed(2)}%`, '累计收益 (Return)']
+                : [`${CURRENCY_SYMBOLS[baseCurrency]}${Math.round(value).toLocaleString()}`, '市值 (Value)']}
+            />
+            <Legend formatter={(name: string) => name === 'returnRate' ? '累计收益 (Return)' : '市值 (Value)'} />
+            <Area yAxisId="value" type="monotone" dataKey="value" stroke="#6366f1" fill="url(#equityValue)" strokeWidth={2} />
+            <Line yAxisId="return" type="monotone" dataKey="returnRate" stroke="#f472b6" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="h-[250px] flex items-center justify-center text-slate-600 text-sm">
+          每日刷新后自动记录快照 (Snapshots accumulate after each daily refresh)
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EquityCurveChart;
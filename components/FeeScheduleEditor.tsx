@@ -0,0 +1,170 @@
+import React from 'react';
+import { AssetType, FeeSchedule, FeeTier } from '../types';
+import { ASSET_TYPE_LABELS } from '../services/assetTypes';
+import { createFeeSchedule } from '../services/feeService';
+
+interface FeeScheduleEditorProps {
+  schedules: FeeSchedule[];
+  onChange: (schedules: FeeSchedule[]) => void;
+}
+
+type RateField = 'commissionRate' | 'stampDutyRate' | 'transferFeeRate' | 'redemptionFeeRate';
+
+const RATE_FIELDS: Array<{ field: RateField; label: string }> = [
+  { field: 'commissionRate', label: '佣金 % (Commission)' },
+  { field: 'stampDutyRate', label: '印花税 % (Stamp Duty, sell)' },
+  { field: 'transferFeeRate', label: '过户费 % (Transfer)' },
+  { field: 'redemptionFeeRate', label: '赎回费 % (Redemption)' }
+];
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Rates are stored as fractions but edited as percentages
+const toPercent = (rate: number) => parseFloat((rate * 100).toPrecision(10));
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+
+// Inputs are uncontrolled (keyed by schedule) so partially typed numbers such as "0.0" survive
+const FeeScheduleEditor: React.FC<FeeScheduleEditorProps> = ({ schedules, onChange }) => {
+  const update = (id: string, patch: Partial<FeeSchedule>) => {
+    onChange(schedules.map(s => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const updateTier = (schedule: FeeSchedule, index: number, patch: Partial<FeeTier>) => {
+    update(schedule.id, {
+      purchaseFeeTiers: schedule.purchaseFeeTiers.map((t, i) => (i === index ? { ...t, ...patch } : t))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {schedules.map(schedule => (
+        <div key={schedule.id} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              defaultValue={schedule.name}
+              onChange={e => update(schedule.id, { name: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={schedule.assetType}
+              onChange={e => update(schedule.id, { assetType: e.target.value as AssetType })}
+              className={`${inputClass} w-auto`}
+            >
+              {(Object.values(AssetType) as AssetType[]).map(type => (
+                <option key={type} value={type}>{ASSET_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(schedules.filter(s => s.id !== schedule.id))}
+              className="text-slate-500 hover:text-red-400 text-xs shrink-0"
+            >
+              删除
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {RATE_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-[10px] text-slate-500 mb-0.5">{label}</label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  defaultValue={toPercent(schedule[field])}
+                  onChange={e => update(schedule.id, { [field]: fromPercent(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-[10px] text-slate-500 mb-0.5">最低佣金 (Min Commission)</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                defaultValue={schedule.minCommission}
+                onChange={e => update(schedule.id, { minCommission: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] text-slate-500 mb-0.5">申购费折扣 (Discount ×)</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                defaultValue={schedule.purchaseFeeDiscount}
+                onChange={e => update(schedule.id, { purchaseFeeDiscount: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-[10px] text-slate-500">申购费阶梯 (Front-end Fee Tiers)</span>
+              <button
+                type="button"
+                onClick={() => update(schedule.id, { purchaseFeeTiers: [...schedule.purchaseFeeTiers, { upTo: null, rate: 0 }] })}
+                className="text-[10px] text-indigo-400 hover:text-indigo-300"
+              >
+                + 阶梯 (Tier)
+              </button>
+            </div>
+            {schedule.purchaseFeeTiers.map((tier, index) => (
+              // Re-mount the row inputs when a tier is removed so their default values line up again
+              <div key={`${index}-${schedule.purchaseFeeTiers.length}`} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 mb-1 items-center">
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="上限 (Up to, blank = ∞)"
+                  defaultValue={tier.upTo ?? ''}
+                  onChange={e => updateTier(schedule, index, { upTo: e.target.value ? parseFloat(e.target.value) : null })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="费率 %"
+                  defaultValue={toPercent(tier.rate)}
+                  onChange={e => updateTier(schedule, index, { rate: fromPercent(e.target.value) })}
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="固定 (Flat)"
+                  defaultValue={tier.fixed ?? ''}
+                  onChange={e => updateTier(schedule, index, { fixed: e.target.value ? parseFloat(e.target.value) : undefined })}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => update(schedule.id, { purchaseFeeTiers: schedule.purchaseFeeTiers.filter((_, i) => i !== index) })}
+                  className="text-slate-500 hover:text-red-400 text-xs"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...schedules, createFeeSchedule(AssetType.STOCK)])}
+        className="w-full py-1.5 rounded-md border border-dashed border-slate-600 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-400"
+      >
+        + 添加费率方案 (Add Schedule)
+      </button>
+    </div>
+  );
+};
+
+export default FeeScheduleEditor;
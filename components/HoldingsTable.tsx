@@ -1,18 +1,32 @@
 
 import React, { useState } from 'react';
-import { AssetType, Holding } from '../types';
+import { Account, AssetType, Currency, Holding, PriceStatus } from '../types';
+import { HoldingPerformance } from '../services/performanceService';
+import { HoldingValuation, getHoldingCurrency } from '../services/valuationService';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+import { formatStockCode } from '../services/stockCodes';
+import { ASSET_TYPE_LABELS, ASSET_TYPE_SHORT_LABELS, isManuallyPriced } from '../services/assetTypes';
+import { ALL_ACCOUNTS, getAccountId } from '../services/accountService';
 
 interface HoldingsTableProps {
   holdings: Holding[];
   onDelete: (id: string) => void;
   onEdit: (id: string) => void;
+  onHistory: (id: string) => void;
+  onSell: (id: string) => void;
+  onCorporateAction: (id: string) => void;
+  performance: Record<string, HoldingPerformance>;
+  valuations: Record<string, HoldingValuation>; // In the base currency
+  baseCurrency: Currency;
+  accounts: Account[];
 }
 
 type SortField = 'marketValue' | 'profitLoss' | 'profitRate' | 'dayProfitLoss' | 'currentPrice';
 type SortOrder = 'asc' | 'desc';
 
-const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdit }) => {
+const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdit, onHistory, onSell, onCorporateAction, performance, valuations, baseCurrency, accounts }) => {
   const [filterType, setFilterType] = useState<AssetType | 'ALL'>('ALL');
+  const [filterAccount, setFilterAccount] = useState<string>(ALL_ACCOUNTS);
   const [sortField, setSortField] = useState<SortField>('profitLoss');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
 
@@ -25,20 +39,29 @@ const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdi
     }
   };
 
-  const filtered = holdings.filter(h => filterType === 'ALL' || h.type === filterType);
+  // Account filter and labels only matter when the rows span several accounts (the combined view)
+  const accountsInView = accounts.filter(a => holdings.some(h => getAccountId(h) === a.id));
+  const showAccounts = accountsInView.length > 1;
+  const accountFilter = showAccounts ? filterAccount : ALL_ACCOUNTS;
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+
+  const filtered = holdings.filter(h =>
+    (filterType === 'ALL' || h.type === filterType) &&
+    (accountFilter === ALL_ACCOUNTS || getAccountId(h) === accountFilter)
+  );
 
   const sorted = [...filtered].sort((a, b) => {
-    const costA = a.buyPrice * a.quantity;
-    const valA = a.currentPrice * a.quantity;
-    const plA = valA - costA;
-    const prA = costA > 0 ? plA / costA : 0;
-    const dayPLA = a.yesterdayPrice ? (a.currentPrice - a.yesterdayPrice) * a.quantity : 0;
-
-    const costB = b.buyPrice * b.quantity;
-    const valB = b.currentPrice * b.quantity;
-    const plB = valB - costB;
-    const prB = costB > 0 ? plB / costB : 0;
-    const dayPLB = b.yesterdayPrice ? (b.currentPrice - b.yesterdayPrice) * b.quantity : 0;
+    const vA = valuations[a.id];
+    const valA = vA.marketValue;
+    const plA = vA.profitLoss;
+    const prA = vA.cost > 0 ? plA / vA.cost : 0;
+    const dayPLA = vA.dayProfitLoss;
+
+    const vB = valuations[b.id];
+    const valB = vB.marketValue;
+    const plB = vB.profitLoss;
+    const prB = vB.cost > 0 ? plB / vB.cost : 0;
+    const dayPLB = vB.dayProfitLoss;
 
     let val1 = 0;
     let val2 = 0;
@@ -75,20 +98,36 @@ const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdi
   const fmtInt = (val: number) => Math.round(val).toLocaleString('zh-CN');
   // Format to 4 decimals for Prices
   const fmtPrice = (val: number) => val.toFixed(4);
+  const fmtRate = (val: number | null | undefined) => val === null || val === undefined ? '--' : `${val.toFixed(2)}%`;
 
   return (
     <div className="bg-slate-800 rounded-xl shadow-sm border border-slate-700 overflow-hidden">
       <div className="p-4 border-b border-slate-700 flex justify-between items-center">
         <h3 className="font-semibold text-slate-200">持仓明细 (Holdings)</h3>
-        <select
-          value={filterType}
-          onChange={(e) => setFilterType(e.target.value as AssetType | 'ALL')}
-          className="text-sm bg-slate-900 text-slate-300 border-slate-600 rounded-md border px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-        >
-          <option value="ALL">全部类型 (All)</option>
-          <option value={AssetType.STOCK}>股票 (Stock)</option>
-          <option value={AssetType.FUND}>基金 (Fund)</option>
-        </select>
+        <div className="flex items-center space-x-2">
+          {showAccounts && (
+            <select
+              value={accountFilter}
+              onChange={(e) => setFilterAccount(e.target.value)}
+              className="text-sm bg-slate-900 text-slate-300 border-slate-600 rounded-md border px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value={ALL_ACCOUNTS}>全部账户 (All accounts)</option>
+              {accountsInView.map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value as AssetType | 'ALL')}
+            className="text-sm bg-slate-900 text-slate-300 border-slate-600 rounded-md border px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="ALL">全部类型 (All)</option>
+            {Object.values(AssetType).map(type => (
+              <option key={type} value={type}>{ASSET_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
       </div>
       
       <div className="overflow-x-auto">
@@ -111,35 +150,72 @@ const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdi
               <th className="px-4 py-3 cursor-pointer hover:text-indigo-400 whitespace-nowrap" onClick={() => handleSort('profitRate')}>
                 收益率 (%) {sortField === 'profitRate' && (sortOrder === 'asc' ? '↑' : '↓')}
               </th>
+              <th className="px-4 py-3 whitespace-nowrap" title="Money-weighted annualized return / time-weighted return">
+                年化 (XIRR / TWR)
+              </th>
               <th className="px-4 py-3 text-right whitespace-nowrap">操作 (Action)</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-700/50">
             {sorted.map(h => {
-              const cost = h.buyPrice * h.quantity;
-              const value = h.currentPrice * h.quantity;
-              const pl = value - cost;
-              const plRate = cost > 0 ? (pl / cost) * 100 : 0;
-              const dayPL = h.yesterdayPrice ? (h.currentPrice - h.yesterdayPrice) * h.quantity : 0;
+              const valuation = valuations[h.id];
+              const currency = getHoldingCurrency(h);
+              const pl = valuation.profitLoss;
+              const plRate = valuation.cost > 0 ? (pl / valuation.cost) * 100 : 0;
+              const dayPL = valuation.dayProfitLoss;
               const dayChangeRate = h.yesterdayPrice ? ((h.currentPrice - h.yesterdayPrice) / h.yesterdayPrice) * 100 : 0;
+              const realized = valuation.realizedProfitLoss;
+              const fxPL = valuation.fxProfitLoss;
+              const dividends = valuation.dividendIncome;
+              // Unit prices stay in the asset's own currency
+              const priceSymbol = currency === Currency.CNY ? '' : CURRENCY_SYMBOLS[currency];
+              const isClosed = h.quantity === 0;
+              const perf = performance[h.id];
 
               return (
-                <tr key={h.id} className="hover:bg-slate-700/30 transition-colors">
+                <tr key={h.id} className={`hover:bg-slate-700/30 transition-colors ${isClosed ? 'opacity-60' : ''}`}>
                   <td className="px-4 py-3">
-                    <div className="font-medium text-slate-200">{h.name}</div>
-                    <div className="text-xs text-slate-500 font-mono">{h.code} · {h.type === AssetType.STOCK ? '股票' : '基金'}</div>
+                    <div className="font-medium text-slate-200">
+                      {h.name}
+                      {isClosed && <span className="ml-2 text-[10px] bg-slate-700 text-slate-400 px-1.5 py-0.5 rounded">已清仓 (Closed)</span>}
+                    </div>
+                    <div className="text-xs text-slate-500 font-mono">
+                      {h.market ? formatStockCode(h.code, h.market) : h.code} · {ASSET_TYPE_SHORT_LABELS[h.type]}{currency !== Currency.CNY && ` · ${currency}`}
+                    </div>
+                    {showAccounts && (
+                      <div className="text-[10px] text-indigo-300/70">{accountNames.get(getAccountId(h))}</div>
+                    )}
+                    {h.type === AssetType.DEPOSIT && (
+                      <div className="text-xs text-slate-500">
+                        年利率 {h.interestRate ?? 0}%{h.maturityDate && ` · 到期 ${h.maturityDate}`}
+                      </div>
+                    )}
                     <div className="text-xs text-slate-500 mt-1">
-                      Hold: <span className="text-slate-300">{h.quantity}</span> · Cost: <span className="text-slate-300">{fmtPrice(h.buyPrice)}</span>
+                      Hold: <span className="text-slate-300">{h.quantity}</span> · Cost: <span className="text-slate-300">{priceSymbol}{fmtPrice(h.buyPrice)}</span>
+                      {valuation.feesPaid > 0 && (
+                        <span title="Fees paid, included in cost and realized P/L"> · 费用 {fmtInt(valuation.feesPaid)}</span>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-3 font-mono text-slate-200">
-                    <div>{fmtPrice(h.currentPrice)}</div>
+                    <div className="flex items-center space-x-1">
+                      <span>{priceSymbol}{fmtPrice(h.currentPrice)}</span>
+                      {h.priceStatus === PriceStatus.ESTIMATE && (
+                        <span className="text-[10px] font-sans bg-amber-900/40 text-amber-300 px-1 rounded" title="盘中估值，收盘后以公布净值为准 (Intraday estimate)">估 (Est.)</span>
+                      )}
+                      {isManuallyPriced(h.type) && (
+                        <span className="text-[10px] font-sans bg-slate-700 text-slate-300 px-1 rounded" title="手动录入的估值，编辑持仓以更新 (Entered by hand; edit the holding to update)">手动 (Manual)</span>
+                      )}
+                      {h.priceStatus === PriceStatus.STALE && (
+                        <span className="text-[10px] font-sans bg-slate-700 text-slate-400 px-1 rounded" title="最近一次刷新未获取到报价 (Last refresh returned no quote)">旧 (Stale)</span>
+                      )}
+                    </div>
                     {h.priceDate && (
                       <div className="text-[10px] text-slate-500 mt-0.5">{h.priceDate.replace(/^\d{4}-/, '')}</div>
                     )}
                   </td>
                   <td className="px-4 py-3 font-medium font-mono text-slate-200">
-                    ¥{fmtInt(value)}
+                    {CURRENCY_SYMBOLS[baseCurrency]}{fmtInt(valuation.marketValue)}
                   </td>
                   <td className={`px-4 py-3 font-medium font-mono ${getPLColor(dayPL)}`}>
                      <div>{dayPL > 0 ? '+' : ''}{fmtInt(dayPL)}</div>
@@ -148,12 +224,62 @@ const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdi
                      </div>
                   </td>
                   <td className={`px-4 py-3 font-medium font-mono ${getPLColor(pl)}`}>
-                    {pl > 0 ? '+' : ''}{fmtInt(pl)}
+                    <div>{pl > 0 ? '+' : ''}{fmtInt(pl)}</div>
+                    {realized !== 0 && (
+                      <div className={`text-xs opacity-70 ${getPLColor(realized)}`} title="Realized P/L">
+                        已实现 {realized > 0 ? '+' : ''}{fmtInt(realized)}
+                      </div>
+                    )}
+                    {dividends > 0 && (
+                      <div className="text-xs opacity-70 text-slate-400" title="Dividends received (cash ones are in realized P/L)">
+                        分红 +{fmtInt(dividends)}
+                      </div>
+                    )}
+                    {Math.abs(fxPL) >= 0.5 && (
+                      <div className={`text-xs opacity-70 ${getPLColor(fxPL)}`} title="FX P/L (included in Total P/L)">
+                        汇兑 {fxPL > 0 ? '+' : ''}{fmtInt(fxPL)}
+                      </div>
+                    )}
                   </td>
                   <td className={`px-4 py-3 font-medium font-mono ${getPLColor(plRate)}`}>
                     {plRate.toFixed(2)}%
                   </td>
+                  <td className="px-4 py-3 font-mono">
+                    <div className={perf?.xirr != null ? getPLColor(perf.xirr) : 'text-slate-500'}>{fmtRate(perf?.xirr)}</div>
+                    <div className="text-xs text-slate-500">TWR {fmtRate(perf?.timeWeightedReturn)}</div>
+                  </td>
                   <td className="px-4 py-3 text-right space-x-2">
+                    {!isClosed && (
+                      <button
+                        onClick={() => onSell(h.id)}
+                        className="text-slate-400 hover:text-emerald-400 transition-colors"
+                        title="Sell"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+                        </svg>
+                      </button>
+                    )}
+                    {(h.type === AssetType.STOCK || h.type === AssetType.FUND) && (
+                      <button
+                        onClick={() => onCorporateAction(h.id)}
+                        className="text-slate-400 hover:text-amber-400 transition-colors"
+                        title="Dividend / Split"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v13m0-13V6a2 2 0 112 2h-2zm0 0V5.5A2.5 2.5 0 109.5 8H12zm-7 4h14M5 12a2 2 0 110-4h14a2 2 0 110 4M5 12v7a2 2 0 002 2h10a2 2 0 002-2v-7" />
+                        </svg>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onHistory(h.id)}
+                      className="text-slate-400 hover:text-indigo-400 transition-colors"
+                      title="Transactions"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                      </svg>
+                    </button>
                     <button
                       onClick={() => onEdit(h.id)}
                       className="text-slate-400 hover:text-indigo-400 transition-colors"
@@ -178,7 +304,7 @@ const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, onDelete, onEdi
             })}
             {sorted.length === 0 && (
               <tr>
-                <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
+                <td colSpan={8} className="px-4 py-8 text-center text-slate-500">
                   暂无持仓记录 (No holdings found)
                 </td>
               </tr>
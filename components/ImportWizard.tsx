@@ -0,0 +1,335 @@
+import React, { useMemo, useState } from 'react';
+import { Account, AssetType, Holding, Transaction, TransactionType } from '../types';
+import {
+  ColumnMapping,
+  IMPORT_FIELD_LABELS,
+  ImportField,
+  ImportResult,
+  ImportTypeHint,
+  buildImport,
+  findHeaderRow,
+  guessMapping,
+  markDuplicates,
+  markOversells,
+  parseDelimitedText,
+  parseImportRows,
+  readImportFile
+} from '../services/importService';
+import { ASSET_TYPE_LABELS, ASSET_TYPE_SHORT_LABELS } from '../services/assetTypes';
+
+interface ImportWizardProps {
+  holdings: Holding[];
+  transactions: Transaction[];
+  accounts: Account[];
+  defaultAccountId: string;
+  onImport: (result: ImportResult) => void;
+}
+
+type Step = 'source' | 'mapping' | 'preview';
+
+const SIDE_LABELS: Partial<Record<TransactionType, string>> = {
+  [TransactionType.BUY]: '买入',
+  [TransactionType.SELL]: '卖出',
+  [TransactionType.DIVIDEND]: '分红'
+};
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const cellSelectClass = 'w-full bg-slate-900 text-slate-200 rounded border border-slate-600 px-1 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ holdings, transactions, accounts, defaultAccountId, onImport }) => {
+  const [step, setStep] = useState<Step>('source');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [headerIndex, setHeaderIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [typeHint, setTypeHint] = useState<ImportTypeHint>('AUTO');
+  const [accountId, setAccountId] = useState(defaultAccountId);
+  const [pastedText, setPastedText] = useState('');
+  const [error, setError] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  // Rows the user ticked or unticked; the rest follow the default (valid and not a duplicate)
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+
+  const loadRows = (loaded: string[][]) => {
+    const nonEmpty = loaded.filter(r => r.some(cell => cell));
+    if (nonEmpty.length < 2) {
+      setError('未找到数据行 (No data rows found)');
+      return;
+    }
+    const header = findHeaderRow(nonEmpty);
+    setRows(nonEmpty);
+    setHeaderIndex(header);
+    setMapping(guessMapping(nonEmpty[header]));
+    setOverrides({});
+    setError('');
+    setStep('mapping');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      loadRows(await readImportFile(file));
+    } catch (e) {
+      console.error('Failed to read import file', e);
+      setError('文件无法读取 (Could not read the file)');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleHeaderChange = (index: number) => {
+    setHeaderIndex(index);
+    setMapping(guessMapping(rows[index] || []));
+  };
+
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const hasRequired = (['date', 'code', 'side'] as ImportField[]).every(f => mapping.includes(f));
+
+  const parsed = useMemo(() => {
+    if (step !== 'preview') return [];
+    const rowsWithDuplicates = markDuplicates(parseImportRows(rows, headerIndex, mapping, typeHint), holdings, transactions, accountId);
+    return markOversells(rowsWithDuplicates, holdings, transactions, accountId);
+  }, [step, rows, headerIndex, mapping, typeHint, holdings, transactions, accountId]);
+
+  const isIncluded = (row: typeof parsed[number]) => row.errors.length === 0 && (overrides[row.rowNumber] ?? !row.duplicate);
+  const selected = parsed.filter(isIncluded);
+  const errorCount = parsed.filter(r => r.errors.length > 0).length;
+  const duplicateCount = parsed.filter(r => r.errors.length === 0 && r.duplicate).length;
+
+  const handleCommit = () => {
+    if (selected.length === 0) return;
+    onImport(buildImport(selected, holdings, accountId));
+  };
+
+  const fmtNum = (val: number, digits = 4) => val ? parseFloat(val.toFixed(digits)).toString() : '-';
+
+  if (step === 'source') {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">资产类型 (Type)</label>
+            <select value={typeHint} onChange={e => setTypeHint(e.target.value as ImportTypeHint)} className={inputClass}>
+              <option value="AUTO">自动识别 (Auto detect)</option>
+              <option value={AssetType.STOCK}>{ASSET_TYPE_LABELS[AssetType.STOCK]}</option>
+              <option value={AssetType.FUND}>{ASSET_TYPE_LABELS[AssetType.FUND]}</option>
+            </select>
+          </div>
+          {accounts.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">导入到账户 (Account)</label>
+              <select value={accountId} onChange={e => setAccountId(e.target.value)} className={inputClass}>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">对账单文件 (Statement File)</label>
+          <input
+            type="file"
+            accept=".csv,.txt,.tsv,.xls,.xlsx"
+            disabled={isReading}
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-slate-400 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+          />
+          <p className="text-[10px] text-slate-500 mt-1">
+            支持券商 / 天天基金 / 支付宝导出的 CSV、XLS、XLSX 交割单或交易记录 (Broker and fund platform exports)
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">或粘贴表格文本 (Or paste rows)</label>
+          <textarea
+            rows={6}
+            className={`${inputClass} font-mono`}
+            placeholder={`成交日期, 证券代码, 证券名称, 买卖标志, 成交价格, 成交数量\n2024-01-05, 161725, 招商白酒, 申购, 1.25, 1000`}
+            value={pastedText}
+            onChange={e => setPastedText(e.target.value)}
+          />
+          <button
+            type="button"
+            disabled={!pastedText.trim()}
+            onClick={() => loadRows(parseDelimitedText(pastedText.trim()))}
+            className="mt-2 w-full bg-slate-700 text-slate-200 py-2 px-4 rounded-md hover:bg-slate-600 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            解析文本 (Parse Text)
+          </button>
+        </div>
+
+        {isReading && <p className="text-xs text-slate-400">读取中... (Reading)</p>}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  if (step === 'mapping') {
+    const samples = rows.slice(headerIndex + 1, headerIndex + 4);
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3">
+          <label className="text-xs font-medium text-slate-400">表头所在行 (Header row)</label>
+          <input
+            type="number"
+            min={1}
+            max={rows.length - 1}
+            value={headerIndex + 1}
+            onChange={e => handleHeaderChange(Math.min(Math.max(parseInt(e.target.value, 10) - 1 || 0, 0), rows.length - 2))}
+            className="w-20 bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-2 py-1 text-sm"
+          />
+          <span className="text-[10px] text-slate-500">共 {rows.length - headerIndex - 1} 行数据 (data rows)</span>
+        </div>
+
+        <div className="overflow-x-auto border border-slate-700 rounded-lg">
+          <table className="text-xs text-left">
+            <thead className="bg-slate-900/50 text-slate-400">
+              <tr>
+                {Array.from({ length: columnCount }, (_, col) => (
+                  <th key={col} className="px-2 py-2 min-w-[120px] font-medium">
+                    <div className="truncate mb-1" title={rows[headerIndex][col]}>{rows[headerIndex][col] || `列 ${col + 1}`}</div>
+                    <select
+                      value={mapping[col] || ''}
+                      onChange={e => {
+                        const next = [...mapping];
+                        next[col] = (e.target.value || null) as ImportField | null;
+                        setMapping(next);
+                      }}
+                      className={cellSelectClass}
+                    >
+                      <option value="">忽略 (Ignore)</option>
+                      {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(f => (
+                        <option key={f} value={f}>{IMPORT_FIELD_LABELS[f]}</option>
+                      ))}
+                    </select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50 text-slate-300 font-mono">
+              {samples.map((row, i) => (
+                <tr key={i}>
+                  {Array.from({ length: columnCount }, (_, col) => (
+                    <td key={col} className="px-2 py-1 truncate max-w-[160px]">{row[col]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-[10px] text-slate-500">
+          必填：日期、代码、买卖方向；价格、数量、金额至少两项。多列映射为“费用”时相加 (Fee columns are summed)
+        </p>
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={() => setStep('source')}
+            className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            上一步 (Back)
+          </button>
+          <button
+            type="button"
+            disabled={!hasRequired}
+            onClick={() => setStep('preview')}
+            className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            预览 (Preview)
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-4 text-xs">
+        <span className="text-emerald-400">可导入 (Ready) {parsed.length - errorCount - duplicateCount}</span>
+        <span className="text-amber-400">重复 (Duplicates) {duplicateCount}</span>
+        <span className="text-red-400">错误 (Errors) {errorCount}</span>
+      </div>
+
+      <div className="overflow-x-auto max-h-[45vh] overflow-y-auto border border-slate-700 rounded-lg">
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-900 text-slate-400 sticky top-0">
+            <tr>
+              <th className="px-2 py-2"></th>
+              <th className="px-2 py-2">行</th>
+              <th className="px-2 py-2">日期</th>
+              <th className="px-2 py-2">代码</th>
+              <th className="px-2 py-2">名称</th>
+              <th className="px-2 py-2">类型</th>
+              <th className="px-2 py-2">方向</th>
+              <th className="px-2 py-2 text-right">价格</th>
+              <th className="px-2 py-2 text-right">数量</th>
+              <th className="px-2 py-2 text-right">费用</th>
+              <th className="px-2 py-2">状态 (Status)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50 text-slate-300">
+            {parsed.map(row => {
+              const hasErrors = row.errors.length > 0;
+              return (
+                <tr key={row.rowNumber} className={hasErrors ? 'bg-red-900/10' : row.duplicate ? 'bg-amber-900/10' : ''}>
+                  <td className="px-2 py-1">
+                    <input
+                      type="checkbox"
+                      disabled={hasErrors}
+                      checked={isIncluded(row)}
+                      onChange={e => setOverrides({ ...overrides, [row.rowNumber]: e.target.checked })}
+                      className="rounded border-slate-600 bg-slate-900 text-indigo-600 focus:ring-indigo-500"
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-slate-500">{row.rowNumber}</td>
+                  <td className="px-2 py-1 font-mono">{row.date || '-'}</td>
+                  <td className="px-2 py-1 font-mono">{row.code || '-'}</td>
+                  <td className="px-2 py-1 truncate max-w-[120px]">{row.name}</td>
+                  <td className="px-2 py-1">{ASSET_TYPE_SHORT_LABELS[row.type]}</td>
+                  <td className="px-2 py-1">
+                    {row.side ? SIDE_LABELS[row.side] : '-'}{row.reinvested && '(再投)'}
+                  </td>
+                  <td className="px-2 py-1 text-right font-mono">{fmtNum(row.price)}</td>
+                  <td className="px-2 py-1 text-right font-mono">{fmtNum(row.quantity, 2)}</td>
+                  <td className="px-2 py-1 text-right font-mono">{fmtNum(row.fee, 2)}</td>
+                  <td className="px-2 py-1">
+                    {hasErrors ? (
+                      <span className="text-red-400">{row.errors.join('; ')}</span>
+                    ) : row.duplicate ? (
+                      <span className="text-amber-400">已存在 (Already recorded)</span>
+                    ) : (
+                      <span className="text-emerald-400">OK</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={() => setStep('mapping')}
+          className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-200"
+        >
+          上一步 (Back)
+        </button>
+        <button
+          type="button"
+          disabled={selected.length === 0}
+          onClick={handleCommit}
+          className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-emerald-600 hover:bg-emerald-700 text-white disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+        >
+          导入 {selected.length} 条 (Import)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
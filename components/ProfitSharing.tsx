@@ -1,93 +1,173 @@
 
-import React, { useMemo } from 'react';
-import { PortfolioSummary } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Account, Currency, FxRates, Holding, PortfolioSnapshot, ProfitSharingAgreement, ProfitSharingSettlement } from '../types';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+import { HoldingValuation } from '../services/valuationService';
+import { calculateProfitSharing, describeGuarantee, describeScope, describeTiers, measureAgreement } from '../services/profitSharingService';
+import { canReopen, reopenSettlement } from '../services/settlementService';
+import { toLocalDateString } from '../services/snapshotService';
+import ProfitSharingEditor from './ProfitSharingEditor';
+import SettlementDialog from './SettlementDialog';
+import SettlementStatement from './SettlementStatement';
 
 interface ProfitSharingProps {
-  summary: PortfolioSummary;
+  agreements: ProfitSharingAgreement[];
+  settlements: ProfitSharingSettlement[];
+  holdings: Holding[];
+  valuations: Record<string, HoldingValuation>;
+  snapshots: PortfolioSnapshot[];
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  accounts: Account[];
+  onSave: (agreements: ProfitSharingAgreement[], settlements: ProfitSharingSettlement[]) => void;
 }
 
-const ProfitSharing: React.FC<ProfitSharingProps> = ({ summary }) => {
-  const { totalCost, totalProfitLoss } = summary;
-
-  const calculation = useMemo(() => {
-    if (totalCost === 0) {
-      return { sharingAmount: 0, guaranteeAmount: 0 };
-    }
-
-    let sharingAmount = 0;
-    let guaranteeAmount = 0;
-
-    // Logic:
-    // If Loss: Guarantee = Total Loss.
-    if (totalProfitLoss < 0) {
-      guaranteeAmount = Math.abs(totalProfitLoss);
-    } else {
-      // If Profit
-      const profitRate = totalProfitLoss / totalCost;
-      
-      const thresholdLow = 0.03; // 3%
-      const thresholdHigh = 0.05; // 5%
-
-      const profitAt3Percent = totalCost * thresholdLow;
-      const profitAt5Percent = totalCost * thresholdHigh;
-
-      if (profitRate <= thresholdLow) {
-        // Under 3%, no sharing
-        sharingAmount = 0;
-      } else if (profitRate > thresholdLow && profitRate <= thresholdHigh) {
-        // Between 3% and 5%
-        // (Total Profit - Profit@3%) * 20%
-        sharingAmount = (totalProfitLoss - profitAt3Percent) * 0.20;
-      } else {
-        // Greater than 5%
-        // Part 1: (Profit@5% - Profit@3%) * 20%
-        const part1 = (profitAt5Percent - profitAt3Percent) * 0.20;
-        // Part 2: (Total Profit - Profit@5%) * 50%
-        const part2 = (totalProfitLoss - profitAt5Percent) * 0.50;
-        
-        sharingAmount = part1 + part2;
-      }
-    }
-
-    return {
-      sharingAmount,
-      guaranteeAmount
-    };
-  }, [totalCost, totalProfitLoss]);
+const ProfitSharing: React.FC<ProfitSharingProps> = ({ agreements, settlements, holdings, valuations, snapshots, fxRates, baseCurrency, accounts, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [settlingId, setSettlingId] = useState<string | null>(null);
+  const [statement, setStatement] = useState<ProfitSharingSettlement | null>(null);
+
+  const calculations = useMemo(() => {
+    const today = toLocalDateString();
+    return agreements.map(agreement => {
+      const basis = measureAgreement(agreement, holdings, valuations, snapshots, fxRates, baseCurrency, today);
+      return { agreement, basis, result: calculateProfitSharing(agreement, basis) };
+    });
+  }, [agreements, holdings, valuations, snapshots, fxRates, baseCurrency]);
 
   // Format Helper
   const fmtInt = (val: number) => Math.round(val).toLocaleString('zh-CN');
+  const symbol = CURRENCY_SYMBOLS[baseCurrency];
+
+  const settlingAgreement = agreements.find(a => a.id === settlingId);
+
+  const handleSave = (next: ProfitSharingAgreement[]) => {
+    onSave(next, settlements);
+    setIsEditing(false);
+  };
+
+  const handleSettle = (settlement: ProfitSharingSettlement, next: ProfitSharingAgreement) => {
+    onSave(agreements.map(a => (a.id === next.id ? next : a)), [...settlements, settlement]);
+    setSettlingId(null);
+    setStatement(settlement);
+  };
+
+  const handleReopen = (settlement: ProfitSharingSettlement, agreement: ProfitSharingAgreement) => {
+    if (!confirm(`撤销 ${settlement.periodEnd} 的结算并重新打开该期间? (Undo this settlement?)`)) return;
+    const reopened = reopenSettlement(settlement, agreement);
+    onSave(agreements.map(a => (a.id === reopened.id ? reopened : a)), settlements.filter(s => s.id !== settlement.id));
+  };
 
   return (
     <div className="bg-slate-800 rounded-xl shadow-sm border border-slate-700 p-6">
-      <h2 className="text-lg font-semibold text-slate-100 mb-4 flex items-center">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-        理财服务分成模型 (Profit Sharing)
-      </h2>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div className={`p-4 rounded-lg border ${calculation.sharingAmount > 0 ? 'bg-indigo-900/20 border-indigo-700' : 'bg-slate-900/50 border-slate-700'}`}>
-          <div className="text-sm text-slate-400 mb-1">分成金额 (Share Amount)</div>
-          <div className="text-2xl font-bold text-indigo-400">
-            ¥{fmtInt(calculation.sharingAmount)}
-          </div>
-          <div className="text-xs text-slate-500 mt-2">
-            规则: 收益3%-5%部分提成20%, 超过5%部分提成50%
-          </div>
-        </div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-100 flex items-center">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          理财服务分成模型 (Profit Sharing)
+        </h2>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="text-xs px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200"
+        >
+          编辑协议 (Edit)
+        </button>
+      </div>
 
-        <div className={`p-4 rounded-lg border ${calculation.guaranteeAmount > 0 ? 'bg-orange-900/20 border-orange-700' : 'bg-slate-900/50 border-slate-700'}`}>
-          <div className="text-sm text-slate-400 mb-1">兜底金额 (Guarantee Amount)</div>
-          <div className="text-2xl font-bold text-orange-400">
-            ¥{fmtInt(calculation.guaranteeAmount)}
-          </div>
-          <div className="text-xs text-slate-500 mt-2">
-            规则: 总亏损全额兜底
+      {calculations.length === 0 && (
+        <p className="text-sm text-slate-500">暂无分成协议 (No agreements)</p>
+      )}
+
+      <div className="space-y-6">
+        {calculations.map(({ agreement, basis, result }) => (
+          <div key={agreement.id}>
+            {calculations.length > 1 && (
+              <div className="flex justify-between items-baseline mb-2">
+                <span className="text-sm font-medium text-slate-200">{agreement.name}</span>
+                <span className="text-xs text-slate-500">{describeScope(agreement, accounts)}</span>
+              </div>
+            )}
+            <div className="text-[10px] text-slate-500 mb-2">
+              {calculations.length === 1 && `${describeScope(agreement, accounts)} · `}
+              {basis.startDate ? `自 ${basis.startDate}` : '自建仓'} 至 {basis.endDate || '今日'} ·
+              本期收益 {symbol}{fmtInt(basis.profit)} ({(result.returnRate * 100).toFixed(2)}%) · 成本 {symbol}{fmtInt(basis.costBase)}
+              {basis.missingStart && <span className="text-amber-400"> · 期初无快照，按建仓起计算 (No snapshot at period start)</span>}
+              {basis.missingStartRealized && <span className="text-amber-400"> · 期初快照无已实现盈亏，此前卖出计入本期 (Start snapshot lacks realized P/L)</span>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className={`p-4 rounded-lg border ${result.shareAmount > 0 ? 'bg-indigo-900/20 border-indigo-700' : 'bg-slate-900/50 border-slate-700'}`}>
+                <div className="text-sm text-slate-400 mb-1">分成金额 (Share Amount)</div>
+                <div className="text-2xl font-bold text-indigo-400">
+                  {symbol}{fmtInt(result.shareAmount)}
+                </div>
+                <div className="text-xs text-slate-500 mt-2">
+                  规则: {describeTiers(agreement.tiers)}
+                  {agreement.highWaterMark > 0 && `; 高水位 ${symbol}${fmtInt(agreement.highWaterMark)}`}
+                </div>
+              </div>
+
+              <div className={`p-4 rounded-lg border ${result.guaranteeAmount > 0 ? 'bg-orange-900/20 border-orange-700' : 'bg-slate-900/50 border-slate-700'}`}>
+                <div className="text-sm text-slate-400 mb-1">兜底金额 (Guarantee Amount)</div>
+                <div className="text-2xl font-bold text-orange-400">
+                  {symbol}{fmtInt(result.guaranteeAmount)}
+                </div>
+                <div className="text-xs text-slate-500 mt-2">
+                  规则: {describeGuarantee(agreement)}
+                  {result.isGuaranteeCapped && <span className="text-orange-400"> (已达上限)</span>}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-start mt-3">
+              <div className="space-y-1">
+                {settlements.filter(s => s.agreementId === agreement.id).slice(-4).reverse().map(s => (
+                  <div key={s.id} className="text-[10px] text-slate-500">
+                    已结算 {s.periodStart || '建仓起'} – {s.periodEnd} · {s.profit < 0 ? '兜底' : '分成'} {CURRENCY_SYMBOLS[s.baseCurrency]}{fmtInt(s.paidAmount)}
+                    <button onClick={() => setStatement(s)} className="ml-2 text-indigo-400 hover:text-indigo-300">结算单</button>
+                    {canReopen(s, settlements, agreement) && (
+                      <button onClick={() => handleReopen(s, agreement)} className="ml-2 text-slate-400 hover:text-red-400">撤销</button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setSettlingId(agreement.id)}
+                className="text-xs px-3 py-1 rounded-md border border-slate-600 text-slate-300 hover:border-indigo-400 hover:text-indigo-300 shrink-0"
+              >
+                结算本期 (Settle)
+              </button>
+            </div>
           </div>
-        </div>
+        ))}
       </div>
+
+      {isEditing && (
+        <ProfitSharingEditor
+          agreements={agreements}
+          holdings={holdings}
+          accounts={accounts}
+          onSave={handleSave}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
+      {settlingAgreement && (
+        <SettlementDialog
+          agreement={settlingAgreement}
+          holdings={holdings}
+          valuations={valuations}
+          snapshots={snapshots}
+          fxRates={fxRates}
+          baseCurrency={baseCurrency}
+          accounts={accounts}
+          onSettle={handleSettle}
+          onClose={() => setSettlingId(null)}
+        />
+      )}
+
+      {statement && <SettlementStatement settlement={statement} onClose={() => setStatement(null)} />}
     </div>
   );
 };
@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { Account, Holding, ProfitSharingAgreement, ProfitSharingScope, ProfitSharingTier, SettlementFrequency } from '../types';
+import { createAgreement } from '../services/profitSharingService';
+import { FREQUENCY_LABELS } from '../services/settlementService';
+import { getAccountId } from '../services/accountService';
+
+interface ProfitSharingEditorProps {
+  agreements: ProfitSharingAgreement[];
+  holdings: Holding[];
+  accounts: Account[];
+  onSave: (agreements: ProfitSharingAgreement[]) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<ProfitSharingScope, string> = {
+  PORTFOLIO: '全部持仓 (Portfolio)',
+  ACCOUNT: '指定账户 (Account)',
+  HOLDINGS: '指定持仓 (Holdings)'
+};
+
+const RESCOPING_FIELDS: Array<keyof ProfitSharingAgreement> = ['scope', 'accountId', 'holdingIds', 'periodStart'];
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Rates are stored as fractions but edited as percentages
+const toPercent = (rate: number) => parseFloat((rate * 100).toPrecision(10));
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+
+const validate = (agreement: ProfitSharingAgreement): string | null => {
+  if (!agreement.name.trim()) return '请填写名称 (Name is required)';
+  if (agreement.scope === 'ACCOUNT' && !agreement.accountId) return '请选择账户 (Pick an account)';
+  if (agreement.scope === 'HOLDINGS' && !agreement.holdingIds?.length) return '请至少选择一项持仓 (Pick at least one holding)';
+  if (agreement.periodStart && agreement.periodEnd && agreement.periodEnd < agreement.periodStart) {
+    return '结束日期早于开始日期 (Period ends before it starts)';
+  }
+  if (agreement.tiers.some(t => t.rate < 0 || t.rate > 1)) return '提成比例须在 0-100% 之间 (Rates must be 0-100%)';
+  if (new Set(agreement.tiers.map(t => t.threshold)).size !== agreement.tiers.length) return '阶梯起点重复 (Duplicate tier thresholds)';
+  if (agreement.guaranteeRate < 0 || agreement.guaranteeRate > 1) return '兜底比例须在 0-100% 之间 (Guarantee must be 0-100%)';
+  return null;
+};
+
+// Number inputs are uncontrolled (keyed by agreement) so partially typed values such as "0.0" survive
+const ProfitSharingEditor: React.FC<ProfitSharingEditorProps> = ({ agreements, holdings, accounts, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProfitSharingAgreement[]>(agreements);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const update = (id: string, patch: Partial<ProfitSharingAgreement>) => {
+    // The P/L frozen by the last settlement belongs to the old start and scope; measure from the snapshot instead
+    const resetsOpening = RESCOPING_FIELDS.some(field => field in patch);
+    setDraft(draft.map(a => (a.id === id ? { ...a, ...patch, ...(resetsOpening ? { openingProfit: undefined } : {}) } : a)));
+  };
+
+  const updateTier = (agreement: ProfitSharingAgreement, index: number, patch: Partial<ProfitSharingTier>) => {
+    update(agreement.id, { tiers: agreement.tiers.map((t, i) => (i === index ? { ...t, ...patch } : t)) });
+  };
+
+  const toggleHolding = (agreement: ProfitSharingAgreement, holdingId: string) => {
+    const current = agreement.holdingIds || [];
+    update(agreement.id, {
+      holdingIds: current.includes(holdingId) ? current.filter(id => id !== holdingId) : [...current, holdingId]
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found: Record<string, string> = {};
+    draft.forEach(a => {
+      const error = validate(a);
+      if (error) found[a.id] = error;
+    });
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    // Drop the fields the chosen scope does not use
+    onSave(draft.map(a => ({
+      ...a,
+      name: a.name.trim(),
+      accountId: a.scope === 'ACCOUNT' ? a.accountId : undefined,
+      holdingIds: a.scope === 'HOLDINGS' ? a.holdingIds : undefined,
+      periodStart: a.periodStart || undefined,
+      periodEnd: a.periodEnd || undefined
+    })));
+  };
+
+  const accountName = (h: Holding) => accounts.find(a => a.id === getAccountId(h))?.name;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-2xl bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">分成协议 (Profit-sharing Agreements)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {draft.map(agreement => (
+            <div key={agreement.id} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 space-y-3">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={agreement.name}
+                  onChange={e => update(agreement.id, { name: e.target.value })}
+                  placeholder="投资人 / 协议名称 (Investor)"
+                  className={inputClass}
+                />
+                <select
+                  value={agreement.scope}
+                  onChange={e => update(agreement.id, { scope: e.target.value as ProfitSharingScope })}
+                  className={`${inputClass} w-auto`}
+                >
+                  {(Object.keys(SCOPE_LABELS) as ProfitSharingScope[]).map(scope => (
+                    <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setDraft(draft.filter(a => a.id !== agreement.id))}
+                  className="text-slate-500 hover:text-red-400 text-xs shrink-0"
+                >
+                  删除
+                </button>
+              </div>
+
+              {agreement.scope === 'ACCOUNT' && (
+                <select
+                  value={agreement.accountId || ''}
+                  onChange={e => update(agreement.id, { accountId: e.target.value || undefined })}
+                  className={inputClass}
+                >
+                  <option value="">选择账户 (Account)</option>
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              )}
+
+              {agreement.scope === 'HOLDINGS' && (
+                <div className="max-h-32 overflow-y-auto border border-slate-700 rounded-md p-2 grid grid-cols-2 gap-1">
+                  {holdings.map(h => (
+                    <label key={h.id} className="flex items-center space-x-2 text-xs text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={!!agreement.holdingIds?.includes(h.id)}
+                        onChange={() => toggleHolding(agreement, h.id)}
+                        className="rounded border-slate-600 bg-slate-900 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="truncate">{h.name} <span className="text-slate-500">{h.code} · {accountName(h)}</span></span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">期初 (Period Start, blank = 建仓起)</label>
+                  <input
+                    type="date"
+                    value={agreement.periodStart || ''}
+                    onChange={e => update(agreement.id, { periodStart: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">期末 (Period End, blank = 至今)</label>
+                  <input
+                    type="date"
+                    value={agreement.periodEnd || ''}
+                    onChange={e => update(agreement.id, { periodEnd: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">结算周期 (Settlement)</label>
+                  <select
+                    value={agreement.frequency || ''}
+                    onChange={e => update(agreement.id, { frequency: (e.target.value || undefined) as SettlementFrequency | undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">不定期 (Ad hoc)</option>
+                    {(Object.keys(FREQUENCY_LABELS) as SettlementFrequency[]).map(f => (
+                      <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-[10px] text-slate-500">分成阶梯：收益率超过起点的部分按比例提成 (Tiers: share of return above each threshold)</span>
+                  <button
+                    type="button"
+                    onClick={() => update(agreement.id, { tiers: [...agreement.tiers, { threshold: 0, rate: 0 }] })}
+                    className="text-[10px] text-indigo-400 hover:text-indigo-300 shrink-0"
+                  >
+                    + 阶梯 (Tier)
+                  </button>
+                </div>
+                {agreement.tiers.map((tier, index) => (
+                  // Re-mount the row inputs when a tier is removed so their default values line up again
+                  <div key={`${index}-${agreement.tiers.length}`} className="grid grid-cols-[1fr_1fr_auto] gap-2 mb-1 items-center">
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="起点收益率 % (From return %)"
+                      defaultValue={toPercent(tier.threshold)}
+                      onChange={e => updateTier(agreement, index, { threshold: fromPercent(e.target.value) })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      max="100"
+                      placeholder="提成 % (Share %)"
+                      defaultValue={toPercent(tier.rate)}
+                      onChange={e => updateTier(agreement, index, { rate: fromPercent(e.target.value) })}
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => update(agreement.id, { tiers: agreement.tiers.filter((_, i) => i !== index) })}
+                      className="text-slate-500 hover:text-red-400 text-xs"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">高水位 (High-water Mark)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    defaultValue={agreement.highWaterMark}
+                    onChange={e => update(agreement.id, { highWaterMark: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">亏损兜底 % (Guarantee)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    max="100"
+                    defaultValue={toPercent(agreement.guaranteeRate)}
+                    onChange={e => update(agreement.id, { guaranteeRate: fromPercent(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] text-slate-500 mb-0.5">兜底上限 (Cap, blank = ∞)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    defaultValue={agreement.guaranteeCap ?? ''}
+                    onChange={e => update(agreement.id, { guaranteeCap: e.target.value ? parseFloat(e.target.value) : null })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-500">
+                高水位：本期收益低于该金额的部分不提成（已分成或需先弥补的亏损），金额按本位币
+              </p>
+
+              {errors[agreement.id] && <p className="text-xs text-red-400">{errors[agreement.id]}</p>}
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => setDraft([...draft, createAgreement()])}
+            className="w-full py-1.5 rounded-md border border-dashed border-slate-600 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-400"
+          >
+            + 添加协议 (Add Agreement)
+          </button>
+
+          <button
+            type="submit"
+            className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            保存 (Save)
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfitSharingEditor;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { CostMethod, FeeSchedule, Holding, Transaction, TransactionType } from '../types';
+import { createTransaction, derivePosition, findNewOversells } from '../services/ledgerService';
+import { estimateTradeFee } from '../services/feeService';
+import { toLocalDateString } from '../services/snapshotService';
+
+export interface SellOrder {
+  holdingId: string;
+  date: string;
+  price: number;
+  quantity: number;
+  fee: number;
+}
+
+interface SellAssetFormProps {
+  holding: Holding;
+  transactions: Transaction[];
+  costMethod: CostMethod;
+  feeSchedules: FeeSchedule[];
+  onSell: (order: SellOrder) => void;
+  onCancel: () => void;
+}
+
+const SellAssetForm: React.FC<SellAssetFormProps> = ({ holding, transactions, costMethod, feeSchedules, onSell, onCancel }) => {
+  const [form, setForm] = useState({
+    date: toLocalDateString(),
+    price: holding.currentPrice.toString(),
+    quantity: holding.quantity.toString(),
+    fee: null as string | null // null = calculated from the fee schedule
+  });
+
+  const price = parseFloat(form.price);
+  const quantity = parseFloat(form.quantity);
+  const autoFee = estimateTradeFee(feeSchedules, holding, TransactionType.SELL, (price || 0) * (quantity || 0));
+  const feeValue = form.fee ?? autoFee.toString();
+  const fee = parseFloat(feeValue) || 0;
+  const isComplete = !isNaN(price) && price >= 0 && !isNaN(quantity) && quantity > 0 && fee >= 0;
+
+  // Dry run against the ledger: the realized P/L this sale would book under the selected cost method,
+  // and whether it sells more than is held on its date (or leaves a later sale short)
+  const preview = useMemo(() => {
+    if (!isComplete) return { realized: 0, oversell: null };
+    const own = transactions.filter(t => t.holdingId === holding.id);
+    const draft = createTransaction(holding.id, TransactionType.SELL, { date: form.date, price, quantity, fee });
+    const oversell = findNewOversells(own, [draft])[0] || null;
+    const before = derivePosition(own, costMethod).realizedProfitLoss;
+    const after = derivePosition([...own, draft], costMethod).realizedProfitLoss;
+    return { realized: after - before, oversell: oversell && { ...oversell, isDraft: oversell.transactionId === draft.id } };
+  }, [transactions, holding.id, costMethod, form.date, price, quantity, fee, isComplete]);
+  const isValid = isComplete && !preview.oversell;
+  const realizedPreview = isValid ? preview.realized : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSell({ holdingId: holding.id, date: form.date, price, quantity, fee });
+  };
+
+  const getPLColor = (val: number) => val >= 0 ? 'text-red-400' : 'text-green-400';
+  const fmtInt = (val: number) => Math.round(val).toLocaleString('zh-CN');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <div>
+            <h2 className="text-xl font-bold text-slate-100">卖出 (Sell)</h2>
+            <p className="text-xs text-slate-500 font-mono">{holding.name} · {holding.code} · Hold: {holding.quantity}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">卖出日期 (Date)</label>
+            <input
+              type="date"
+              required
+              value={form.date}
+              onChange={e => setForm({ ...form, date: e.target.value })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">卖出单价 (Price)</label>
+            <input
+              type="number"
+              required
+              step="0.0001"
+              min="0"
+              value={form.price}
+              onChange={e => setForm({ ...form, price: e.target.value })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">卖出数量 (Qty)</label>
+            <input
+              type="number"
+              required
+              step="0.01"
+              min="0"
+              max={holding.quantity}
+              value={form.quantity}
+              onChange={e => setForm({ ...form, quantity: e.target.value })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div className="md:col-span-3">
+            <div className="flex justify-between items-center text-xs font-medium text-slate-400 mb-1">
+              <span>交易费用 (Fees)</span>
+              {form.fee !== null && (
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, fee: null })}
+                  className="text-[10px] text-indigo-400 hover:text-indigo-300"
+                >
+                  自动计算 (Auto)
+                </button>
+              )}
+            </div>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={feeValue}
+              onChange={e => setForm({ ...form, fee: e.target.value })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <p className="text-[10px] text-slate-500 mt-1">
+              佣金、印花税、赎回费等，从卖出所得中扣除 (Deducted from proceeds) · 到账 (Net) {isValid ? fmtInt(price * quantity - fee) : '-'}
+            </p>
+          </div>
+
+          {preview.oversell && (
+            <p className="md:col-span-3 text-xs text-red-400">
+              {preview.oversell.isDraft
+                ? `卖出数量超过 ${form.date} 的持仓 ${preview.oversell.available} (More than held on that date)`
+                : '该卖出会使之后的一笔卖出超过当时持仓 (A later sale would exceed the units held)'}
+            </p>
+          )}
+
+          <div className="md:col-span-3 flex justify-between items-center bg-slate-900/50 border border-slate-700 rounded-lg px-4 py-3">
+            <div>
+              <div className="text-xs text-slate-400">预计已实现盈亏 (Realized P/L)</div>
+              <div className="text-[10px] text-slate-500">
+                {costMethod === CostMethod.FIFO ? '先进先出 (FIFO)' : '移动平均 (Average Cost)'}
+              </div>
+            </div>
+            <div className={`text-xl font-bold font-mono ${getPLColor(realizedPreview)}`}>
+              {realizedPreview >= 0 ? '+' : ''}{fmtInt(realizedPreview)}
+            </div>
+          </div>
+
+          <div className="md:col-span-3">
+            <button
+              type="submit"
+              disabled={!isValid}
+              className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-emerald-600 hover:bg-emerald-700 text-white disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+            >
+              {quantity === holding.quantity ? '全部卖出 (Close Position)' : '确认卖出 (Confirm Sell)'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SellAssetForm;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { CostMethod, Currency, PortfolioSettings } from '../types';
+import FeeScheduleEditor from './FeeScheduleEditor';
+
+interface SettingsModalProps {
+  settings: PortfolioSettings;
+  onSave: (settings: PortfolioSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PortfolioSettings>(settings);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">设置 (Settings)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">成本计算方法 (Cost Method)</label>
+            <select
+              value={draft.costMethod}
+              onChange={e => setDraft({ ...draft, costMethod: e.target.value as CostMethod })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value={CostMethod.AVERAGE}>移动平均 (Average Cost)</option>
+              <option value={CostMethod.FIFO}>先进先出 (FIFO)</option>
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">
+              决定卖出时如何匹配买入批次并计算已实现盈亏 (How sold units are matched against purchase lots)
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">本位币 (Base Currency)</label>
+            <select
+              value={draft.baseCurrency}
+              onChange={e => setDraft({ ...draft, baseCurrency: e.target.value as Currency })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value={Currency.CNY}>人民币 (CNY)</option>
+              <option value={Currency.HKD}>港币 (HKD)</option>
+              <option value={Currency.USD}>美元 (USD)</option>
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">
+              汇总、图表按最新汇率折算为本位币 (Totals and charts are converted at the latest FX rates)
+            </p>
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={draft.autoRefresh}
+                onChange={e => setDraft({ ...draft, autoRefresh: e.target.checked })}
+                className="rounded border-slate-600 bg-slate-900 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>交易时段自动刷新 (Auto refresh during trading hours)</span>
+            </label>
+            <p className="text-[10px] text-slate-500 mt-1">
+              A股交易时段 09:30–11:30, 13:00–15:00 (CST) 轮询；页面隐藏时暂停；收盘后补刷一次净值
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">刷新间隔 (Interval)</label>
+            <select
+              value={draft.refreshIntervalSec}
+              disabled={!draft.autoRefresh}
+              onChange={e => setDraft({ ...draft, refreshIntervalSec: parseInt(e.target.value, 10) })}
+              className="w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <option value={30}>30 秒 (30s)</option>
+              <option value={60}>1 分钟 (1 min)</option>
+              <option value={300}>5 分钟 (5 min)</option>
+              <option value={900}>15 分钟 (15 min)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">交易费率 (Fee Schedules)</label>
+            <FeeScheduleEditor
+              schedules={draft.feeSchedules}
+              onChange={feeSchedules => setDraft({ ...draft, feeSchedules })}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">
+              录入买卖时按持仓类型自动估算佣金、印花税与申赎费，可手动修改 (Pre-fills trade fees; editable per trade)
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            保存 (Save)
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Account, Currency, FxRates, Holding, PortfolioSnapshot, ProfitSharingAgreement, ProfitSharingSettlement } from '../types';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+import { HoldingValuation } from '../services/valuationService';
+import { calculateProfitSharing, describeScope, measureAgreement } from '../services/profitSharingService';
+import { settlePeriod, suggestPeriodEnd } from '../services/settlementService';
+import { toLocalDateString } from '../services/snapshotService';
+
+interface SettlementDialogProps {
+  agreement: ProfitSharingAgreement;
+  holdings: Holding[];
+  valuations: Record<string, HoldingValuation>;
+  snapshots: PortfolioSnapshot[];
+  fxRates: FxRates;
+  baseCurrency: Currency;
+  accounts: Account[];
+  onSettle: (settlement: ProfitSharingSettlement, next: ProfitSharingAgreement) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 text-slate-200 rounded-md border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const SettlementDialog: React.FC<SettlementDialogProps> = ({ agreement, holdings, valuations, snapshots, fxRates, baseCurrency, accounts, onSettle, onClose }) => {
+  const today = toLocalDateString();
+  const [periodEnd, setPeriodEnd] = useState(() => suggestPeriodEnd(agreement, today));
+  const [paidInput, setPaidInput] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  // Figures frozen at the chosen day: its snapshot for a past day, live prices for today
+  const { basis, result } = useMemo(() => {
+    const basis = measureAgreement({ ...agreement, periodEnd }, holdings, valuations, snapshots, fxRates, baseCurrency, today);
+    return { basis, result: calculateProfitSharing(agreement, basis) };
+  }, [agreement, periodEnd, holdings, valuations, snapshots, fxRates, baseCurrency, today]);
+
+  const isLoss = basis.profit < 0;
+  const due = isLoss ? result.guaranteeAmount : result.shareAmount;
+  const paidAmount = paidInput === null ? due : parseFloat(paidInput) || 0;
+  const isValidEnd = !!periodEnd && periodEnd <= today && (!agreement.periodStart || periodEnd > agreement.periodStart);
+
+  const symbol = CURRENCY_SYMBOLS[baseCurrency];
+  const fmt = (val: number) => `${symbol}${Math.round(val).toLocaleString('zh-CN')}`;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEnd) return;
+    const { settlement, next } = settlePeriod({
+      agreement,
+      basis,
+      result,
+      periodEnd,
+      paidAmount,
+      scopeLabel: describeScope(agreement, accounts),
+      baseCurrency,
+      note: note.trim()
+    });
+    onSettle(settlement, next);
+  };
+
+  const rows: Array<[string, string]> = [
+    ['期间 (Period)', `${agreement.periodStart || '建仓起'} – ${periodEnd || '--'}`],
+    ['成本 (Cost Base)', fmt(basis.costBase)],
+    ['期末浮动盈亏 (Unrealized P/L)', fmt(basis.endBreakdown.unrealized)],
+    ['期末已实现盈亏 (Realized P/L)', `${fmt(basis.endBreakdown.realized)} · 含分红 ${fmt(basis.endBreakdown.dividends)}`],
+    ['本期收益 (Period Profit)', `${fmt(basis.profit)} (${(result.returnRate * 100).toFixed(2)}%)`],
+    ['高水位 (High-water Mark)', fmt(agreement.highWaterMark)],
+    ['分成金额 (Share)', fmt(result.shareAmount)],
+    ['兜底金额 (Guarantee)', fmt(result.guaranteeAmount)]
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-md bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-6 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">结算本期 (Close Period)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="text-sm text-slate-200">
+            {agreement.name} <span className="text-slate-500">· {describeScope(agreement, accounts)}</span>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">结算日 (Period End)</label>
+            <input
+              type="date"
+              required
+              value={periodEnd}
+              max={today}
+              min={agreement.periodStart}
+              onChange={e => setPeriodEnd(e.target.value)}
+              className={inputClass}
+            />
+            {!isValidEnd && periodEnd && (
+              <p className="text-[10px] text-red-400 mt-1">结算日须在期初之后且不晚于今天 (Must be after the period start and not in the future)</p>
+            )}
+            {basis.missingEnd && (
+              <p className="text-[10px] text-amber-400 mt-1">该日无快照，按当前价格计算 (No snapshot on or before this day; using live prices)</p>
+            )}
+            {periodEnd === today && (
+              <p className="text-[10px] text-slate-500 mt-1">按当前价格冻结 (Frozen at the latest prices)</p>
+            )}
+          </div>
+
+          <table className="w-full text-xs">
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label} className="border-t border-slate-700/50">
+                  <td className="py-1.5 text-slate-400">{label}</td>
+                  <td className="py-1.5 text-right font-mono text-slate-200">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">
+              {isLoss ? '实付兜底 (Guarantee Paid to Investor)' : '实付分成 (Share Paid to Manager)'}
+            </label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={paidInput ?? String(Math.round(due * 100) / 100)}
+              onChange={e => setPaidInput(e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">
+              未弥补的亏损将作为高水位结转到下一期 (Any loss not made good is carried as the next high-water mark)
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">备注 (Note)</label>
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} className={inputClass} />
+          </div>
+
+          <button
+            type="submit"
+            disabled={!isValidEnd}
+            className="w-full py-2 px-4 rounded-md transition-colors text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            确认结算 (Settle)
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SettlementDialog;
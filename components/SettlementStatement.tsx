@@ -0,0 +1,49 @@
+import React, { useMemo, useRef } from 'react';
+import { ProfitSharingSettlement } from '../types';
+import { buildSettlementStatement } from '../services/settlementService';
+
+interface SettlementStatementProps {
+  settlement: ProfitSharingSettlement;
+  onClose: () => void;
+}
+
+// Previews the statement document in a frame and prints only that frame
+const SettlementStatement: React.FC<SettlementStatementProps> = ({ settlement, onClose }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const html = useMemo(() => buildSettlementStatement(settlement), [settlement]);
+
+  const handlePrint = () => {
+    frameRef.current?.contentWindow?.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-3xl bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] flex flex-col p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-4 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">结算单 (Settlement Statement)</h2>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handlePrint}
+              className="text-xs px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              打印 (Print)
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        <iframe
+          ref={frameRef}
+          srcDoc={html}
+          title="settlement-statement"
+          className="w-full flex-1 min-h-[60vh] bg-white rounded-md"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SettlementStatement;
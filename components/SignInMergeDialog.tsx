@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Account, Holding } from '../types';
+import { HoldingComparison, MergeChoice, defaultChoice } from '../services/mergeService';
+import { getAccountId } from '../services/accountService';
+
+interface SignInMergeDialogProps {
+  comparisons: HoldingComparison[];
+  accounts: Account[];
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+}
+
+const STATUS_LABELS: Record<Exclude<HoldingComparison['status'], 'same'>, string> = {
+  changed: '两边不同',
+  localOnly: '仅本机',
+  cloudOnly: '仅云端'
+};
+
+// What each choice means for a row, by status
+const CHOICE_LABELS: Record<Exclude<HoldingComparison['status'], 'same'>, Array<[MergeChoice, string]>> = {
+  changed: [['cloud', '云端'], ['local', '本机'], ['merge', '合并']],
+  localOnly: [['local', '保留'], ['cloud', '丢弃']],
+  cloudOnly: [['cloud', '保留'], ['local', '删除']]
+};
+
+const SignInMergeDialog: React.FC<SignInMergeDialogProps> = ({ comparisons, accounts, onResolve }) => {
+  const differing = comparisons.filter(c => c.status !== 'same');
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(
+    () => Object.fromEntries(differing.map(c => [c.key, defaultChoice(c)]))
+  );
+
+  const accountName = (h: Holding) => accounts.find(a => a.id === getAccountId(h))?.name;
+
+  const renderSide = (holding: Holding | undefined, entries: number) => {
+    if (!holding) return <span className="text-slate-600">—</span>;
+    return (
+      <div>
+        <div className="text-slate-200 font-mono">{holding.quantity.toLocaleString('zh-CN', { maximumFractionDigits: 4 })}</div>
+        <div className="text-[10px] text-slate-500">成本 {holding.buyPrice.toFixed(3)} · {entries} 笔</div>
+      </div>
+    );
+  };
+
+  const setAll = (choice: MergeChoice) => {
+    if (choice === 'local' && differing.some(c => c.status === 'cloudOnly')
+      && !confirm('全部使用本机数据将删除仅存在于云端的持仓，确认? (Holdings only in the cloud will be deleted)')) {
+      return;
+    }
+    onResolve(Object.fromEntries(differing.map(c => [c.key, choice])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-2xl bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="border-b border-slate-700 mb-4 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">合并本机与云端数据 (Merge Local &amp; Cloud)</h2>
+          <p className="text-xs text-slate-400 mt-1">
+            本机有登录前记录的数据与云端不同，请选择每项的保留方式。
+            (This device has data recorded before signing in that differs from your cloud portfolio.)
+          </p>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left font-normal pb-2">持仓 (Holding)</th>
+              <th className="text-right font-normal pb-2">云端 (Cloud)</th>
+              <th className="text-right font-normal pb-2">本机 (Local)</th>
+              <th className="text-right font-normal pb-2">保留 (Keep)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {differing.map(c => {
+              const holding = (c.cloud || c.local)!;
+              const status = c.status as Exclude<HoldingComparison['status'], 'same'>;
+              return (
+                <tr key={c.key} className="border-t border-slate-700/50 align-top">
+                  <td className="py-2 pr-2">
+                    <div className="text-slate-200">{holding.name}</div>
+                    <div className="text-[10px] text-slate-500">
+                      {holding.code} · {accountName(holding)} · <span className="text-amber-400/80">{STATUS_LABELS[status]}</span>
+                      {c.newLocalTransactions > 0 && c.status === 'changed' && <> · 本机新增 {c.newLocalTransactions} 笔</>}
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">{renderSide(c.cloud, c.cloudTransactions.length)}</td>
+                  <td className="py-2 text-right">{renderSide(c.local, c.localTransactions.length)}</td>
+                  <td className="py-2 text-right">
+                    <div className="inline-flex rounded-md border border-slate-600 overflow-hidden">
+                      {CHOICE_LABELS[status].map(([choice, label]) => (
+                        <button
+                          key={choice}
+                          onClick={() => setChoices({ ...choices, [c.key]: choice })}
+                          className={`px-2 py-1 ${choices[c.key] === choice ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <p className="text-[10px] text-slate-500 mt-3">
+          合并：保留云端信息，并加入本机独有的交易记录 (Merge keeps the cloud details and adds local-only transactions)
+          {comparisons.length > differing.length && ` · 另有 ${comparisons.length - differing.length} 项两边一致`}
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          <button
+            onClick={() => setAll('cloud')}
+            className="py-2 px-3 rounded-md text-sm bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            全部用云端 (Cloud)
+          </button>
+          <button
+            onClick={() => setAll('local')}
+            className="py-2 px-3 rounded-md text-sm bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            全部用本机 (Local)
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            className="py-2 px-3 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            按所选合并 (Apply)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignInMergeDialog;
@@ -1,13 +1,17 @@
 
 import React, { useState } from 'react';
-import { Holding, AIAdvice } from '../types';
+import { Holding, AIAdvice, AssetSearchResult, WatchlistItem } from '../types';
 import { getSmartAdvice } from '../services/geminiService';
+import { isWatched, resolveWatchAsset } from '../services/watchlistService';
+import { isQuotable } from '../services/assetTypes';
 
 interface SmartAdvisorProps {
   holdings: Holding[];
+  watchlist: WatchlistItem[];
+  onWatch: (asset: AssetSearchResult) => void;
 }
 
-const SmartAdvisor: React.FC<SmartAdvisorProps> = ({ holdings }) => {
+const SmartAdvisor: React.FC<SmartAdvisorProps> = ({ holdings, watchlist, onWatch }) => {
   const [advice, setAdvice] = useState<AIAdvice[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -30,6 +34,12 @@ const SmartAdvisor: React.FC<SmartAdvisorProps> = ({ holdings }) => {
     }
   };
 
+  // Alternatives are assumed to be the same kind of asset as the holding they replace
+  const resolveAlternative = (item: AIAdvice, alt: AIAdvice['alternatives'][number]): AssetSearchResult | null => {
+    const source = holdings.find(h => h.code === item.assetCode);
+    return source && isQuotable(source.type) ? resolveWatchAsset(alt.code, source.type, alt.name) : null;
+  };
+
   return (
     <div className="bg-gradient-to-r from-slate-800 to-indigo-900/40 rounded-xl shadow-sm border border-indigo-500/30 p-6">
       <div className="flex justify-between items-center mb-6">
@@ -71,17 +81,29 @@ const SmartAdvisor: React.FC<SmartAdvisorProps> = ({ holdings }) => {
                 针对: {item.assetName} <span className="text-slate-500 text-sm">({item.assetCode})</span>
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                {item.alternatives.map((alt, altIdx) => (
-                  <div key={altIdx} className="bg-slate-800 p-3 rounded-md text-sm border border-slate-700">
-                    <div className="flex justify-between items-center mb-2">
-                      <span className="font-bold text-indigo-300">{alt.name}</span>
-                      <span className="text-xs font-mono bg-slate-700 text-slate-300 px-1 rounded">{alt.code}</span>
+                {item.alternatives.map((alt, altIdx) => {
+                  const asset = resolveAlternative(item, alt);
+                  return (
+                    <div key={altIdx} className="bg-slate-800 p-3 rounded-md text-sm border border-slate-700">
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="font-bold text-indigo-300">{alt.name}</span>
+                        <span className="text-xs font-mono bg-slate-700 text-slate-300 px-1 rounded">{alt.code}</span>
+                      </div>
+                      <p className="text-slate-400 text-xs leading-relaxed">
+                        {alt.reason}
+                      </p>
+                      {asset && (
+                        isWatched(watchlist, asset) ? (
+                          <span className="inline-block mt-2 text-xs text-slate-500">已在自选 (Watched)</span>
+                        ) : (
+                          <button onClick={() => onWatch(asset)} className="mt-2 text-xs text-indigo-400 hover:text-indigo-300">
+                            + 加入自选 (Watch)
+                          </button>
+                        )
+                      )}
                     </div>
-                    <p className="text-slate-400 text-xs leading-relaxed">
-                      {alt.reason}
-                    </p>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           ))}
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Account, AssetType, FeeSchedule } from '../types';
+import { SyncConflict } from '../services/syncService';
+import { ASSET_TYPE_SHORT_LABELS } from '../services/assetTypes';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  accounts: Account[];
+  feeSchedules: FeeSchedule[];
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => void;
+  onDismiss: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '名称 (Name)',
+  code: '代码 (Code)',
+  type: '类型 (Type)',
+  accountId: '账户 (Account)',
+  market: '市场 (Market)',
+  currency: '币种 (Currency)',
+  interestRate: '年利率 (Rate %)',
+  maturityDate: '到期日 (Maturity)',
+  feeScheduleId: '费率方案 (Fee schedule)'
+};
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, accounts, feeSchedules, onResolve, onDismiss }) => {
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'type') return ASSET_TYPE_SHORT_LABELS[value as AssetType] || String(value);
+    if (field === 'accountId') return accounts.find(a => a.id === value)?.name || String(value);
+    if (field === 'feeScheduleId') return feeSchedules.find(f => f.id === value)?.name || String(value);
+    return String(value);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-lg bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-4 pb-2">
+          <h2 className="text-xl font-bold text-slate-100">同步冲突 (Sync Conflicts)</h2>
+          <button onClick={onDismiss} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">
+          另一台设备同时修改了以下内容，已按最后修改时间保留一方。可在此改选。
+          (Another device edited the same fields; the latest edit was kept. You can pick the other value.)
+        </p>
+
+        <div className="space-y-3">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+              <div className="text-sm text-slate-200 mb-2">
+                {conflict.holdingName}
+                <span className="text-slate-500"> · {conflict.field === 'deleted' ? '持仓 (Holding)' : FIELD_LABELS[conflict.field] || conflict.field}</span>
+              </div>
+
+              {conflict.field === 'deleted' ? (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-amber-400">已在另一台设备删除，连同交易记录 (Deleted on another device, with its transactions)</span>
+                  <div className="flex gap-2 shrink-0">
+                    {conflict.restore && (
+                      <button
+                        onClick={() => onResolve(conflict, 'local')}
+                        className="text-xs px-3 py-1 rounded-md border border-slate-600 hover:border-indigo-400 text-slate-200"
+                      >
+                        保留本机 (Keep)
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onResolve(conflict, 'remote')}
+                      className="text-xs px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200"
+                    >
+                      知道了 (OK)
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {(['local', 'remote'] as const).map(side => {
+                    const isKept = conflict.winner === side;
+                    return (
+                      <button
+                        key={side}
+                        onClick={() => onResolve(conflict, side)}
+                        className={`text-left rounded-md border px-3 py-2 transition-colors ${
+                          isKept ? 'border-indigo-500 bg-indigo-900/30' : 'border-slate-600 hover:border-indigo-400'
+                        }`}
+                      >
+                        <div className="text-[10px] text-slate-500">
+                          {side === 'local' ? '本机 (This device)' : '另一设备 (Other device)'}
+                          {isKept && <span className="text-indigo-300"> · 当前 (Kept)</span>}
+                        </div>
+                        <div className="text-sm text-slate-200 truncate">
+                          {formatValue(conflict.field, side === 'local' ? conflict.localValue : conflict.remoteValue)}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onDismiss}
+          className="w-full mt-4 py-2 px-4 rounded-md transition-colors text-sm font-medium bg-slate-700 hover:bg-slate-600 text-slate-200"
+        >
+          全部保持现状 (Keep all as is)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
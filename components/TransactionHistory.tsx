@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { Holding, Transaction, TransactionType } from '../types';
+import { derivePosition, getHoldingTransactions } from '../services/ledgerService';
+import { getHoldingCurrency } from '../services/valuationService';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+
+interface TransactionHistoryProps {
+  holding: Holding;
+  transactions: Transaction[];
+  onDeleteTransaction: (id: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  [TransactionType.BUY]: '买入 (Buy)',
+  [TransactionType.SELL]: '卖出 (Sell)',
+  [TransactionType.DIVIDEND]: '分红 (Dividend)',
+  [TransactionType.SPLIT]: '拆分送转 (Split)',
+  [TransactionType.FEE]: '费用 (Fee)'
+};
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ holding, transactions, onDeleteTransaction, onClose }) => {
+  // Each row shows the position as it stood right after that entry, so the cost basis can be audited
+  const rows = useMemo(() => {
+    const own = getHoldingTransactions(transactions, holding.id);
+    const oversells = derivePosition(own).oversells;
+    return own.map((t, index) => ({
+      transaction: t,
+      position: derivePosition(own.slice(0, index + 1)),
+      oversell: oversells.find(o => o.transactionId === t.id)
+    }));
+  }, [transactions, holding.id]);
+
+  const fmtPrice = (val: number) => val.toFixed(4);
+  const fmtInt = (val: number) => Math.round(val).toLocaleString('zh-CN');
+
+  const symbol = CURRENCY_SYMBOLS[getHoldingCurrency(holding)];
+  const describe = (t: Transaction) => {
+    switch (t.type) {
+      case TransactionType.BUY:
+      case TransactionType.SELL:
+        return t.fee
+          ? `${t.quantity} × ${fmtPrice(t.price)} · 费用 ${symbol}${t.fee.toFixed(2)}`
+          : `${t.quantity} × ${fmtPrice(t.price)}`;
+      case TransactionType.SPLIT:
+        return `× ${t.ratio}`;
+      case TransactionType.DIVIDEND:
+        return t.reinvested
+          ? `${symbol}${fmtInt(t.amount || 0)} → ${t.quantity.toFixed(2)} × ${fmtPrice(t.price)}`
+          : `${symbol}${fmtInt(t.amount || 0)}`;
+      default:
+        return `${symbol}${fmtInt(t.amount || 0)}`;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+      <div className="relative w-full max-w-3xl bg-slate-800 rounded-xl shadow-2xl border border-slate-700 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center border-b border-slate-700 mb-4 pb-2">
+          <div>
+            <h2 className="text-xl font-bold text-slate-100">交易记录 (Transactions)</h2>
+            <p className="text-xs text-slate-500 font-mono">{holding.name} · {holding.code}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-900/50 text-slate-400 font-medium">
+              <tr>
+                <th className="px-3 py-2 whitespace-nowrap">日期 (Date)</th>
+                <th className="px-3 py-2 whitespace-nowrap">类型 (Type)</th>
+                <th className="px-3 py-2 whitespace-nowrap">明细 (Detail)</th>
+                <th className="px-3 py-2 whitespace-nowrap">持仓 (Qty)</th>
+                <th className="px-3 py-2 whitespace-nowrap">成本价 (Avg Cost)</th>
+                <th className="px-3 py-2 text-right whitespace-nowrap">操作 (Action)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {rows.map(({ transaction: t, position, oversell }) => (
+                <tr key={t.id} className="hover:bg-slate-700/30 transition-colors">
+                  <td className="px-3 py-2 font-mono text-slate-300">{t.date}</td>
+                  <td className="px-3 py-2 text-slate-200">
+                    <div>{TYPE_LABELS[t.type]}{t.reinvested && <span className="text-[10px] text-slate-400"> · 再投资</span>}</div>
+                    {t.note && <div className="text-[10px] text-slate-500">{t.note}</div>}
+                    {oversell && (
+                      <div className="text-[10px] text-red-400">超过当时持仓 {oversell.available}，仅计入持有部分 (Exceeds units held)</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-slate-300">{describe(t)}</td>
+                  <td className="px-3 py-2 font-mono text-slate-300">{position.quantity}</td>
+                  <td className="px-3 py-2 font-mono text-slate-300">{fmtPrice(position.buyPrice)}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => onDeleteTransaction(t.id)}
+                      className="text-slate-400 hover:text-red-400 transition-colors"
+                      title="Delete"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-slate-500">
+                    暂无交易记录 (No transactions)
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionHistory;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { AssetSearchResult, AssetType, Currency, Holding, PriceStatus, Quote, WatchlistItem } from '../types';
+import { searchAssets } from '../services/marketDataService';
+import { formatStockCode } from '../services/stockCodes';
+import { ASSET_TYPE_LABELS, ASSET_TYPE_SHORT_LABELS, QUOTABLE_TYPES } from '../services/assetTypes';
+import { CURRENCY_SYMBOLS } from '../services/fxService';
+import { createWatchlistItem, getDayChange, isHeld, isWatched, resolveWatchAsset } from '../services/watchlistService';
+
+interface WatchlistTableProps {
+  items: WatchlistItem[];
+  quotes: Record<string, Quote>; // Keyed by item id
+  holdings: Holding[];
+  onSave: (items: WatchlistItem[]) => void;
+  onConvert: (item: WatchlistItem) => void;
+}
+
+const WatchlistTable: React.FC<WatchlistTableProps> = ({ items, quotes, holdings, onSave, onConvert }) => {
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState<AssetType>(AssetType.FUND);
+  const [suggestions, setSuggestions] = useState<AssetSearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Same debounced search as the add form
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchAssets(query.trim()).then(results => {
+        if (!cancelled) setSuggestions(results.filter(r => QUOTABLE_TYPES.includes(r.type)).slice(0, 8));
+      });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const addAsset = (asset: AssetSearchResult) => {
+    if (isWatched(items, asset)) {
+      setError(`${asset.name} 已在自选中 (Already watched)`);
+      return;
+    }
+    onSave([...items, createWatchlistItem(asset)]);
+    setQuery('');
+    setSuggestions([]);
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const asset = resolveWatchAsset(query, type);
+    if (!asset) {
+      setError('无法识别的股票代码 (Unrecognized stock code)');
+      return;
+    }
+    addAsset(asset);
+  };
+
+  const getPLColor = (val: number) => val >= 0 ? 'text-red-400' : 'text-green-400';
+  const fmtPrice = (val: number) => val.toFixed(4);
+
+  return (
+    <div className="bg-slate-800 rounded-xl shadow-sm border border-slate-700">
+      <div className="p-4 border-b border-slate-700 flex flex-wrap gap-2 justify-between items-center">
+        <h3 className="font-semibold text-slate-200">自选 (Watchlist)</h3>
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+          <select
+            value={type}
+            onChange={e => setType(e.target.value as AssetType)}
+            className="text-sm bg-slate-900 text-slate-300 border-slate-600 rounded-md border px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {QUOTABLE_TYPES.map(t => (
+              <option key={t} value={t}>{ASSET_TYPE_LABELS[t]}</option>
+            ))}
+          </select>
+          <div className="relative">
+            <input
+              type="text"
+              value={query}
+              onChange={e => {
+                setQuery(e.target.value);
+                setError(null);
+              }}
+              placeholder="代码或名称 (Code or name)"
+              className="w-48 text-sm bg-slate-900 text-slate-200 border-slate-600 rounded-md border px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {suggestions.length > 0 && (
+              <ul className="absolute right-0 z-10 mt-1 w-72 bg-slate-900 border border-slate-600 rounded-md shadow-lg max-h-56 overflow-y-auto">
+                {suggestions.map(s => (
+                  <li key={`${s.type}:${s.code}`}>
+                    <button
+                      type="button"
+                      onClick={() => addAsset(s)}
+                      className="w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 flex justify-between"
+                    >
+                      <span className="truncate">{s.name}</span>
+                      <span className="text-xs text-slate-500 font-mono ml-2">{s.market ? formatStockCode(s.code, s.market) : s.code} · {ASSET_TYPE_SHORT_LABELS[s.type]}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={!query.trim()}
+            className="text-sm px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            + 自选
+          </button>
+        </form>
+      </div>
+      {error && <div className="px-4 pt-2 text-xs text-amber-400">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-900/50 text-slate-400 font-medium">
+            <tr>
+              <th className="px-4 py-3 whitespace-nowrap">标的 (Asset)</th>
+              <th className="px-4 py-3 whitespace-nowrap">最新价 (Price)</th>
+              <th className="px-4 py-3 whitespace-nowrap">当日涨跌 (Day Change)</th>
+              <th className="px-4 py-3 text-right whitespace-nowrap">操作 (Action)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {items.map(item => {
+              const quote = quotes[item.id];
+              const change = getDayChange(quote);
+              const currency = item.currency || Currency.CNY;
+              const priceSymbol = currency === Currency.CNY ? '' : CURRENCY_SYMBOLS[currency];
+
+              return (
+                <tr key={item.id} className="hover:bg-slate-700/30 transition-colors">
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-slate-200">
+                      {quote?.name || item.name}
+                      {isHeld(item, holdings) && <span className="ml-2 text-[10px] bg-indigo-900/50 text-indigo-300 px-1.5 py-0.5 rounded">已持有 (Held)</span>}
+                    </div>
+                    <div className="text-xs text-slate-500 font-mono">
+                      {item.market ? formatStockCode(item.code, item.market) : item.code} · {ASSET_TYPE_SHORT_LABELS[item.type]}{currency !== Currency.CNY && ` · ${currency}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-slate-200">
+                    {quote ? (
+                      <>
+                        <div className="flex items-center space-x-1">
+                          <span>{priceSymbol}{fmtPrice(quote.currentPrice)}</span>
+                          {quote.priceStatus === PriceStatus.ESTIMATE && (
+                            <span className="text-[10px] font-sans bg-amber-900/40 text-amber-300 px-1 rounded" title="盘中估值，收盘后以公布净值为准 (Intraday estimate)">估 (Est.)</span>
+                          )}
+                        </div>
+                        {quote.priceDate && (
+                          <div className="text-[10px] text-slate-500 mt-0.5">{quote.priceDate.replace(/^\d{4}-/, '')}</div>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-slate-500">--</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-3 font-medium font-mono ${change ? getPLColor(change.amount) : 'text-slate-500'}`}>
+                    {change ? (
+                      <>
+                        <div>{change.amount > 0 ? '+' : ''}{fmtPrice(change.amount)}</div>
+                        <div className="text-xs opacity-70">({change.rate > 0 ? '+' : ''}{change.rate.toFixed(2)}%)</div>
+                      </>
+                    ) : '--'}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => onConvert(item)}
+                      className="text-indigo-400 hover:text-indigo-300 mr-3"
+                      title="Open the add form prefilled with this asset"
+                    >
+                      买入 (Buy)
+                    </button>
+                    <button
+                      onClick={() => onSave(items.filter(i => i.id !== item.id))}
+                      className="text-slate-500 hover:text-red-400"
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {items.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-slate-500">
+                  暂无自选标的，可搜索添加或从智能顾问的推荐中加入 (Nothing watched yet)
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistTable;
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleMarketProxy } from './marketProxy';
+
+const request = async (target: string) => {
+  const req = { method: 'GET', url: `/api/market?url=${encodeURIComponent(target)}` } as IncomingMessage;
+  const res = { statusCode: 0, body: '', setHeader: () => {}, end(body: string) { this.body = body; } };
+  await handleMarketProxy(req, res as unknown as ServerResponse);
+  return res;
+};
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { Location: location } });
+
+describe('handleMarketProxy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects hosts outside the allowlist', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const res = await request('https://example.com/');
+    expect(res.statusCode).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('follows redirects between allowed hosts', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(redirect('https://quotes.sina.cn/list=sh600000'))
+      .mockResolvedValueOnce(new Response('var hq_str_sh600000="";', { headers: { 'Content-Type': 'text/plain; charset=utf-8' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const res = await request('https://hq.sinajs.cn/list=sh600000');
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe('var hq_str_sh600000="";');
+    expect(fetchMock.mock.calls[1][1].redirect).toBe('manual');
+  });
+
+  it('refuses to follow a redirect off the allowlist', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValueOnce(redirect('http://169.254.169.254/latest/meta-data'));
+    vi.stubGlobal('fetch', fetchMock);
+    const res = await request('https://hq.sinajs.cn/list=sh600000');
+    expect(res.statusCode).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
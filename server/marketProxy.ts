@@ -0,0 +1,90 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Same-origin relay for the market data hosts. The browser fetches `${MARKET_PROXY_PATH}?url=<upstream>`
+// and parses the returned text itself, so no third-party script is ever executed in the page.
+// Mounted into the Vite dev / preview servers (see vite.config.ts) and into the standalone relay
+// (server/standalone.ts) for static deployments; the handler has the plain Node (req, res)
+// signature so it can also be deployed as a serverless function.
+
+export const MARKET_PROXY_PATH = '/api/market';
+
+interface Upstream {
+  referer: string;
+  charset: string; // Used when the upstream response does not declare one
+}
+
+const UPSTREAMS: Record<string, Upstream> = {
+  'fundgz.1234567.com.cn': { referer: 'https://fund.eastmoney.com/', charset: 'utf-8' },
+  'fund.eastmoney.com': { referer: 'https://fund.eastmoney.com/', charset: 'utf-8' },
+  'fundsuggest.eastmoney.com': { referer: 'https://fund.eastmoney.com/', charset: 'utf-8' },
+  'hq.sinajs.cn': { referer: 'https://finance.sina.com.cn/', charset: 'gbk' },
+  'quotes.sina.cn': { referer: 'https://finance.sina.com.cn/', charset: 'utf-8' },
+  'suggest3.sinajs.cn': { referer: 'https://finance.sina.com.cn/', charset: 'gbk' }
+};
+
+const UPSTREAM_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+// A relay on another origin (VITE_MARKET_PROXY_URL) is read cross-origin by the app
+const ALLOWED_ORIGIN = process.env.MARKET_PROXY_ALLOWED_ORIGIN || '*';
+
+const send = (res: ServerResponse, status: number, body: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.end(body);
+};
+
+const findUpstream = (url: URL): Upstream | undefined =>
+  url.protocol === 'https:' || url.protocol === 'http:' ? UPSTREAMS[url.hostname] : undefined;
+
+// Redirects are followed by hand so every hop is checked against the allowlist
+const fetchUpstream = async (url: URL, upstream: Upstream, signal: AbortSignal): Promise<Response> => {
+  for (let hop = 0; ; hop++) {
+    const response = await fetch(url, { headers: { Referer: upstream.referer }, redirect: 'manual', signal });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects from ${url.href}`);
+
+    const next = new URL(location, url);
+    const nextUpstream = findUpstream(next);
+    if (!nextUpstream) throw new Error(`Redirect to a host that is not allowed: ${next.hostname}`);
+    url = next;
+    upstream = nextUpstream;
+  }
+};
+
+export const handleMarketProxy = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (req.method !== 'GET') {
+    send(res, 405, 'Method not allowed');
+    return;
+  }
+
+  const target = new URL(req.url || '/', 'http://localhost').searchParams.get('url');
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(target || '');
+  } catch {
+    send(res, 400, 'Missing or invalid url parameter');
+    return;
+  }
+
+  const upstream = findUpstream(targetUrl);
+  if (!upstream) {
+    send(res, 403, `Host not allowed: ${targetUrl.hostname}`);
+    return;
+  }
+
+  try {
+    const response = await fetchUpstream(targetUrl, upstream, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS));
+
+    // Sina still serves GBK; re-encode everything as UTF-8 for the browser
+    const declared = /charset=([\w-]+)/i.exec(response.headers.get('content-type') || '');
+    const body = new TextDecoder(declared ? declared[1] : upstream.charset).decode(await response.arrayBuffer());
+    send(res, response.status, body);
+  } catch (e) {
+    console.error(`Market proxy failed for ${targetUrl.href}`, e);
+    send(res, 502, 'Upstream request failed');
+  }
+};
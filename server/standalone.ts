@@ -0,0 +1,20 @@
+import { createServer } from 'http';
+import { MARKET_PROXY_PATH, handleMarketProxy } from './marketProxy';
+
+// Standalone market data relay for deployments where the app is served as static files.
+// Build with `npm run build:relay`, run `node dist-relay/standalone.js` and point the app's
+// VITE_MARKET_PROXY_URL at `<relay origin>/api/market`.
+
+const port = Number(process.env.PORT) || 8787;
+
+createServer((req, res) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  if (path !== MARKET_PROXY_PATH) {
+    res.statusCode = 404;
+    res.end('Not found');
+    return;
+  }
+  handleMarketProxy(req, res);
+}).listen(port, () => {
+  console.log(`Market data relay listening on http://localhost:${port}${MARKET_PROXY_PATH}`);
+});
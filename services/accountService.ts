@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, Holding } from '../types';
+import { HoldingValuation } from './valuationService';
+
+// Holdings saved before accounts existed belong to this one
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Pseudo account id of the combined view
+export const ALL_ACCOUNTS = 'ALL';
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: '默认账户 (Default)', createdAt: '1970-01-01T00:00:00.000Z' }
+];
+
+export interface AccountSummary {
+  accountId: string;
+  holdingCount: number; // Open positions
+  marketValue: number;
+  cost: number;
+  profitLoss: number;
+  dayProfitLoss: number;
+}
+
+export const getAccountId = (holding: Holding): string => holding.accountId || DEFAULT_ACCOUNT_ID;
+
+export const createAccount = (name: string): Account => ({
+  id: uuidv4(),
+  name,
+  createdAt: new Date().toISOString()
+});
+
+// Every account a holding points to must exist, e.g. after another device deleted it
+export const reconcileAccounts = (accounts: Account[], holdings: Holding[]): Account[] => {
+  const known = new Set(accounts.map(a => a.id));
+  const missing = [...new Set(holdings.map(getAccountId))].filter(id => !known.has(id));
+  if (missing.length === 0 && accounts.length > 0) return accounts;
+
+  const restored = missing.map(id => DEFAULT_ACCOUNTS.find(a => a.id === id) || {
+    id,
+    name: `未命名账户 (Unnamed ${id.slice(0, 4)})`,
+    createdAt: new Date().toISOString()
+  });
+  const result = [...accounts, ...restored];
+  return result.length > 0 ? result : DEFAULT_ACCOUNTS;
+};
+
+export const filterByAccount = (holdings: Holding[], accountId: string): Holding[] => {
+  return accountId === ALL_ACCOUNTS ? holdings : holdings.filter(h => getAccountId(h) === accountId);
+};
+
+// Per-account totals for the combined view, in the valuations' currency
+export const summarizeAccounts = (
+  accounts: Account[],
+  holdings: Holding[],
+  valuations: Record<string, HoldingValuation>
+): AccountSummary[] => {
+  return accounts.map(account => {
+    const own = holdings.filter(h => getAccountId(h) === account.id);
+    const totals = own.reduce(
+      (acc, h) => {
+        const v = valuations[h.id];
+        acc.marketValue += v.marketValue;
+        acc.cost += v.cost;
+        acc.profitLoss += v.profitLoss;
+        acc.dayProfitLoss += v.dayProfitLoss;
+        return acc;
+      },
+      { marketValue: 0, cost: 0, profitLoss: 0, dayProfitLoss: 0 }
+    );
+    return { accountId: account.id, holdingCount: own.filter(h => h.quantity > 0).length, ...totals };
+  });
+};
@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AlertCondition, AlertEvent, AlertRule, Currency, FxRates, Holding, PriceStatus } from '../types';
+import { valueHolding } from './valuationService';
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  PRICE_ABOVE: '价格高于 (Price above)',
+  PRICE_BELOW: '价格低于 (Price below)',
+  DAY_CHANGE: '当日涨跌幅 % (Day change)',
+  TOTAL_RETURN: '持仓收益率 % (Total return)',
+  DRAWDOWN: '自高点回撤 % (Drawdown from peak)'
+};
+
+// Only rules whose value is a price compare against the holding's quote currency
+export const isPriceCondition = (condition: AlertCondition) => condition === 'PRICE_ABOVE' || condition === 'PRICE_BELOW';
+
+// Alert history is kept on this device only; older entries are dropped
+export const MAX_ALERT_HISTORY = 200;
+
+export const createAlertRule = (holding: Holding, condition: AlertCondition, threshold: number): AlertRule => ({
+  id: uuidv4(),
+  holdingId: holding.id,
+  condition,
+  threshold,
+  enabled: true,
+  peakPrice: condition === 'DRAWDOWN' && holding.currentPrice > 0 ? holding.currentPrice : undefined,
+  createdAt: new Date().toISOString()
+});
+
+// The rule's metric for a holding: price, or a % for the rate conditions. Null when there is no usable quote.
+export const measureAlert = (rule: AlertRule, holding: Holding, rates: FxRates): number | null => {
+  const price = holding.currentPrice;
+  if (!(price > 0) || holding.priceStatus === PriceStatus.STALE) return null;
+
+  switch (rule.condition) {
+    case 'PRICE_ABOVE':
+    case 'PRICE_BELOW':
+      return price;
+    case 'DAY_CHANGE':
+      return holding.yesterdayPrice ? ((price - holding.yesterdayPrice) / holding.yesterdayPrice) * 100 : null;
+    case 'TOTAL_RETURN': {
+      // Same figure as the holdings table's return column
+      const valuation = valueHolding(holding, rates, Currency.CNY);
+      return valuation.cost > 0 ? (valuation.profitLoss / valuation.cost) * 100 : null;
+    }
+    case 'DRAWDOWN': {
+      const peak = Math.max(rule.peakPrice ?? price, price);
+      return ((peak - price) / peak) * 100;
+    }
+  }
+};
+
+export const isConditionMet = (rule: AlertRule, value: number): boolean => {
+  switch (rule.condition) {
+    case 'PRICE_ABOVE':
+      return value >= rule.threshold;
+    case 'PRICE_BELOW':
+      return value <= rule.threshold;
+    case 'DRAWDOWN':
+      return value >= rule.threshold;
+    default:
+      // Positive thresholds watch rises, negative ones falls
+      return rule.threshold >= 0 ? value >= rule.threshold : value <= rule.threshold;
+  }
+};
+
+export interface AlertEvaluation {
+  rules: AlertRule[];
+  events: AlertEvent[];
+  armingChanged: boolean; // A rule fired or re-armed; peak updates alone do not count
+}
+
+// Checks the rules of the given holdings against their fresh quotes. Rules of holdings that were not
+// refreshed are returned untouched.
+export const evaluateAlerts = (rules: AlertRule[], holdings: Holding[], rates: FxRates, now: Date = new Date()): AlertEvaluation => {
+  const byId = new Map(holdings.map(h => [h.id, h]));
+  const events: AlertEvent[] = [];
+  let armingChanged = false;
+  const timestamp = now.toISOString();
+
+  const evaluated = rules.map(rule => {
+    const holding = byId.get(rule.holdingId);
+    if (!holding || !rule.enabled) return rule;
+
+    const value = measureAlert(rule, holding, rates);
+    if (value === null) return rule;
+
+    let next = rule;
+    if (rule.condition === 'DRAWDOWN' && holding.currentPrice > (rule.peakPrice ?? 0)) {
+      next = { ...next, peakPrice: holding.currentPrice };
+    }
+
+    const met = isConditionMet(rule, value);
+    if (met && !rule.triggeredAt) {
+      armingChanged = true;
+      events.push({
+        id: uuidv4(),
+        ruleId: rule.id,
+        holdingId: holding.id,
+        holdingName: holding.name,
+        code: holding.code,
+        condition: rule.condition,
+        threshold: rule.threshold,
+        value,
+        triggeredAt: timestamp,
+        read: false
+      });
+      return { ...next, triggeredAt: timestamp };
+    }
+    if (!met && rule.triggeredAt) {
+      armingChanged = true;
+      return { ...next, triggeredAt: undefined };
+    }
+    return next;
+  });
+
+  return { rules: evaluated, events, armingChanged };
+};
+
+// Rules echoed back from the cloud may carry an older peak than this device has already seen
+export const mergeRemoteRules = (local: AlertRule[], remote: AlertRule[]): AlertRule[] => {
+  const localById = new Map(local.map(r => [r.id, r]));
+  return remote.map(r => {
+    const own = localById.get(r.id);
+    if (!own?.peakPrice || (r.peakPrice ?? 0) >= own.peakPrice) return r;
+    return { ...r, peakPrice: own.peakPrice };
+  });
+};
+
+const formatValue = (condition: AlertCondition, value: number) => {
+  return isPriceCondition(condition) ? value.toFixed(3) : `${value > 0 && condition !== 'DRAWDOWN' ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+// e.g. "价格高于 (Price above) 12.500"
+export const describeRule = (rule: Pick<AlertRule, 'condition' | 'threshold'>): string => {
+  return `${ALERT_CONDITION_LABELS[rule.condition]} ${formatValue(rule.condition, rule.threshold)}`;
+};
+
+export const describeEvent = (event: AlertEvent): string => {
+  return `${event.holdingName} (${event.code}) ${describeRule(event)}，当前 ${formatValue(event.condition, event.value)}`;
+};
+
+// --- Browser notifications ---
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' => {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+};
+
+// Must be called from a user gesture
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const notifyAlerts = (events: AlertEvent[]): void => {
+  if (getNotificationPermission() !== 'granted') return;
+  events.forEach(event => {
+    try {
+      new Notification('WealthTrack 价格提醒 (Price Alert)', { body: describeEvent(event), tag: event.ruleId });
+    } catch (e) {
+      // Some mobile browsers only allow notifications from a service worker
+      console.error('Failed to show notification', e);
+    }
+  });
+};
@@ -0,0 +1,64 @@
+import { AssetType, Holding, PriceStatus } from '../types';
+import { toLocalDateString } from './snapshotService';
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  [AssetType.STOCK]: '股票 (Stock)',
+  [AssetType.FUND]: '基金 (Fund)',
+  [AssetType.BOND]: '债券 (Bond)',
+  [AssetType.CASH]: '现金 (Cash)',
+  [AssetType.DEPOSIT]: '定期存款 (Deposit)',
+  [AssetType.CRYPTO]: '加密货币 (Crypto)',
+  [AssetType.MANUAL]: '手动估值 (Manual)'
+};
+
+// Compact form for table rows and suggestion lists
+export const ASSET_TYPE_SHORT_LABELS: Record<AssetType, string> = {
+  [AssetType.STOCK]: '股票',
+  [AssetType.FUND]: '基金',
+  [AssetType.BOND]: '债券',
+  [AssetType.CASH]: '现金',
+  [AssetType.DEPOSIT]: '存款',
+  [AssetType.CRYPTO]: '加密',
+  [AssetType.MANUAL]: '手动'
+};
+
+// Priced by the market data providers; every other type is valued locally
+export const QUOTABLE_TYPES: AssetType[] = [AssetType.STOCK, AssetType.FUND];
+
+export const isQuotable = (type: AssetType): boolean => QUOTABLE_TYPES.includes(type);
+
+// The user types the current price of these in the edit form
+export const isManuallyPriced = (type: AssetType): boolean => {
+  return type === AssetType.BOND || type === AssetType.CRYPTO || type === AssetType.MANUAL;
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Deposits are stored as principal units bought at 1.0; the unit price grows with simple
+// interest (Actual/365) from the deposit date and stops at maturity
+export const getAccruedDepositPrice = (holding: Holding, date: string): number => {
+  const end = holding.maturityDate && holding.maturityDate < date ? holding.maturityDate : date;
+  const days = Math.max(0, (new Date(end).getTime() - new Date(holding.buyDate).getTime()) / DAY_MS);
+  return holding.buyPrice * (1 + ((holding.interestRate || 0) / 100) * days / 365);
+};
+
+// Price of a non-quotable holding as of `date`: cash is always 1, deposits accrue, the rest keep
+// the last price entered by hand
+export const valueLocally = (holding: Holding, date: string = toLocalDateString()): Holding => {
+  switch (holding.type) {
+    case AssetType.CASH:
+      return { ...holding, currentPrice: 1, yesterdayPrice: 1, priceDate: date, priceStatus: PriceStatus.CONFIRMED };
+    case AssetType.DEPOSIT: {
+      const yesterday = toLocalDateString(new Date(new Date(`${date}T00:00:00`).getTime() - DAY_MS));
+      return {
+        ...holding,
+        currentPrice: getAccruedDepositPrice(holding, date),
+        yesterdayPrice: getAccruedDepositPrice(holding, yesterday),
+        priceDate: date,
+        priceStatus: PriceStatus.CONFIRMED
+      };
+    }
+    default:
+      return holding;
+  }
+};
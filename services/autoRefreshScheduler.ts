@@ -0,0 +1,72 @@
+import { FINAL_REFRESH_MINUTES, getMarketStatus } from './marketCalendar';
+
+export interface AutoRefreshOptions {
+  intervalMs: number;
+  onRefresh: () => Promise<void> | void;
+}
+
+export interface AutoRefreshScheduler {
+  start: () => void;
+  stop: () => void;
+}
+
+// How often the scheduler wakes up to look at the clock; no request is made unless a refresh is due
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Polls while the A-share market is open and the tab is visible, then refreshes once more
+// after the close so the day's official fund NAVs are picked up.
+export const createAutoRefreshScheduler = ({ intervalMs, onRefresh }: AutoRefreshOptions): AutoRefreshScheduler => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastRefreshAt = 0;
+  let finalRefreshDate = '';
+  let isRunning = false;
+
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    lastRefreshAt = Date.now();
+    try {
+      await onRefresh();
+    } catch (e) {
+      console.warn("Auto refresh failed", e);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const tick = () => {
+    if (document.hidden) return;
+
+    const status = getMarketStatus();
+    if (status.isOpen) {
+      if (Date.now() - lastRefreshAt >= intervalMs) run();
+    } else if (status.isClosedForDay && status.minutes >= FINAL_REFRESH_MINUTES && finalRefreshDate !== status.date) {
+      finalRefreshDate = status.date;
+      run();
+    }
+  };
+
+  // Catch up immediately when the user comes back to the tab
+  const handleVisibility = () => {
+    if (!document.hidden) tick();
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      // The app refreshes on load, so the first poll waits a full interval and a late
+      // page load does not trigger a duplicate "final" refresh
+      lastRefreshAt = Date.now();
+      const status = getMarketStatus();
+      if (status.minutes >= FINAL_REFRESH_MINUTES) finalRefreshDate = status.date;
+
+      timer = setInterval(tick, Math.min(CHECK_INTERVAL_MS, intervalMs));
+      document.addEventListener('visibilitychange', handleVisibility);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      document.removeEventListener('visibilitychange', handleVisibility);
+    }
+  };
+};
@@ -0,0 +1,304 @@
+import { Account, AlertEvent, AlertRule, AssetType, Holding, PortfolioSettings, PortfolioSnapshot, Transaction, TransactionType, WatchlistItem } from '../types';
+import { DEFAULT_SETTINGS } from './storageService';
+import { ASSET_TYPE_SHORT_LABELS } from './assetTypes';
+import { getAccountId } from './accountService';
+import { getHoldingCurrency } from './valuationService';
+import { MAX_ALERT_HISTORY } from './alertService';
+
+// Bumped whenever the file layout changes; parseBackup rejects files from a newer app
+export const BACKUP_VERSION = 1;
+const BACKUP_APP_ID = 'wealthtrack';
+
+// Everything a user owns, wherever it is stored
+export interface PortfolioData {
+  holdings: Holding[];
+  transactions: Transaction[];
+  accounts: Account[];
+  settings: PortfolioSettings;
+  snapshots: PortfolioSnapshot[];
+  alertRules: AlertRule[];
+  alertHistory: AlertEvent[];
+  watchlist: WatchlistItem[];
+}
+
+export interface PortfolioBackup extends PortfolioData {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exportedAt: string;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface EntityDiff {
+  added: number;
+  changed: number;
+  removed: number; // Only dropped by a replace; a merge keeps them
+  unchanged: number;
+}
+
+export interface BackupDiff {
+  holdings: EntityDiff;
+  transactions: EntityDiff;
+  accounts: EntityDiff;
+  snapshots: EntityDiff;
+  feeSchedules: EntityDiff;
+  profitSharing: EntityDiff;
+  profitSharingSettlements: EntityDiff;
+  alertRules: EntityDiff;
+  alertHistory: EntityDiff;
+  watchlist: EntityDiff;
+  settingsChanged: boolean; // Device preferences only
+}
+
+// Records kept in the settings document that belong to the portfolio rather than to the device:
+// they are merged like holdings, while the remaining settings are preferences that only a replace changes
+const PORTFOLIO_SETTINGS = ['feeSchedules', 'profitSharing', 'profitSharingSettlements'] as const;
+
+const getPreferences = (settings: PortfolioSettings) => {
+  const preferences: Partial<PortfolioSettings> = { ...settings };
+  PORTFOLIO_SETTINGS.forEach(key => delete preferences[key]);
+  return preferences;
+};
+
+export const createBackup = (data: PortfolioData): PortfolioBackup => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data
+});
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+
+const validateHolding = (h: unknown, i: number): string[] => {
+  if (!isObject(h)) return [`holdings[${i}]: 不是对象 (not an object)`];
+  const errors: string[] = [];
+  if (typeof h.id !== 'string' || !h.id) errors.push(`holdings[${i}]: 缺少 id`);
+  if (typeof h.code !== 'string') errors.push(`holdings[${i}]: 缺少 code`);
+  if (typeof h.name !== 'string') errors.push(`holdings[${i}]: 缺少 name`);
+  if (!Object.values(AssetType).includes(h.type)) errors.push(`holdings[${i}]: 未知类型 (unknown type) ${h.type}`);
+  (['buyPrice', 'quantity', 'currentPrice'] as const).forEach(field => {
+    if (!isNumber(h[field])) errors.push(`holdings[${i}]: ${field} 不是数字 (not a number)`);
+  });
+  return errors;
+};
+
+const validateTransaction = (t: unknown, i: number, holdingIds: Set<string>): string[] => {
+  if (!isObject(t)) return [`transactions[${i}]: 不是对象 (not an object)`];
+  const errors: string[] = [];
+  if (typeof t.id !== 'string' || !t.id) errors.push(`transactions[${i}]: 缺少 id`);
+  if (!holdingIds.has(t.holdingId)) errors.push(`transactions[${i}]: 持仓不存在 (unknown holding) ${t.holdingId}`);
+  if (!Object.values(TransactionType).includes(t.type)) errors.push(`transactions[${i}]: 未知类型 (unknown type) ${t.type}`);
+  if (!isDate(t.date)) errors.push(`transactions[${i}]: 日期无效 (bad date) ${t.date}`);
+  if (!isNumber(t.price) || !isNumber(t.quantity)) errors.push(`transactions[${i}]: price / quantity 不是数字`);
+  return errors;
+};
+
+// Parses and checks an exported file; returns the backup or every problem found (capped for display)
+export const parseBackup = (text: string): { backup: PortfolioBackup | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['不是有效的 JSON 文件 (Not a JSON file)'] };
+  }
+
+  if (!isObject(raw) || raw.app !== BACKUP_APP_ID) {
+    return { backup: null, errors: ['不是 WealthTrack 备份文件 (Not a WealthTrack backup)'] };
+  }
+  if (!isNumber(raw.version) || raw.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`不支持的版本 (Unsupported version) ${raw.version}，请先升级应用`] };
+  }
+
+  const errors: string[] = [];
+  (['holdings', 'transactions'] as const).forEach(key => {
+    if (!Array.isArray(raw[key])) errors.push(`缺少 ${key} 列表 (missing list)`);
+  });
+  if (errors.length > 0) return { backup: null, errors };
+
+  const holdings = raw.holdings as unknown[];
+  const transactions = raw.transactions as unknown[];
+  holdings.forEach((h, i) => errors.push(...validateHolding(h, i)));
+  const holdingIds = new Set(holdings.filter(isObject).map(h => h.id as string));
+  transactions.forEach((t, i) => errors.push(...validateTransaction(t, i, holdingIds)));
+
+  const accounts = Array.isArray(raw.accounts) ? raw.accounts as Account[] : [];
+  if (accounts.some(a => !isObject(a) || typeof a.id !== 'string' || typeof a.name !== 'string')) {
+    errors.push('accounts: 格式无效 (invalid entries)');
+  }
+  const snapshots = Array.isArray(raw.snapshots) ? raw.snapshots as PortfolioSnapshot[] : [];
+  if (snapshots.some(s => !isObject(s) || !isDate(s.date) || !Array.isArray(s.holdings))) {
+    errors.push('snapshots: 格式无效 (invalid entries)');
+  }
+  // Files from before alerts existed simply have none
+  const alertRules = Array.isArray(raw.alertRules) ? raw.alertRules as AlertRule[] : [];
+  if (alertRules.some(r => !isObject(r) || typeof r.id !== 'string' || typeof r.holdingId !== 'string' || !isNumber(r.threshold))) {
+    errors.push('alertRules: 格式无效 (invalid entries)');
+  }
+  const alertHistory = Array.isArray(raw.alertHistory) ? raw.alertHistory as AlertEvent[] : [];
+  if (alertHistory.some(e => !isObject(e) || typeof e.id !== 'string' || typeof e.triggeredAt !== 'string')) {
+    errors.push('alertHistory: 格式无效 (invalid entries)');
+  }
+  const watchlist = Array.isArray(raw.watchlist) ? raw.watchlist as WatchlistItem[] : [];
+  if (watchlist.some(w => !isObject(w) || typeof w.id !== 'string' || typeof w.code !== 'string' || !Object.values(AssetType).includes(w.type))) {
+    errors.push('watchlist: 格式无效 (invalid entries)');
+  }
+
+  if (errors.length > 0) {
+    return { backup: null, errors: errors.length > 20 ? [...errors.slice(0, 20), `... 另有 ${errors.length - 20} 项 (more)`] : errors };
+  }
+
+  return {
+    backup: {
+      app: BACKUP_APP_ID,
+      version: BACKUP_VERSION,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      holdings: holdings as Holding[],
+      transactions: transactions as Transaction[],
+      accounts,
+      settings: { ...DEFAULT_SETTINGS, ...(isObject(raw.settings) ? raw.settings : {}) },
+      snapshots,
+      alertRules,
+      alertHistory,
+      watchlist
+    },
+    errors: []
+  };
+};
+
+// --- Diff / merge ---
+
+const diffBy = <T>(current: T[], incoming: T[], key: (item: T) => string): EntityDiff => {
+  const currentByKey = new Map(current.map(item => [key(item), item]));
+  const incomingKeys = new Set(incoming.map(key));
+  const diff: EntityDiff = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+
+  incoming.forEach(item => {
+    const existing = currentByKey.get(key(item));
+    if (!existing) diff.added++;
+    else if (JSON.stringify(existing) !== JSON.stringify(item)) diff.changed++;
+    else diff.unchanged++;
+  });
+  diff.removed = current.filter(item => !incomingKeys.has(key(item))).length;
+  return diff;
+};
+
+export const diffBackup = (current: PortfolioData, incoming: PortfolioData): BackupDiff => ({
+  holdings: diffBy(current.holdings, incoming.holdings, h => h.id),
+  transactions: diffBy(current.transactions, incoming.transactions, t => t.id),
+  accounts: diffBy(current.accounts, incoming.accounts, a => a.id),
+  snapshots: diffBy(current.snapshots, incoming.snapshots, s => s.date),
+  feeSchedules: diffBy(current.settings.feeSchedules, incoming.settings.feeSchedules, f => f.id),
+  profitSharing: diffBy(current.settings.profitSharing, incoming.settings.profitSharing, a => a.id),
+  profitSharingSettlements: diffBy(current.settings.profitSharingSettlements, incoming.settings.profitSharingSettlements, s => s.id),
+  alertRules: diffBy(current.alertRules, incoming.alertRules, r => r.id),
+  alertHistory: diffBy(current.alertHistory, incoming.alertHistory, e => e.id),
+  watchlist: diffBy(current.watchlist, incoming.watchlist, w => w.id),
+  settingsChanged: JSON.stringify(getPreferences(current.settings)) !== JSON.stringify(getPreferences(incoming.settings))
+});
+
+// Incoming wins for items present on both sides
+const unionBy = <T>(current: T[], incoming: T[], key: (item: T) => string): T[] => {
+  const incomingKeys = new Set(incoming.map(key));
+  return [...current.filter(item => !incomingKeys.has(key(item))), ...incoming];
+};
+
+// Merge keeps everything local and adds / updates from the file; replace takes the file as is.
+// Device preferences only change on replace.
+export const restoreBackup = (current: PortfolioData, incoming: PortfolioData, mode: RestoreMode): PortfolioData => {
+  if (mode === 'replace') return incoming;
+  return {
+    holdings: unionBy(current.holdings, incoming.holdings, h => h.id),
+    transactions: unionBy(current.transactions, incoming.transactions, t => t.id),
+    accounts: unionBy(current.accounts, incoming.accounts, a => a.id),
+    settings: {
+      ...current.settings,
+      feeSchedules: unionBy(current.settings.feeSchedules, incoming.settings.feeSchedules, f => f.id),
+      profitSharing: unionBy(current.settings.profitSharing, incoming.settings.profitSharing, a => a.id),
+      profitSharingSettlements: unionBy(current.settings.profitSharingSettlements, incoming.settings.profitSharingSettlements, s => s.id)
+    },
+    snapshots: unionBy(current.snapshots, incoming.snapshots, s => s.date)
+      .sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0),
+    alertRules: unionBy(current.alertRules, incoming.alertRules, r => r.id),
+    // Newest first and capped, as the alert panel keeps it
+    alertHistory: unionBy(current.alertHistory, incoming.alertHistory, e => e.id)
+      .sort((a, b) => a.triggeredAt > b.triggeredAt ? -1 : a.triggeredAt < b.triggeredAt ? 1 : 0)
+      .slice(0, MAX_ALERT_HISTORY),
+    watchlist: unionBy(current.watchlist, incoming.watchlist, w => w.id)
+  };
+};
+
+// --- CSV ---
+
+const escapeCsv = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: Array<Array<string | number | undefined>>): string => {
+  // BOM so Excel opens the Chinese headers as UTF-8
+  return '\uFEFF' + [header, ...rows].map(r => r.map(escapeCsv).join(',')).join('\r\n');
+};
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  [TransactionType.BUY]: '买入',
+  [TransactionType.SELL]: '卖出',
+  [TransactionType.DIVIDEND]: '分红',
+  [TransactionType.SPLIT]: '拆股',
+  [TransactionType.FEE]: '费用'
+};
+
+export const holdingsToCsv = (holdings: Holding[], accounts: Account[]): string => {
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  return toCsv(
+    ['账户', '代码', '名称', '资产类型', '市场', '币种', '首次买入日期', '成本价', '数量', '最新价', '价格日期', '已实现盈亏', '分红', '费用'],
+    holdings.map(h => [
+      accountNames.get(getAccountId(h)),
+      h.code,
+      h.name,
+      ASSET_TYPE_SHORT_LABELS[h.type],
+      h.market,
+      getHoldingCurrency(h),
+      h.buyDate,
+      h.buyPrice,
+      h.quantity,
+      h.currentPrice,
+      h.priceDate,
+      h.realizedProfitLoss,
+      h.dividendIncome,
+      h.feesPaid
+    ])
+  );
+};
+
+// Column names match the statement importer's aliases, so the file can be imported again
+export const transactionsToCsv = (transactions: Transaction[], holdings: Holding[], accounts: Account[]): string => {
+  const byId = new Map(holdings.map(h => [h.id, h]));
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  const sorted = [...transactions].sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+  return toCsv(
+    ['账户', '日期', '代码', '名称', '资产类型', '买卖方向', '价格', '数量', '金额', '费用', '币种', '拆股比例', '汇率', '备注'],
+    sorted.map(t => {
+      const h = byId.get(t.holdingId);
+      return [
+        h ? accountNames.get(getAccountId(h)) : '',
+        t.date,
+        h?.code,
+        h?.name,
+        h ? ASSET_TYPE_SHORT_LABELS[h.type] : '',
+        t.type === TransactionType.DIVIDEND && t.reinvested ? '红利再投资' : TRANSACTION_LABELS[t.type],
+        t.price || undefined,
+        t.quantity || undefined,
+        t.amount,
+        t.fee,
+        h ? getHoldingCurrency(h) : '',
+        t.ratio,
+        t.fxRate,
+        t.note
+      ];
+    })
+  );
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionType } from '../types';
+import { DEFAULT_FEE_SCHEDULES, calculateFee } from './feeService';
+
+const [stockSchedule, fundSchedule] = DEFAULT_FEE_SCHEDULES;
+
+describe('calculateFee', () => {
+  it('charges the fund purchase fee on the net amount', () => {
+    // 10,000 at 1.5%: net 9,852.22, fee 147.78
+    expect(calculateFee({ ...fundSchedule, purchaseFeeDiscount: 1 }, TransactionType.BUY, 10000)).toBe(147.78);
+    // 一折: 0.15%, net 9,985.02, fee 14.98
+    expect(calculateFee(fundSchedule, TransactionType.BUY, 10000)).toBe(14.98);
+  });
+
+  it('charges fixed tiers as a flat fee', () => {
+    expect(calculateFee(fundSchedule, TransactionType.BUY, 6000000)).toBe(1000);
+  });
+
+  it('applies the minimum commission and stamp duty on stock sales', () => {
+    expect(calculateFee(stockSchedule, TransactionType.BUY, 10000)).toBe(5.1);
+    expect(calculateFee(stockSchedule, TransactionType.SELL, 10000)).toBe(10.1);
+  });
+});
@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AssetType, FeeSchedule, FeeTier, Holding, TransactionType } from '../types';
+
+// Typical retail levels; every figure can be changed in the settings
+export const DEFAULT_FEE_SCHEDULES: FeeSchedule[] = [
+  {
+    id: 'default-a-share',
+    name: 'A股券商 (A-share Broker)',
+    assetType: AssetType.STOCK,
+    commissionRate: 0.00025, // 万2.5
+    minCommission: 5,
+    stampDutyRate: 0.0005, // 0.05% on sells since 2023-08-28
+    transferFeeRate: 0.00001, // 过户费 0.001%
+    purchaseFeeTiers: [],
+    purchaseFeeDiscount: 1,
+    redemptionFeeRate: 0
+  },
+  {
+    id: 'default-fund',
+    name: '场外基金 (Mutual Fund)',
+    assetType: AssetType.FUND,
+    commissionRate: 0,
+    minCommission: 0,
+    stampDutyRate: 0,
+    transferFeeRate: 0,
+    purchaseFeeTiers: [
+      { upTo: 1000000, rate: 0.015 },
+      { upTo: 3000000, rate: 0.012 },
+      { upTo: 5000000, rate: 0.008 },
+      { upTo: null, rate: 0, fixed: 1000 }
+    ],
+    purchaseFeeDiscount: 0.1, // Most sales platforms charge 一折
+    redemptionFeeRate: 0.005
+  }
+];
+
+export const createFeeSchedule = (assetType: AssetType): FeeSchedule => ({
+  id: uuidv4(),
+  name: '新费率 (New Schedule)',
+  assetType,
+  commissionRate: 0,
+  minCommission: 0,
+  stampDutyRate: 0,
+  transferFeeRate: 0,
+  purchaseFeeTiers: [],
+  purchaseFeeDiscount: 1,
+  redemptionFeeRate: 0
+});
+
+// The holding's own schedule when it still exists, otherwise the first one for its asset type
+export const getFeeSchedule = (
+  schedules: FeeSchedule[],
+  holding: Pick<Holding, 'type' | 'feeScheduleId'>
+): FeeSchedule | undefined => {
+  const own = holding.feeScheduleId ? schedules.find(s => s.id === holding.feeScheduleId) : undefined;
+  return own || schedules.find(s => s.assetType === holding.type);
+};
+
+// Fund front-end fees are charged on the net amount (净额法): the fee comes out of `amount`, so
+// amount = net + net * rate. Fixed tiers are flat and not discounted.
+const getTierFee = (tiers: FeeTier[], amount: number, discount: number): number => {
+  const tier = tiers.find(t => t.upTo === null || amount < t.upTo);
+  if (!tier) return 0;
+  return tier.fixed !== undefined ? tier.fixed : amount - amount / (1 + tier.rate * discount);
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Total charges of a trade worth `amount` (price * quantity, in the holding's currency)
+export const calculateFee = (
+  schedule: FeeSchedule,
+  side: TransactionType.BUY | TransactionType.SELL,
+  amount: number
+): number => {
+  if (!(amount > 0)) return 0;
+
+  const hasCommission = schedule.commissionRate > 0 || schedule.minCommission > 0;
+  const commission = hasCommission ? Math.max(amount * schedule.commissionRate, schedule.minCommission) : 0;
+  const transferFee = amount * schedule.transferFeeRate;
+
+  if (side === TransactionType.BUY) {
+    const purchaseFee = getTierFee(schedule.purchaseFeeTiers, amount, schedule.purchaseFeeDiscount);
+    return round2(commission + transferFee + purchaseFee);
+  }
+
+  const stampDuty = amount * schedule.stampDutyRate;
+  const redemptionFee = amount * schedule.redemptionFeeRate;
+  return round2(commission + transferFee + stampDuty + redemptionFee);
+};
+
+// Convenience for the trade forms: 0 when no schedule applies
+export const estimateTradeFee = (
+  schedules: FeeSchedule[],
+  holding: Pick<Holding, 'type' | 'feeScheduleId'>,
+  side: TransactionType.BUY | TransactionType.SELL,
+  amount: number
+): number => {
+  const schedule = getFeeSchedule(schedules, holding);
+  return schedule ? calculateFee(schedule, side, amount) : 0;
+};
@@ -0,0 +1,79 @@
+// Fetch layer for market data: same-origin relay, per-request timeout, retries with backoff,
+// and a bounded worker pool so large portfolios refresh in parallel without flooding the upstreams.
+
+export interface FetchOptions {
+  timeoutMs?: number;
+  retries?: number; // Additional attempts after the first one
+  backoffMs?: number; // Base delay, doubled on every retry
+}
+
+const DEFAULT_OPTIONS: Required<FetchOptions> = {
+  timeoutMs: 8000,
+  retries: 2,
+  backoffMs: 400
+};
+
+// `vite` / `vite preview` serve the relay on the same origin; static deployments run
+// server/standalone.ts and point VITE_MARKET_PROXY_URL at it
+const PROXY_URL = import.meta.env.VITE_MARKET_PROXY_URL || '/api/market';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Client errors (other than rate limiting) will not succeed on retry
+const isRetryable = (e: unknown): boolean => {
+  const status = (e as { status?: number }).status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+export const withRetry = async <T>(task: () => Promise<T>, retries: number, backoffMs: number): Promise<T> => {
+  let attempt = 0;
+  for (;;) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt >= retries || !isRetryable(e)) throw e;
+      // Exponential backoff with a little jitter so parallel retries do not line up
+      await sleep(backoffMs * Math.pow(2, attempt) + Math.random() * backoffMs);
+      attempt++;
+    }
+  }
+};
+
+const fetchOnce = async (url: string, timeoutMs: number): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(`${PROXY_URL}?url=${encodeURIComponent(url)}`, { signal: controller.signal });
+    if (!response.ok) {
+      throw Object.assign(new Error(`HTTP ${response.status} for ${url}`), { status: response.status });
+    }
+    return await response.text();
+  } catch (e) {
+    if (controller.signal.aborted) throw new Error(`Timed out after ${timeoutMs}ms: ${url}`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Raw upstream body (decoded to UTF-8 by the relay)
+export const fetchText = (url: string, options: FetchOptions = {}): Promise<string> => {
+  const { timeoutMs, retries, backoffMs } = { ...DEFAULT_OPTIONS, ...options };
+  return withRetry(() => fetchOnce(url, timeoutMs), retries, backoffMs);
+};
+
+// Runs `worker` over all items with at most `limit` in flight; results keep the input order
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, run));
+  return results;
+};
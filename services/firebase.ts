@@ -1,7 +1,7 @@
 
 import { initializeApp } from 'firebase/app';
 import { getAuth, Auth } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { initializeFirestore, Firestore } from 'firebase/firestore';
 
 // Helper to get env vars from either import.meta.env (Vite) or process.env (compat)
 const getEnvVar = (key: string) => {
@@ -27,7 +27,8 @@ if (firebaseConfig.apiKey && firebaseConfig.apiKey !== 'YOUR_API_KEY_HERE') {
   try {
     app = initializeApp(firebaseConfig);
     auth = getAuth(app);
-    db = getFirestore(app);
+    // Optional model fields (e.g. a transaction's fxRate) are left undefined rather than null
+    db = initializeFirestore(app, { ignoreUndefinedProperties: true });
     console.log("✅ Firebase initialized successfully.");
   } catch (e) {
     console.error("❌ Firebase initialization error:", e);
@@ -0,0 +1,91 @@
+import { Currency, FxRates } from '../types';
+import { fetchText } from './fetchPipeline';
+import { parseSinaQuoteLines } from './providers/sinaProvider';
+
+// Anything able to quote every supported currency against CNY
+export interface FxProvider {
+  id: string;
+  name: string;
+  getRates: () => Promise<FxRates>;
+}
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  [Currency.CNY]: '¥',
+  [Currency.HKD]: 'HK$',
+  [Currency.USD]: '$'
+};
+
+// --- Fixed rates (offline) ---
+// Reference levels only; used when no network provider is reachable and by the mock data setup
+const FIXED_RATES: FxRates = {
+  [Currency.CNY]: 1,
+  [Currency.HKD]: 0.92,
+  [Currency.USD]: 7.15
+};
+
+// Used until the first provider answer arrives
+export const DEFAULT_FX_RATES: FxRates = FIXED_RATES;
+
+export const fixedRateProvider: FxProvider = {
+  id: 'fixed',
+  name: '固定汇率 (Fixed)',
+  getRates: async () => ({ ...FIXED_RATES })
+};
+
+// --- Sina Finance FX quotes ---
+// var hq_str_fx_susdcny="Time, Bid, Ask, Prev Close, Spread, Open, High, Low, Last, Name, ...";
+const SINA_FX_SYMBOLS: Partial<Record<Currency, string>> = {
+  [Currency.HKD]: 'fx_shkdcny',
+  [Currency.USD]: 'fx_susdcny'
+};
+
+export const sinaFxProvider: FxProvider = {
+  id: 'sina',
+  name: '新浪外汇 (Sina FX)',
+  getRates: async () => {
+    const symbols = Object.values(SINA_FX_SYMBOLS);
+    const text = await fetchText(`https://hq.sinajs.cn/list=${symbols.join(',')}`);
+    const lines = parseSinaQuoteLines(text);
+
+    const rates: FxRates = { ...FIXED_RATES };
+    (Object.keys(SINA_FX_SYMBOLS) as Currency[]).forEach(currency => {
+      const parts = (lines[SINA_FX_SYMBOLS[currency]!] || '').split(',');
+      const last = parseFloat(parts[8]);
+      const bid = parseFloat(parts[1]);
+      const rate = last > 0 ? last : bid;
+      if (!(rate > 0)) throw new Error(`No FX quote for ${currency}`);
+      rates[currency] = rate;
+    });
+    return rates;
+  }
+};
+
+let activeProvider: FxProvider = import.meta.env.VITE_MARKET_DATA_PROVIDER === 'mock'
+  ? fixedRateProvider
+  : sinaFxProvider;
+
+export const setFxProvider = (provider: FxProvider): void => {
+  activeProvider = provider;
+};
+
+export const getFxProvider = (): FxProvider => activeProvider;
+
+// Latest rates from the active provider, falling back to the fixed table
+export const getFxRates = async (): Promise<FxRates> => {
+  try {
+    return await activeProvider.getRates();
+  } catch (e) {
+    console.warn(`FX provider ${activeProvider.id} failed, using fixed rates`, e);
+    return fixedRateProvider.getRates();
+  }
+};
+
+// Converts through CNY: amount * (CNY per `from`) / (CNY per `to`)
+export const convertAmount = (amount: number, from: Currency, to: Currency, rates: FxRates): number => {
+  if (from === to) return amount;
+  return amount * rates[from] / rates[to];
+};
+
+export const formatMoney = (amount: number, currency: Currency): string => {
+  return `${CURRENCY_SYMBOLS[currency]}${Math.round(amount).toLocaleString('zh-CN')}`;
+};
@@ -0,0 +1,200 @@
+import { AssetType, CostMethod, FxRates, Holding, PortfolioSnapshot, PricePoint, Transaction } from '../types';
+import { fetchHistory } from './marketDataService';
+import { getPriceHistoryCache, savePriceHistoryCache } from './storageService';
+import { createOpeningTransaction, derivePosition } from './ledgerService';
+import { isHeldRow, toLocalDateString } from './snapshotService';
+import { mapWithConcurrency } from './fetchPipeline';
+import { DEFAULT_FX_RATES } from './fxService';
+import { getHoldingCurrency, toCnyAtBookedRates } from './valuationService';
+import { getQuoteCode } from './stockCodes';
+import { isQuotable, valueLocally } from './assetTypes';
+
+// Anything able to return daily closes / NAVs for a code; swap in a fixture provider for tests
+export interface HistoryProvider {
+  getHistory: (code: string, type: AssetType, startDate: string, endDate: string) => Promise<PricePoint[]>;
+}
+
+export interface BackfillResult {
+  snapshots: PortfolioSnapshot[];
+  missingCodes: string[]; // Holdings whose history could not be fetched (left out of the totals)
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+const HISTORY_CONCURRENCY = 4;
+
+// Goes through the market data provider registry (see marketDataService)
+export const networkHistoryProvider: HistoryProvider = {
+  getHistory: fetchHistory
+};
+
+let activeProvider: HistoryProvider = networkHistoryProvider;
+
+export const setHistoryProvider = (provider: HistoryProvider): void => {
+  activeProvider = provider;
+};
+
+export const getHistoryProvider = (): HistoryProvider => activeProvider;
+
+const mergePoints = (a: PricePoint[], b: PricePoint[]): PricePoint[] => {
+  const byDate = new Map<string, PricePoint>();
+  [...a, ...b].forEach(p => byDate.set(p.date, p));
+  return [...byDate.values()].sort((x, y) => x.date < y.date ? -1 : x.date > y.date ? 1 : 0);
+};
+
+// Daily history for [startDate, endDate], served from the local cache when it covers the range
+export const getPriceHistory = async (
+  code: string,
+  type: AssetType,
+  startDate: string,
+  endDate: string,
+  provider: HistoryProvider = activeProvider
+): Promise<PricePoint[]> => {
+  const key = `${type}:${code}`;
+  const cache = getPriceHistoryCache();
+  const cached = cache[key];
+
+  if (cached && cached.from <= startDate && cached.to >= endDate) {
+    return cached.points.filter(p => p.date >= startDate && p.date <= endDate);
+  }
+
+  // Fetch the union of the cached and requested ranges so the cache stays contiguous
+  const from = cached && cached.from < startDate ? cached.from : startDate;
+  const to = cached && cached.to > endDate ? cached.to : endDate;
+  const fetched = await provider.getHistory(code, type, from, to);
+  const points = mergePoints(cached ? cached.points : [], fetched);
+
+  // Coverage ends at the last point returned, not at the requested end: closes and NAVs not yet
+  // published must be asked for again next time
+  if (fetched.length > 0) {
+    const lastFetched = fetched.reduce((max, p) => (p.date > max ? p.date : max), '');
+    const coveredTo = cached && cached.to > lastFetched ? cached.to : lastFetched;
+    // Re-read before writing: other fetches may have updated the cache while this one was in flight
+    const latest = getPriceHistoryCache();
+    latest[key] = { from, to: coveredTo, points };
+    savePriceHistoryCache(latest, key);
+  }
+
+  return points.filter(p => p.date >= startDate && p.date <= endDate);
+};
+
+// Last known close on or before `date` (points must be sorted ascending)
+export const getPriceOnOrBefore = (points: PricePoint[], date: string): number | null => {
+  let price: number | null = null;
+  for (const p of points) {
+    if (p.date > date) break;
+    price = p.close;
+  }
+  return price;
+};
+
+// Weekday series for holdings valued locally: cash at 1, deposits accruing, manual assets flat at
+// their latest hand-entered price (no past valuations are kept)
+export const buildLocalHistory = (holding: Holding, startDate: string, endDate: string): PricePoint[] => {
+  const points: PricePoint[] = [];
+  const end = new Date(endDate).getTime();
+  for (let t = new Date(startDate).getTime(); t <= end; t += DAY_MS) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const date = new Date(t).toISOString().split('T')[0];
+    points.push({ date, close: valueLocally(holding, date).currentPrice });
+  }
+  return points;
+};
+
+// Rebuilds one snapshot per trading day from the ledger and price histories (keyed by holding id).
+// Past FX rates are not available, so foreign holdings are valued at the given (current) rates.
+export const reconstructSnapshots = (
+  holdings: Holding[],
+  transactions: Transaction[],
+  costMethod: CostMethod,
+  histories: Record<string, PricePoint[]>,
+  startDate: string,
+  endDate: string,
+  rates: FxRates = DEFAULT_FX_RATES
+): PortfolioSnapshot[] => {
+  const tracked = holdings.filter(h => histories[h.id] && histories[h.id].length > 0);
+
+  const dates = [...new Set(tracked.flatMap(h => histories[h.id].map(p => p.date)))]
+    .filter(d => d >= startDate && d <= endDate)
+    .sort();
+
+  const ledgers = new Map(tracked.map(h => {
+    const own = transactions.filter(t => t.holdingId === h.id);
+    return [h.id, own.length > 0 ? own : [createOpeningTransaction(h)]];
+  }));
+
+  return dates.map((date, index) => {
+    const prevDate = index > 0 ? dates[index - 1] : null;
+
+    const rows = tracked.map(h => {
+      const position = derivePosition(ledgers.get(h.id)!.filter(t => t.date <= date), costMethod);
+      const price = getPriceOnOrBefore(histories[h.id], date) || 0;
+      const prevPrice = prevDate ? getPriceOnOrBefore(histories[h.id], prevDate) : null;
+      const rate = rates[getHoldingCurrency(h)];
+      return {
+        holdingId: h.id,
+        marketValue: price * position.quantity * rate,
+        cost: position.totalCost * (position.costFxRate ?? rate),
+        dayProfitLoss: prevPrice ? (price - prevPrice) * position.quantity * rate : 0,
+        realizedProfitLoss: toCnyAtBookedRates(position.realizedProfitLoss, position.realizedFxBooked, rate),
+        dividendIncome: toCnyAtBookedRates(position.dividendIncome, position.dividendFxBooked, rate)
+      };
+    }).filter(r => isHeldRow(r) || r.realizedProfitLoss !== 0 || r.dividendIncome !== 0);
+
+    return {
+      date,
+      totalMarketValue: rows.reduce((acc, r) => acc + r.marketValue, 0),
+      totalCost: rows.reduce((acc, r) => acc + r.cost, 0),
+      totalDayProfitLoss: rows.reduce((acc, r) => acc + r.dayProfitLoss, 0),
+      holdings: rows,
+      updatedAt: new Date().toISOString()
+    };
+  }).filter(s => s.holdings.some(isHeldRow));
+};
+
+// Fetches history for every holding from its first purchase and reconstructs past daily values
+export const backfillSnapshots = async (
+  holdings: Holding[],
+  transactions: Transaction[],
+  costMethod: CostMethod,
+  rates: FxRates = DEFAULT_FX_RATES,
+  endDate: string = toLocalDateString(new Date(Date.now() - DAY_MS)),
+  provider: HistoryProvider = activeProvider
+): Promise<BackfillResult> => {
+  const histories: Record<string, PricePoint[]> = {};
+  const missingCodes: string[] = [];
+  let startDate = endDate;
+
+  const requests = holdings.map(h => {
+    const dates = transactions.filter(t => t.holdingId === h.id).map(t => t.date);
+    const firstDate = dates.length > 0 ? dates.sort()[0] : h.buyDate;
+    return { holding: h, firstDate };
+  }).filter(r => r.firstDate && r.firstDate <= endDate);
+
+  requests.forEach(r => {
+    if (r.firstDate < startDate) startDate = r.firstDate;
+  });
+
+  await mapWithConcurrency(requests, HISTORY_CONCURRENCY, async ({ holding: h, firstDate }) => {
+    if (!isQuotable(h.type)) {
+      histories[h.id] = buildLocalHistory(h, firstDate, endDate);
+      return;
+    }
+    try {
+      const points = await getPriceHistory(getQuoteCode(h), h.type, firstDate, endDate, provider);
+      if (points.length > 0) {
+        histories[h.id] = points;
+      } else {
+        missingCodes.push(h.code);
+      }
+    } catch (e) {
+      console.warn(`Failed to fetch history for ${h.code}`, e);
+      missingCodes.push(h.code);
+    }
+  });
+
+  return {
+    snapshots: reconstructSnapshots(holdings, transactions, costMethod, histories, startDate, endDate, rates),
+    missingCodes
+  };
+};
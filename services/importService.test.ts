@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Holding, TransactionType } from '../types';
+import { createTransaction } from './ledgerService';
+import {
+  detectDate,
+  detectSide,
+  findHeaderRow,
+  guessMapping,
+  markOversells,
+  parseDelimitedText,
+  parseImportRows
+} from './importService';
+
+describe('parseDelimitedText', () => {
+  it('splits quoted fields and keeps Excel-protected zeros', () => {
+    const rows = parseDelimitedText('日期,代码,名称\r\n2024-01-05,="000001","平安, 银行"\n');
+    expect(rows).toEqual([['日期', '代码', '名称'], ['2024-01-05', '000001', '平安, 银行']]);
+  });
+
+  it('detects tab separated exports', () => {
+    expect(parseDelimitedText('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('detectDate', () => {
+  it.each([
+    ['2024-01-05', '2024-01-05'],
+    ['2024/1/5 14:30:00', '2024-01-05'],
+    ['20240105', '2024-01-05'],
+    ['2024年1月5日', '2024-01-05'],
+    ['45296', '2024-01-05']
+  ])('reads %s', (value, expected) => {
+    expect(detectDate(value)).toBe(expected);
+  });
+
+  it('rejects impossible dates', () => {
+    expect(detectDate('2024-13-01')).toBeNull();
+    expect(detectDate('abc')).toBeNull();
+  });
+});
+
+describe('detectSide', () => {
+  it('recognizes buys, sells and reinvested dividends', () => {
+    expect(detectSide('证券买入').side).toBe(TransactionType.BUY);
+    expect(detectSide('赎回').side).toBe(TransactionType.SELL);
+    expect(detectSide('红利再投资')).toEqual({ side: TransactionType.DIVIDEND, reinvested: true });
+    expect(detectSide('银证转账').side).toBeNull();
+  });
+});
+
+describe('parseImportRows', () => {
+  const rows = [
+    ['资金账号 123'],
+    ['成交日期', '证券代码', '证券名称', '买卖标志', '成交价格', '成交数量', '佣金', '印花税', '币种'],
+    ['20240105', '700', '腾讯控股', '买入', '300', '100', '5', '1', '港币'],
+    ['20240106', '1', '平安银行', '卖出', '10.5', '200', '5', '1', '人民币'],
+    ['20240107', '', '未知', '买入', 'x', '0', '', '', '']
+  ];
+  const headerIndex = findHeaderRow(rows);
+  const parsed = parseImportRows(rows, headerIndex, guessMapping(rows[headerIndex]), AssetType.STOCK);
+
+  it('finds the header below the account details', () => {
+    expect(headerIndex).toBe(1);
+  });
+
+  it('normalises stock codes by market and sums the fee columns', () => {
+    expect(parsed[0]).toMatchObject({ date: '2024-01-05', code: '00700', currency: Currency.HKD, side: TransactionType.BUY, fee: 6, errors: [] });
+    expect(parsed[1]).toMatchObject({ code: '000001', currency: Currency.CNY, side: TransactionType.SELL, quantity: 200 });
+  });
+
+  it('reports what is wrong with a row', () => {
+    expect(parsed[2].rowNumber).toBe(5);
+    expect(parsed[2].errors).toEqual(['缺少代码 (Missing code)', '价格无效 (Bad price)', '数量无效 (Bad quantity)']);
+  });
+});
+
+describe('markOversells', () => {
+  const holding: Holding = {
+    id: 'h1', accountId: 'acc', name: 'Fund', code: '110011', type: AssetType.FUND, buyDate: '2024-01-02', buyPrice: 1, quantity: 100, currentPrice: 1
+  };
+  const ledger = [createTransaction('h1', TransactionType.BUY, { date: '2024-01-02', price: 1, quantity: 100 })];
+  const [row] = parseImportRows(
+    [['日期', '代码', '方向', '价格', '数量'], ['2024-02-01', '110011', '赎回', '1.2', '150']],
+    0,
+    ['date', 'code', 'side', 'price', 'quantity'],
+    AssetType.FUND
+  );
+
+  it('flags a sale of more units than the account holds', () => {
+    const [marked] = markOversells([row], [holding], ledger, 'acc');
+    expect(marked.errors).toEqual(['卖出数量超过当时持仓 100 (Sells more than held)']);
+  });
+
+  it('counts units bought by earlier rows of the same import', () => {
+    const [topUp] = parseImportRows(
+      [['日期', '代码', '方向', '价格', '数量'], ['2024-01-20', '110011', '申购', '1.1', '50']],
+      0,
+      ['date', 'code', 'side', 'price', 'quantity'],
+      AssetType.FUND
+    );
+    const marked = markOversells([topUp, { ...row, rowNumber: 3 }], [holding], ledger, 'acc');
+    expect(marked.every(r => r.errors.length === 0)).toBe(true);
+  });
+});
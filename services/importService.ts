@@ -0,0 +1,448 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AssetType, Currency, Holding, Transaction, TransactionType } from '../types';
+import { createTransaction, findNewOversells } from './ledgerService';
+import { getMarketCurrency, parseStockCode } from './stockCodes';
+import { getAccountId } from './accountService';
+import { toLocalDateString } from './snapshotService';
+
+// What a statement column can be mapped to. Several columns may map to `fee` (佣金 + 印花税 + 过户费);
+// for every other field the first mapped column wins.
+export type ImportField = 'date' | 'code' | 'name' | 'side' | 'type' | 'price' | 'quantity' | 'amount' | 'fee' | 'currency';
+
+export type ColumnMapping = Array<ImportField | null>; // Indexed by column
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: '日期 (Date)',
+  code: '代码 (Code)',
+  name: '名称 (Name)',
+  side: '买卖方向 (Side)',
+  type: '资产类型 (Type)',
+  price: '成交价/净值 (Price)',
+  quantity: '数量/份额 (Qty)',
+  amount: '金额 (Amount)',
+  fee: '费用 (Fee)',
+  currency: '币种 (Currency)'
+};
+
+// Header names used by common broker and fund platform exports (华泰, 天天基金, 支付宝...)
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ['成交日期', '交易日期', '确认日期', '发生日期', '申请日期', '日期', 'date', 'trade date'],
+  code: ['证券代码', '基金代码', '产品代码', '股票代码', '代码', 'code', 'symbol', 'ticker'],
+  name: ['证券名称', '基金名称', '产品名称', '股票名称', '名称', 'name'],
+  side: ['买卖标志', '买卖方向', '业务类型', '交易类型', '业务名称', '操作', '摘要', 'side', 'action'],
+  type: ['证券类别', '资产类型', '品种', 'asset type'],
+  price: ['成交价格', '成交均价', '确认净值', '成交价', '净值', '价格', 'price'],
+  quantity: ['成交数量', '确认份额', '成交份额', '数量', '份额', 'quantity', 'shares', 'qty'],
+  amount: ['成交金额', '确认金额', '发生金额', '申请金额', '金额', 'amount'],
+  fee: ['手续费', '佣金', '印花税', '过户费', '交易费用', '费用', 'fee', 'commission'],
+  currency: ['币种', '货币', 'currency']
+};
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line in the file, for error messages
+  date: string;
+  code: string;
+  name: string;
+  type: AssetType;
+  side: TransactionType | null; // BUY / SELL / DIVIDEND
+  reinvested: boolean; // DIVIDEND: 红利再投资
+  price: number;
+  quantity: number;
+  amount: number;
+  fee: number;
+  currency: Currency;
+  errors: string[];
+  duplicate: boolean; // Same entry already in the ledger
+}
+
+// 'AUTO' guesses per row from the type column, the name and the code
+export type ImportTypeHint = AssetType | 'AUTO';
+
+export interface ImportResult {
+  holdings: Holding[]; // Newly created, positions are derived from the transactions
+  transactions: Transaction[];
+}
+
+// --- Reading files ---
+
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const candidates = [',', '\t', ';', '，'];
+  return candidates.reduce((best, d) => (sample.split(d).length > sample.split(best).length ? d : best), ',');
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+export const parseDelimitedText = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  // Some exports wrap codes as ="000001" to keep Excel from dropping the zeros
+  return rows.map(r => r.map(cell => cell.replace(/^="?(.*?)"?$/, '$1')));
+};
+
+// Chinese broker exports are frequently GBK encoded
+const decodeText = (buffer: ArrayBuffer): string => {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('gbk').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+};
+
+// Zip (xlsx) or OLE (xls) signature; many ".xls" broker exports are really tab separated text
+const isSpreadsheet = (buffer: ArrayBuffer): boolean => {
+  const bytes = new Uint8Array(buffer.slice(0, 4));
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const isOle = bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+  return isZip || isOle;
+};
+
+// Rows of the first sheet (spreadsheets) or of the whole file (CSV / TSV), as trimmed strings
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  const buffer = await file.arrayBuffer();
+  if (!isSpreadsheet(buffer)) return parseDelimitedText(decodeText(buffer));
+
+  // Loaded on demand: the spreadsheet parser is large and only needed here
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  return rows.map(r => r.map(cell => (cell instanceof Date ? toLocalDateString(cell) : String(cell ?? '').trim())));
+};
+
+// --- Column mapping ---
+
+const normalizeHeader = (value: string) => value.replace(/[\s()（）:：]/g, '').toLowerCase();
+
+const matchField = (header: string): ImportField | null => {
+  const h = normalizeHeader(header);
+  if (!h) return null;
+  const fields = Object.keys(COLUMN_ALIASES) as ImportField[];
+  const exact = fields.find(f => COLUMN_ALIASES[f].some(a => normalizeHeader(a) === h));
+  if (exact) return exact;
+  return fields.find(f => COLUMN_ALIASES[f].some(a => h.includes(normalizeHeader(a)))) || null;
+};
+
+// Statements often start with account details; the header is the first row naming two known columns
+export const findHeaderRow = (rows: string[][]): number => {
+  const index = rows.slice(0, 20).findIndex(r => r.filter(cell => matchField(cell) !== null).length >= 2);
+  return Math.max(index, 0);
+};
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return header.map(cell => {
+    const field = matchField(cell);
+    if (!field || (used.has(field) && field !== 'fee')) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+// --- Value detection ---
+
+const excelSerialToDate = (serial: number): string => {
+  const ms = Math.round((serial - 25569) * 86400 * 1000); // 25569 = 1970-01-01 in Excel's calendar
+  return new Date(ms).toISOString().split('T')[0];
+};
+
+// 2024-01-05, 2024/1/5, 20240105, 2024年1月5日, with or without a time; Excel serials too
+export const detectDate = (value: string): string | null => {
+  const v = value.trim();
+  if (!v) return null;
+
+  let m = /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/.exec(v);
+  if (!m) m = /^(\d{4})(\d{2})(\d{2})(?:\D|$)/.exec(v);
+  if (m) {
+    const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  if (/^\d{5}(\.\d+)?$/.test(v)) {
+    const serial = parseFloat(v);
+    if (serial > 20000 && serial < 80000) return excelSerialToDate(serial);
+  }
+  return null;
+};
+
+const SELL_WORDS = ['卖出', '赎回', '转出', 'sell', '卖'];
+const BUY_WORDS = ['买入', '申购', '认购', '定投', '转入', 'buy', '买'];
+const DIVIDEND_WORDS = ['红利', '分红', '股息', '派息', 'dividend'];
+
+export const detectSide = (value: string): { side: TransactionType | null; reinvested: boolean } => {
+  const v = value.trim().toLowerCase();
+  if (!v) return { side: null, reinvested: false };
+  if (DIVIDEND_WORDS.some(w => v.includes(w))) {
+    return { side: TransactionType.DIVIDEND, reinvested: v.includes('再投') };
+  }
+  if (SELL_WORDS.some(w => v.includes(w)) || v === 's') return { side: TransactionType.SELL, reinvested: false };
+  if (BUY_WORDS.some(w => v.includes(w)) || v === 'b') return { side: TransactionType.BUY, reinvested: false };
+  return { side: null, reinvested: false };
+};
+
+// Listed ETFs trade like stocks and are quoted as such
+const FUND_NAME_PATTERN = /基金|混合|联接|债券|货币|指数|LOF|QDII|FOF/i;
+
+export const detectAssetType = (typeCell: string, name: string, hint: ImportTypeHint): AssetType => {
+  if (hint !== 'AUTO') return hint;
+  const t = typeCell.trim();
+  if (/基金|fund/i.test(t)) return AssetType.FUND;
+  if (/债/.test(t)) return AssetType.BOND;
+  if (/股|stock|etf/i.test(t)) return AssetType.STOCK;
+  return FUND_NAME_PATTERN.test(name) && !/ETF/i.test(name) ? AssetType.FUND : AssetType.STOCK;
+};
+
+const detectCurrency = (value: string): Currency | null => {
+  const v = value.trim().toUpperCase();
+  if (!v) return null;
+  if (v.includes('港') || v === 'HKD') return Currency.HKD;
+  if (v.includes('美') || v === 'USD') return Currency.USD;
+  if (v.includes('人民币') || v === 'CNY' || v === 'RMB') return Currency.CNY;
+  return null;
+};
+
+// "1,234.50", "¥1234.5", "-200" -> number; NaN when empty or not numeric
+const parseNumber = (value: string): number => {
+  const cleaned = value.replace(/[,，\s¥$]|HK\$/g, '');
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+// --- Parsing rows ---
+
+const pick = (row: string[], mapping: ColumnMapping, field: ImportField): string => {
+  const index = mapping.indexOf(field);
+  return index >= 0 ? row[index] || '' : '';
+};
+
+const sumFees = (row: string[], mapping: ColumnMapping): number => {
+  return mapping.reduce((acc, field, i) => {
+    if (field !== 'fee') return acc;
+    const value = parseNumber(row[i] || '');
+    return isNaN(value) ? acc : acc + Math.abs(value);
+  }, 0);
+};
+
+export const parseImportRows = (
+  rows: string[][],
+  headerIndex: number,
+  mapping: ColumnMapping,
+  typeHint: ImportTypeHint
+): ImportRow[] => {
+  const result: ImportRow[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    if (row.every(cell => !cell)) return;
+    const errors: string[] = [];
+
+    const date = detectDate(pick(row, mapping, 'date'));
+    if (!date) errors.push('日期无法识别 (Bad date)');
+
+    const name = pick(row, mapping, 'name');
+    const type = detectAssetType(pick(row, mapping, 'type'), name, typeHint);
+    let currency = detectCurrency(pick(row, mapping, 'currency'));
+
+    // Excel drops the leading zeros of numeric codes. Fund codes are always 6 digits; a short stock
+    // code is a Hong Kong one (700 -> 00700) unless the row says it trades in CNY, i.e. an A-share
+    let code = pick(row, mapping, 'code').trim();
+    const isShortNumber = /^\d{1,5}$/.test(code);
+    if (isShortNumber && type === AssetType.FUND) code = code.padStart(6, '0');
+    if (type === AssetType.STOCK && code) {
+      const parsed = parseStockCode(isShortNumber && currency === Currency.CNY ? code.padStart(6, '0') : code);
+      if (parsed) {
+        code = parsed.code;
+        currency = currency || getMarketCurrency(parsed.market);
+      }
+    }
+    if (!code) errors.push('缺少代码 (Missing code)');
+
+    const sideCell = pick(row, mapping, 'side');
+    const { side, reinvested } = detectSide(sideCell);
+    if (!side) errors.push(`无法识别买卖方向 (Unknown side): ${sideCell || '-'}`);
+
+    let price = parseNumber(pick(row, mapping, 'price'));
+    let quantity = Math.abs(parseNumber(pick(row, mapping, 'quantity')));
+    const amount = Math.abs(parseNumber(pick(row, mapping, 'amount')));
+
+    // Fund confirmations give amount + NAV or amount + units; fill in the missing one
+    if (isNaN(price) && quantity > 0 && amount > 0) price = amount / quantity;
+    if (isNaN(quantity) && price > 0 && amount > 0) quantity = amount / price;
+
+    if (side === TransactionType.DIVIDEND) {
+      if (!(amount > 0)) errors.push('缺少分红金额 (Missing dividend amount)');
+      if (reinvested && !(quantity > 0)) errors.push('缺少再投资份额 (Missing reinvested units)');
+    } else if (side) {
+      if (!(price >= 0)) errors.push('价格无效 (Bad price)');
+      if (!(quantity > 0)) errors.push('数量无效 (Bad quantity)');
+    }
+
+    result.push({
+      rowNumber: headerIndex + offset + 2,
+      date: date || '',
+      code,
+      name: name || code,
+      type,
+      side,
+      reinvested,
+      price: isNaN(price) ? 0 : price,
+      quantity: isNaN(quantity) ? 0 : quantity,
+      amount: isNaN(amount) ? 0 : amount,
+      fee: sumFees(row, mapping),
+      currency: currency || Currency.CNY,
+      errors,
+      duplicate: false
+    });
+  });
+
+  return result;
+};
+
+// --- Duplicates and commit ---
+
+const findHolding = (holdings: Holding[], row: Pick<ImportRow, 'code' | 'type'>, accountId: string) => {
+  return holdings.find(h => h.code === row.code && h.type === row.type && getAccountId(h) === accountId);
+};
+
+const sameEntry = (t: Transaction, row: ImportRow): boolean => {
+  if (t.date !== row.date || t.type !== row.side) return false;
+  if (row.side === TransactionType.DIVIDEND) return Math.abs((t.amount || 0) - row.amount) < 0.01;
+  return Math.abs(t.quantity - row.quantity) < 1e-6 && Math.abs(t.price - row.price) < 1e-4;
+};
+
+// Flags rows already present in the target account's ledger, e.g. when overlapping statements are imported
+export const markDuplicates = (
+  rows: ImportRow[],
+  holdings: Holding[],
+  transactions: Transaction[],
+  accountId: string
+): ImportRow[] => {
+  return rows.map(row => {
+    const holding = findHolding(holdings, row, accountId);
+    const duplicate = !!holding && transactions.some(t => t.holdingId === holding.id && sameEntry(t, row));
+    return { ...row, duplicate };
+  });
+};
+
+const toTransaction = (row: ImportRow, holdingId: string): Transaction => {
+  const note = '导入 (Imported)';
+  if (row.side === TransactionType.DIVIDEND) {
+    return createTransaction(holdingId, TransactionType.DIVIDEND, {
+      date: row.date,
+      amount: row.amount,
+      reinvested: row.reinvested,
+      price: row.reinvested ? row.price : 0,
+      quantity: row.reinvested ? row.quantity : 0,
+      note
+    });
+  }
+  return createTransaction(holdingId, row.side!, {
+    date: row.date,
+    price: row.price,
+    quantity: row.quantity,
+    fee: row.fee || undefined,
+    note
+  });
+};
+
+// A sale of more units than are held on its date, counting the target account's ledger and the other
+// rows that will be imported with it, is an error rather than something the ledger quietly caps
+export const markOversells = (
+  rows: ImportRow[],
+  holdings: Holding[],
+  transactions: Transaction[],
+  accountId: string
+): ImportRow[] => {
+  const candidates = rows.filter(row => row.errors.length === 0 && row.side && !row.duplicate);
+  const oversold = new Map<number, number>(); // Row number -> units available
+
+  const byAsset = new Map<string, ImportRow[]>();
+  candidates.forEach(row => {
+    const key = `${row.type}:${row.code}`;
+    byAsset.set(key, [...(byAsset.get(key) || []), row]);
+  });
+
+  byAsset.forEach(assetRows => {
+    const holding = findHolding(holdings, assetRows[0], accountId);
+    const holdingId = holding?.id || 'import';
+    const ledger = holding ? transactions.filter(t => t.holdingId === holding.id) : [];
+    const drafts = assetRows.map(row => ({ row, transaction: toTransaction(row, holdingId) }));
+    findNewOversells(ledger, drafts.map(d => d.transaction)).forEach(o => {
+      const draft = drafts.find(d => d.transaction.id === o.transactionId);
+      if (draft) oversold.set(draft.row.rowNumber, o.available);
+    });
+  });
+
+  return rows.map(row => {
+    const available = oversold.get(row.rowNumber);
+    if (available === undefined) return row;
+    return { ...row, errors: [...row.errors, `卖出数量超过当时持仓 ${+available.toFixed(4)} (Sells more than held)`] };
+  });
+};
+
+// Turns valid rows into ledger entries, creating holdings for codes the account does not have yet
+export const buildImport = (rows: ImportRow[], holdings: Holding[], accountId: string): ImportResult => {
+  const created: Holding[] = [];
+  const transactions: Transaction[] = [];
+
+  rows
+    .filter(row => row.errors.length === 0 && row.side)
+    .forEach(row => {
+      let holding = findHolding(holdings, row, accountId) || findHolding(created, row, accountId);
+      if (!holding) {
+        const parsed = row.type === AssetType.STOCK ? parseStockCode(row.code) : null;
+        holding = {
+          id: uuidv4(),
+          accountId,
+          name: row.name,
+          code: row.code,
+          type: row.type,
+          market: parsed?.market,
+          currency: row.currency,
+          buyDate: row.date,
+          buyPrice: row.price,
+          quantity: 0,
+          currentPrice: row.price // Replaced by the next quote refresh
+        };
+        created.push(holding);
+      }
+
+      transactions.push(toTransaction(row, holding.id));
+    });
+
+  return { holdings: created, transactions };
+};
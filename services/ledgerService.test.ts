@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, CostMethod, Holding, Transaction, TransactionType } from '../types';
+import { applyLedger, createTransaction, derivePosition, findNewOversells, findOversellsAfterRemoval } from './ledgerService';
+
+const entry = (type: TransactionType, fields: Partial<Transaction>): Transaction => ({
+  ...createTransaction('h1', type, fields),
+  createdAt: `${fields.date}T00:00:00.000Z`
+});
+
+const buy = (date: string, price: number, quantity: number, fee?: number) => entry(TransactionType.BUY, { date, price, quantity, fee });
+const sell = (date: string, price: number, quantity: number, fee?: number) => entry(TransactionType.SELL, { date, price, quantity, fee });
+
+describe('derivePosition', () => {
+  it('adds the purchases up into one position', () => {
+    const position = derivePosition([buy('2024-02-01', 20, 100), buy('2024-01-02', 10, 100)]);
+    expect(position.quantity).toBe(200);
+    expect(position.totalCost).toBe(3000);
+    expect(position.buyPrice).toBe(15);
+    expect(position.buyDate).toBe('2024-01-02');
+  });
+});
+
+describe('derivePosition with sales', () => {
+  const ledger = [buy('2024-01-02', 10, 100), buy('2024-02-01', 20, 100), sell('2024-03-01', 25, 100)];
+
+  it('releases the oldest lots first under FIFO', () => {
+    const position = derivePosition(ledger, CostMethod.FIFO);
+    expect(position.quantity).toBe(100);
+    expect(position.buyPrice).toBe(20);
+    expect(position.realizedProfitLoss).toBe(1500);
+  });
+
+  it('releases the average cost under AVERAGE', () => {
+    const position = derivePosition(ledger, CostMethod.AVERAGE);
+    expect(position.quantity).toBe(100);
+    expect(position.buyPrice).toBe(15);
+    expect(position.realizedProfitLoss).toBe(1000);
+  });
+
+  it('reports a sale of more units than held and books only those held', () => {
+    const oversell = sell('2024-03-01', 12, 150);
+    const position = derivePosition([buy('2024-01-02', 10, 100), oversell]);
+    expect(position.quantity).toBe(0);
+    expect(position.realizedProfitLoss).toBe(200);
+    expect(position.oversells).toEqual([{ transactionId: oversell.id, available: 100 }]);
+  });
+});
+
+describe('derivePosition with FX rates', () => {
+  it('books realized P/L at the FX rates of the trades', () => {
+    const position = derivePosition([
+      entry(TransactionType.BUY, { date: '2024-01-02', price: 10, quantity: 100, fxRate: 7 }),
+      entry(TransactionType.SELL, { date: '2024-03-01', price: 10, quantity: 100, fxRate: 7.2 })
+    ]);
+    expect(position.realizedProfitLoss).toBe(0);
+    expect(position.realizedFxBooked.cny).toBeCloseTo(200);
+  });
+
+  it('leaves entries without a rate unbooked', () => {
+    const position = derivePosition([buy('2024-01-02', 10, 100), sell('2024-03-01', 12, 100)]);
+    expect(position.realizedFxBooked).toEqual({ local: 0, cny: 0 });
+    expect(position.costFxRate).toBeUndefined();
+  });
+});
+
+describe('derivePosition with corporate actions', () => {
+  it('keeps the cost basis through a split', () => {
+    const position = derivePosition([buy('2024-01-02', 10, 100), entry(TransactionType.SPLIT, { date: '2024-02-01', ratio: 2 })]);
+    expect(position.quantity).toBe(200);
+    expect(position.totalCost).toBe(1000);
+    expect(position.buyPrice).toBe(5);
+  });
+
+  it('books cash dividends as realized and reinvested ones as free units', () => {
+    const position = derivePosition([
+      buy('2024-01-02', 1, 1000),
+      entry(TransactionType.DIVIDEND, { date: '2024-06-01', amount: 50 }),
+      entry(TransactionType.DIVIDEND, { date: '2024-07-01', amount: 30, reinvested: true, price: 1.5, quantity: 20 })
+    ]);
+    expect(position.realizedProfitLoss).toBe(50);
+    expect(position.dividendIncome).toBe(80);
+    expect(position.quantity).toBe(1020);
+    expect(position.totalCost).toBe(1000);
+  });
+});
+
+describe('derivePosition with fees', () => {
+  it('adds purchase fees to the cost and takes sale fees off the proceeds', () => {
+    const position = derivePosition([buy('2024-01-02', 10, 100, 5), sell('2024-03-01', 12, 100, 3)]);
+    expect(position.quantity).toBe(0);
+    expect(position.realizedProfitLoss).toBeCloseTo(192);
+    expect(position.feesPaid).toBe(8);
+  });
+
+  it('spreads a standalone fee over the open lots', () => {
+    const position = derivePosition([buy('2024-01-02', 10, 100), entry(TransactionType.FEE, { date: '2024-02-01', amount: 20 })]);
+    expect(position.totalCost).toBeCloseTo(1020);
+    expect(position.feesPaid).toBe(20);
+  });
+});
+
+describe('findNewOversells', () => {
+  it('flags a backdated sale that leaves a later one short', () => {
+    const later = sell('2024-03-01', 12, 100);
+    const ledger = [buy('2024-01-02', 10, 100), later];
+    const oversells = findNewOversells(ledger, [sell('2024-02-01', 11, 50)]);
+    expect(oversells).toEqual([{ transactionId: later.id, available: 50 }]);
+  });
+
+  it('ignores oversells already in the ledger', () => {
+    const ledger = [buy('2024-01-02', 10, 100), sell('2024-03-01', 12, 150)];
+    expect(findNewOversells(ledger, [buy('2024-04-01', 10, 10)])).toEqual([]);
+  });
+});
+
+describe('findOversellsAfterRemoval', () => {
+  it('flags a sale left short by deleting a buy', () => {
+    const topUp = buy('2024-02-01', 10, 50);
+    const later = sell('2024-03-01', 12, 120);
+    const ledger = [buy('2024-01-02', 10, 100), topUp, later];
+    expect(findOversellsAfterRemoval(ledger, topUp.id)).toEqual([{ transactionId: later.id, available: 100 }]);
+  });
+
+  it('allows deleting entries no sale depends on', () => {
+    const extra = buy('2024-02-01', 10, 50);
+    const ledger = [buy('2024-01-02', 10, 100), extra, sell('2024-03-01', 12, 100)];
+    expect(findOversellsAfterRemoval(ledger, extra.id)).toEqual([]);
+  });
+});
+
+describe('applyLedger', () => {
+  it('overwrites the stored position of holdings that have a ledger', () => {
+    const holding: Holding = { id: 'h1', name: 'A', code: 'A', type: AssetType.FUND, buyDate: '2023-01-01', buyPrice: 1, quantity: 1, currentPrice: 12 };
+    const [derived] = applyLedger([holding], [buy('2024-01-02', 10, 100)]);
+    expect(derived).toMatchObject({ quantity: 100, buyPrice: 10, buyDate: '2024-01-02', currentPrice: 12 });
+  });
+});
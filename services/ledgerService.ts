@@ -0,0 +1,278 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CostMethod, FxBookedAmount, Holding, Transaction, TransactionType } from '../types';
+import { toLocalDateString } from './snapshotService';
+
+export interface DerivedPosition {
+  quantity: number;
+  totalCost: number;
+  buyPrice: number; // Average cost per unit of the remaining position
+  buyDate: string; // Earliest purchase date
+  realizedProfitLoss: number; // Includes cash dividends
+  dividendIncome: number; // Cash plus reinvested dividends
+  feesPaid: number; // Trade fees plus standalone FEE entries
+  costFxRate?: number; // Cost-weighted purchase FX rate of the open lots, when recorded
+  realizedFxBooked: FxBookedAmount; // Realized P/L of entries with an FX rate, in CNY at that rate
+  dividendFxBooked: FxBookedAmount; // Dividends of entries with an FX rate, in CNY at that rate
+  oversells: Oversell[]; // Sales of more units than were held; only the units held are booked
+}
+
+export interface Oversell {
+  transactionId: string;
+  available: number; // Units held just before the sale
+}
+
+interface Lot {
+  quantity: number;
+  unitCost: number;
+  fxRate?: number; // CNY per unit of the holding's currency when bought
+}
+
+// Stable chronological order: by trade date, then by entry time
+export const sortTransactions = (transactions: Transaction[]): Transaction[] => {
+  return [...transactions].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0;
+  });
+};
+
+export const getHoldingTransactions = (transactions: Transaction[], holdingId: string): Transaction[] => {
+  return sortTransactions(transactions.filter(t => t.holdingId === holdingId));
+};
+
+const sumQuantity = (lots: Lot[]) => lots.reduce((acc, l) => acc + l.quantity, 0);
+const sumCost = (lots: Lot[]) => lots.reduce((acc, l) => acc + l.quantity * l.unitCost, 0);
+
+// Weighted by each lot's cost so the CNY cost basis is preserved; lots without a rate are ignored
+const averageFxRate = (lots: Lot[]): number | undefined => {
+  const rated = lots.filter(l => l.fxRate !== undefined);
+  const cost = sumCost(rated);
+  if (rated.length === 0 || cost <= 0) return undefined;
+  return rated.reduce((acc, l) => acc + l.quantity * l.unitCost * l.fxRate!, 0) / cost;
+};
+
+// Removes `quantity` units from the lots and returns the cost basis released, also in CNY at the
+// lots' purchase rates (`saleFxRate` stands in for lots bought without one)
+const consumeLots = (lots: Lot[], quantity: number, method: CostMethod, saleFxRate = 1): { local: number; cny: number } => {
+  if (method === CostMethod.AVERAGE) {
+    const totalQty = sumQuantity(lots);
+    if (totalQty <= 0) return { local: 0, cny: 0 };
+    const avgCost = sumCost(lots) / totalQty;
+    const fxRate = averageFxRate(lots);
+    const remaining = totalQty - quantity;
+    lots.splice(0, lots.length);
+    if (remaining > 0) lots.push({ quantity: remaining, unitCost: avgCost, fxRate });
+    return { local: avgCost * quantity, cny: avgCost * quantity * (fxRate ?? saleFxRate) };
+  }
+
+  // FIFO: oldest lots are sold first
+  let left = quantity;
+  const released = { local: 0, cny: 0 };
+  while (left > 0 && lots.length > 0) {
+    const lot = lots[0];
+    const used = Math.min(lot.quantity, left);
+    released.local += used * lot.unitCost;
+    released.cny += used * lot.unitCost * (lot.fxRate ?? saleFxRate);
+    lot.quantity -= used;
+    left -= used;
+    if (lot.quantity <= 1e-8) lots.shift();
+  }
+  return released;
+};
+
+// Books an amount at the entry's FX rate; entries without one are valued at today's rate later
+const bookAtRate = (booked: FxBookedAmount, local: number, cny: number, fxRate?: number) => {
+  if (fxRate === undefined) return;
+  booked.local += local;
+  booked.cny += cny;
+};
+
+// Replays the ledger of a single holding to reach its current position
+export const derivePosition = (transactions: Transaction[], method: CostMethod = CostMethod.AVERAGE): DerivedPosition => {
+  const lots: Lot[] = [];
+  let realizedProfitLoss = 0;
+  let dividendIncome = 0;
+  let feesPaid = 0;
+  let buyDate = '';
+  const oversells: Oversell[] = [];
+  const realizedFxBooked: FxBookedAmount = { local: 0, cny: 0 };
+  const dividendFxBooked: FxBookedAmount = { local: 0, cny: 0 };
+
+  sortTransactions(transactions).forEach(t => {
+    switch (t.type) {
+      case TransactionType.BUY: {
+        // Purchase fees are part of the cost basis
+        const fee = t.fee || 0;
+        feesPaid += fee;
+        if (t.quantity > 0) {
+          lots.push({ quantity: t.quantity, unitCost: t.price + fee / t.quantity, fxRate: t.fxRate });
+        } else {
+          realizedProfitLoss -= fee;
+          bookAtRate(realizedFxBooked, -fee, -fee * (t.fxRate ?? 1), t.fxRate);
+        }
+        if (!buyDate || t.date < buyDate) buyDate = t.date;
+        break;
+      }
+      case TransactionType.SELL: {
+        // Sale fees reduce the proceeds
+        const fee = t.fee || 0;
+        feesPaid += fee;
+        // Entry forms reject oversells; older data that still has one is reported, not hidden
+        const held = sumQuantity(lots);
+        if (t.quantity > held + 1e-8) oversells.push({ transactionId: t.id, available: held });
+        const sellQty = Math.min(t.quantity, held);
+        const released = consumeLots(lots, sellQty, method, t.fxRate);
+        const proceeds = t.price * sellQty - fee;
+        realizedProfitLoss += proceeds - released.local;
+        // Proceeds at the sale's rate against the cost at the purchase rates, so FX gains are realized too
+        bookAtRate(realizedFxBooked, proceeds - released.local, proceeds * (t.fxRate ?? 1) - released.cny, t.fxRate);
+        break;
+      }
+      case TransactionType.SPLIT:
+        // Share count changes, cost basis is untouched
+        if (t.ratio && t.ratio > 0) {
+          lots.forEach(l => {
+            l.quantity *= t.ratio!;
+            l.unitCost /= t.ratio!;
+          });
+        }
+        break;
+      case TransactionType.FEE: {
+        // Spread over the open lots; a fee with nothing left to hold is a realized loss
+        const amount = t.amount || 0;
+        feesPaid += amount;
+        const totalQty = sumQuantity(lots);
+        if (totalQty > 0) {
+          lots.forEach(l => { l.unitCost += amount / totalQty; });
+        } else {
+          realizedProfitLoss -= amount;
+          bookAtRate(realizedFxBooked, -amount, -amount * (t.fxRate ?? 1), t.fxRate);
+        }
+        break;
+      }
+      case TransactionType.DIVIDEND: {
+        const amount = t.amount || 0;
+        dividendIncome += amount;
+        bookAtRate(dividendFxBooked, amount, amount * (t.fxRate ?? 1), t.fxRate);
+        if (t.reinvested) {
+          // New units cost nothing out of pocket: the payout came out of the position's own value,
+          // so the cost basis is kept and the average unit cost drops
+          if (t.quantity > 0) lots.push({ quantity: t.quantity, unitCost: 0, fxRate: t.fxRate });
+        } else {
+          realizedProfitLoss += amount;
+          bookAtRate(realizedFxBooked, amount, amount * (t.fxRate ?? 1), t.fxRate);
+        }
+        break;
+      }
+    }
+  });
+
+  let quantity = sumQuantity(lots);
+  let totalCost = sumCost(lots);
+
+  // Clean up floating point dust once a position is fully closed
+  if (quantity < 1e-8) {
+    quantity = 0;
+    totalCost = 0;
+  }
+
+  return {
+    quantity,
+    totalCost,
+    buyPrice: quantity > 0 ? totalCost / quantity : 0,
+    buyDate,
+    realizedProfitLoss,
+    dividendIncome,
+    feesPaid,
+    costFxRate: quantity > 0 ? averageFxRate(lots) : undefined,
+    realizedFxBooked,
+    dividendFxBooked,
+    oversells
+  };
+};
+
+const oversellsAdded = (before: Transaction[], after: Transaction[]): Oversell[] => {
+  const existing = new Set(derivePosition(before).oversells.map(o => o.transactionId));
+  return derivePosition(after).oversells.filter(o => !existing.has(o.transactionId));
+};
+
+// Oversells a new entry would cause, in its own holding's ledger (a backdated sale can also push a
+// later sale over the units held)
+export const findNewOversells = (ledger: Transaction[], draft: Transaction[]): Oversell[] =>
+  oversellsAdded(ledger, [...ledger, ...draft]);
+
+// Oversells left behind by deleting an entry (a buy, a reinvested dividend or a split) from its holding's ledger
+export const findOversellsAfterRemoval = (ledger: Transaction[], transactionId: string): Oversell[] =>
+  oversellsAdded(ledger, ledger.filter(t => t.id !== transactionId));
+
+// Recomputes quantity / buyPrice / buyDate / realized P/L / dividends / fees / FX rates of every holding from the ledger
+export const applyLedger = (holdings: Holding[], transactions: Transaction[], method: CostMethod = CostMethod.AVERAGE): Holding[] => {
+  return holdings.map(h => {
+    const own = transactions.filter(t => t.holdingId === h.id);
+    if (own.length === 0) return h;
+
+    const position = derivePosition(own, method);
+    return {
+      ...h,
+      quantity: position.quantity,
+      buyPrice: position.buyPrice,
+      buyDate: position.buyDate || h.buyDate,
+      realizedProfitLoss: position.realizedProfitLoss,
+      dividendIncome: position.dividendIncome,
+      feesPaid: position.feesPaid,
+      costFxRate: position.costFxRate,
+      realizedFxBooked: position.realizedFxBooked,
+      dividendFxBooked: position.dividendFxBooked
+    };
+  });
+};
+
+export const createTransaction = (
+  holdingId: string,
+  type: TransactionType,
+  fields: Partial<Omit<Transaction, 'id' | 'holdingId' | 'type' | 'createdAt'>>
+): Transaction => {
+  return {
+    id: uuidv4(),
+    holdingId,
+    type,
+    date: fields.date || toLocalDateString(),
+    price: fields.price || 0,
+    quantity: fields.quantity || 0,
+    amount: fields.amount,
+    fee: fields.fee,
+    reinvested: fields.reinvested,
+    ratio: fields.ratio,
+    fxRate: fields.fxRate,
+    note: fields.note,
+    createdAt: new Date().toISOString()
+  };
+};
+
+// Opening BUY entry reflecting a holding's current buyPrice / quantity. With a `fee`, buyPrice is
+// taken as the price before fees.
+export const createOpeningTransaction = (holding: Holding, note?: string, fee?: number): Transaction => {
+  return createTransaction(holding.id, TransactionType.BUY, {
+    date: holding.buyDate,
+    price: holding.buyPrice,
+    quantity: holding.quantity,
+    fee: fee || undefined,
+    fxRate: holding.costFxRate,
+    note
+  });
+};
+
+// Legacy data stored only Holding[]: give every holding without a ledger an opening BUY
+export const migrateHoldingsToLedger = (holdings: Holding[], transactions: Transaction[]): Transaction[] => {
+  const withLedger = new Set(transactions.map(t => t.holdingId));
+  const opening = holdings
+    .filter(h => !withLedger.has(h.id) && h.quantity > 0)
+    .map(h => createOpeningTransaction(h, '期初持仓 (Migrated opening balance)'));
+
+  return opening.length > 0 ? [...transactions, ...opening] : transactions;
+};
+
+// A holding's position can be edited in place only while its ledger is a single BUY
+export const isSimpleLedger = (transactions: Transaction[], holdingId: string): boolean => {
+  const own = transactions.filter(t => t.holdingId === holdingId);
+  return own.length === 0 || (own.length === 1 && own[0].type === TransactionType.BUY);
+};
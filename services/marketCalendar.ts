@@ -0,0 +1,68 @@
+// A-share trading calendar (SSE / SZSE). All times are China Standard Time (UTC+8),
+// independent of the browser's timezone.
+
+// Weekday exchange closures. Weekends are always closed (make-up workdays included),
+// so only Monday–Friday dates need listing. Extend yearly from the SSE holiday notice.
+const EXCHANGE_HOLIDAYS = new Set<string>([
+  // 2025
+  '2025-01-01',
+  '2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31', '2025-02-03', '2025-02-04',
+  '2025-04-04',
+  '2025-05-01', '2025-05-02', '2025-05-05',
+  '2025-06-02',
+  '2025-10-01', '2025-10-02', '2025-10-03', '2025-10-06', '2025-10-07', '2025-10-08',
+  // 2026
+  '2026-01-01', '2026-01-02',
+  '2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20', '2026-02-23',
+  '2026-04-06',
+  '2026-05-01', '2026-05-04', '2026-05-05',
+  '2026-06-19',
+  '2026-09-25',
+  '2026-10-01', '2026-10-02', '2026-10-05', '2026-10-06', '2026-10-07'
+]);
+
+// Continuous trading sessions, minutes since midnight CST
+const SESSIONS: Array<[number, number]> = [
+  [9 * 60 + 30, 11 * 60 + 30],
+  [13 * 60, 15 * 60]
+];
+
+const CLOSE_MINUTES = 15 * 60;
+
+// Funds publish the day's official NAV in the evening
+export const FINAL_REFRESH_MINUTES = 20 * 60 + 30;
+
+export interface MarketStatus {
+  date: string; // CST calendar day, yyyy-MM-dd
+  minutes: number; // Minutes since midnight CST
+  isTradingDay: boolean;
+  isOpen: boolean;
+  isClosedForDay: boolean; // Trading day whose sessions have ended
+}
+
+// Shift to UTC+8 and read the UTC fields to get the wall clock in Shanghai
+const toChinaTime = (now: Date) => {
+  const cst = new Date(now.getTime() + 8 * 3600 * 1000);
+  return {
+    date: cst.toISOString().split('T')[0],
+    weekday: cst.getUTCDay(),
+    minutes: cst.getUTCHours() * 60 + cst.getUTCMinutes()
+  };
+};
+
+export const isTradingDay = (date: string): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !EXCHANGE_HOLIDAYS.has(date);
+};
+
+export const getMarketStatus = (now: Date = new Date()): MarketStatus => {
+  const { date, minutes } = toChinaTime(now);
+  const tradingDay = isTradingDay(date);
+  return {
+    date,
+    minutes,
+    isTradingDay: tradingDay,
+    isOpen: tradingDay && SESSIONS.some(([open, close]) => minutes >= open && minutes < close),
+    isClosedForDay: tradingDay && minutes >= CLOSE_MINUTES
+  };
+};
@@ -1,143 +1,225 @@
+import { AssetSearchResult, AssetType, Holding, PricePoint, PriceStatus, Quote, WatchlistItem } from '../types';
+import { MarketDataProvider } from './providers/marketDataProvider';
+import { tiantianProvider } from './providers/tiantianProvider';
+import { sinaProvider } from './providers/sinaProvider';
+import { eastmoneyProvider } from './providers/eastmoneyProvider';
+import { mockProvider } from './providers/mockProvider';
+import { mapWithConcurrency } from './fetchPipeline';
+import { getMarketStatus } from './marketCalendar';
+import { getQuoteCode } from './stockCodes';
+import { QUOTABLE_TYPES, isQuotable, valueLocally } from './assetTypes';
 
-import { AssetType, Holding } from '../types';
+// --- Provider Registry ---
+// Each asset type has an ordered chain of provider ids; the first provider that answers wins,
+// later ones are fallbacks.
 
-// Helper to load a script for JSONP
-const loadScript = (url: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const script = document.createElement('script');
-    script.src = url;
-    script.onload = () => {
-      document.body.removeChild(script);
-      resolve();
-    };
-    script.onerror = () => {
-      document.body.removeChild(script);
-      reject(new Error(`Failed to load script: ${url}`));
-    };
-    document.body.appendChild(script);
+type Capability = 'quote' | 'history';
+
+const providers = new Map<string, MarketDataProvider>();
+
+// Types missing here have no provider and are valued locally (see assetTypes)
+const quoteChains: Partial<Record<AssetType, string[]>> = {
+  [AssetType.FUND]: ['tiantian', 'eastmoney'],
+  [AssetType.STOCK]: ['sina']
+};
+
+const historyChains: Partial<Record<AssetType, string[]>> = {
+  [AssetType.FUND]: ['eastmoney'],
+  [AssetType.STOCK]: ['sina']
+};
+
+export const registerProvider = (provider: MarketDataProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getProviders = (): MarketDataProvider[] => [...providers.values()];
+
+export const setProviderChain = (type: AssetType, capability: Capability, providerIds: string[]): void => {
+  const chains = capability === 'quote' ? quoteChains : historyChains;
+  chains[type] = providerIds;
+};
+
+export const getProviderChain = (type: AssetType, capability: Capability): MarketDataProvider[] => {
+  const chains = capability === 'quote' ? quoteChains : historyChains;
+  return (chains[type] || [])
+    .map(id => providers.get(id))
+    .filter((p): p is MarketDataProvider => !!p && p.supports(type));
+};
+
+// Route every quotable asset type to a single provider (e.g. the offline mock)
+export const routeAllToProvider = (providerId: string): void => {
+  QUOTABLE_TYPES.forEach(type => {
+    setProviderChain(type, 'quote', [providerId]);
+    setProviderChain(type, 'history', [providerId]);
   });
 };
 
-// --- Fund Fetching (TianTian Fund) ---
-// Returns: { fundcode, name, jzrq, dwjz (prev close), gsz (current est), gszzl, gztime }
-interface FundData {
-  fundcode: string;
-  name: string;
-  dwjz: string; // Net Value (usually yesterday's close)
-  jzrq: string; // Net Value Date
-  gsz: string;  // Real-time Estimate
-  gszzl: string;
-  gztime: string; // Estimate Time
+// Max single-quote requests in flight for providers without a batch endpoint
+const REFRESH_CONCURRENCY = 6;
+
+[tiantianProvider, sinaProvider, eastmoneyProvider, mockProvider].forEach(registerProvider);
+
+if (import.meta.env.VITE_MARKET_DATA_PROVIDER === 'mock') {
+  console.log("Market data: using offline mock provider");
+  routeAllToProvider('mock');
 }
 
-const fetchFundData = async (code: string): Promise<Partial<Holding> | null> => {
-  return new Promise((resolve) => {
-    // Unique callback name is not supported by this specific API, it always calls jsonpgz
-    const originalCallback = (window as any).jsonpgz;
-    
-    (window as any).jsonpgz = (data: FundData) => {
-      if (data.fundcode === code) {
-        // Prioritize Real-time Estimate (gsz) if available and not empty, else use Net Value (dwjz)
-        const est = parseFloat(data.gsz);
-        const nav = parseFloat(data.dwjz);
-        
-        // Logic: Use Estimate if valid, otherwise NAV
-        const isEstimateValid = !isNaN(est) && est > 0;
-        const currentPrice = isEstimateValid ? est : nav;
-        const yesterdayPrice = nav;
-        const priceDate = isEstimateValid ? data.gztime : data.jzrq;
-        
-        resolve({
-          name: data.name,
-          currentPrice: isNaN(currentPrice) ? 0 : currentPrice,
-          yesterdayPrice: isNaN(yesterdayPrice) ? 0 : yesterdayPrice,
-          priceDate: priceDate
+export const fetchQuote = async (code: string, type: AssetType): Promise<Quote | null> => {
+  for (const provider of getProviderChain(type, 'quote')) {
+    if (!provider.getQuote) continue;
+    try {
+      const quote = await provider.getQuote(code, type);
+      if (quote && quote.currentPrice > 0) return quote;
+    } catch (e) {
+      console.warn(`${provider.id}: quote failed for ${code}`, e);
+    }
+  }
+  return null;
+};
+
+// Quotes for many codes of one type. Providers with a batch endpoint get all pending codes in one call;
+// codes a provider could not price fall through to the next provider in the chain.
+export const fetchQuotes = async (codes: string[], type: AssetType): Promise<Record<string, Quote>> => {
+  const result: Record<string, Quote> = {};
+  let pending = [...new Set(codes)];
+
+  for (const provider of getProviderChain(type, 'quote')) {
+    if (pending.length === 0) break;
+
+    if (provider.getQuotes) {
+      try {
+        const quotes = await provider.getQuotes(pending, type);
+        pending.forEach(code => {
+          if (quotes[code] && quotes[code].currentPrice > 0) result[code] = quotes[code];
         });
-      } else if (originalCallback) {
-        originalCallback(data);
+      } catch (e) {
+        console.warn(`${provider.id}: batch quote failed`, e);
       }
-    };
+    } else if (provider.getQuote) {
+      await mapWithConcurrency(pending, REFRESH_CONCURRENCY, async (code) => {
+        try {
+          const quote = await provider.getQuote!(code, type);
+          if (quote && quote.currentPrice > 0) result[code] = quote;
+        } catch (e) {
+          console.warn(`${provider.id}: quote failed for ${code}`, e);
+        }
+      });
+    }
 
-    const url = `https://fundgz.1234567.com.cn/js/${code}.js?rt=${Date.now()}`;
-    loadScript(url).catch(() => {
-        // Fallback or error
-        console.warn(`Failed to fetch fund data for ${code}`);
-        resolve(null); 
-    });
-  });
+    pending = pending.filter(code => !result[code]);
+  }
+
+  return result;
 };
 
-// --- Stock Fetching (Sina Finance) ---
-// var hq_str_sh601006="Name, Open, Prev Close, Current, High, Low, ...";
-// Index 0: Name, 1: Open, 2: Prev Close, 3: Current Price
-// Index 30: Date (yyyy-MM-dd), 31: Time (HH:mm:ss)
-const fetchStockData = async (code: string): Promise<Partial<Holding> | null> => {
-  // Simple heuristic for market prefix
-  let prefix = 'sh';
-  if (code.startsWith('6')) prefix = 'sh';
-  else if (code.startsWith('0') || code.startsWith('3')) prefix = 'sz';
-  else if (code.startsWith('8') || code.startsWith('4')) prefix = 'bj';
-
-  const varName = `hq_str_${prefix}${code}`;
-  const url = `https://hq.sinajs.cn/list=${prefix}${code}`;
-
-  try {
-    await loadScript(url);
-    const dataStr = (window as any)[varName] as string;
-    if (dataStr) {
-      const parts = dataStr.split(',');
-      if (parts.length > 31) {
-        const name = parts[0];
-        const prevClose = parseFloat(parts[2]);
-        const current = parseFloat(parts[3]);
-        const date = parts[30];
-        const time = parts[31];
-        
-        // For stocks, current price is strictly Index 3. 
-        // If market is closed, Index 3 is the close price of the last session.
-        const validCurrent = current > 0 ? current : prevClose;
-
-        return {
-          name: name,
-          currentPrice: validCurrent,
-          yesterdayPrice: prevClose,
-          priceDate: `${date} ${time}`
-        };
-      }
+export const fetchHistory = async (code: string, type: AssetType, startDate: string, endDate: string): Promise<PricePoint[]> => {
+  for (const provider of getProviderChain(type, 'history')) {
+    if (!provider.getHistory) continue;
+    try {
+      const points = await provider.getHistory(code, type, startDate, endDate);
+      if (points.length > 0) return points;
+    } catch (e) {
+      console.warn(`${provider.id}: history failed for ${code}`, e);
     }
-  } catch (e) {
-    console.error(`Failed to fetch stock ${code}`, e);
   }
-  return null;
+  return [];
 };
 
-export const refreshMarketPrices = async (holdings: Holding[]): Promise<Holding[]> => {
-  const updatedHoldings = [...holdings];
+// Searches every provider in the active chains, de-duplicated by type + code
+export const searchAssets = async (query: string): Promise<AssetSearchResult[]> => {
+  const activeIds = new Set([...Object.values(quoteChains), ...Object.values(historyChains)].flat() as string[]);
+  const searchable = getProviders().filter(p => p.search && activeIds.has(p.id));
+
+  const results = await Promise.all(searchable.map(p => p.search!(query).catch(() => [] as AssetSearchResult[])));
+  const seen = new Set<string>();
+  return results.flat().filter(r => {
+    const key = `${r.type}:${r.code}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
 
-  // Process sequentially to avoid JSONP collision on the fund API which uses a fixed callback name
-  for (let i = 0; i < updatedHoldings.length; i++) {
-    const h = updatedHoldings[i];
+// Once the day's official NAV is published (evening, CST), swap it in for the intraday estimate.
+// The NAV for the estimate's date must be the last point of the fund's history; until then the
+// estimate is kept as is. Only today's estimates wait for the close; older ones are confirmed at once.
+export const confirmFundNavs = async (holdings: Holding[]): Promise<Holding[]> => {
+  const status = getMarketStatus();
+  const isSessionPending = status.isTradingDay && !status.isClosedForDay;
+
+  return mapWithConcurrency(holdings, REFRESH_CONCURRENCY, async (h) => {
+    if (h.type !== AssetType.FUND || h.priceStatus !== PriceStatus.ESTIMATE || !h.priceDate) return h;
+
+    const estimateDate = h.priceDate.slice(0, 10);
+    if (isSessionPending && estimateDate >= status.date) return h;
+    const lookback = new Date(new Date(estimateDate).getTime() - 14 * 24 * 3600 * 1000).toISOString().split('T')[0];
     try {
-      let data: Partial<Holding> | null = null;
-      if (h.type === AssetType.FUND) {
-        data = await fetchFundData(h.code);
-      } else {
-        data = await fetchStockData(h.code);
-      }
+      const points = await fetchHistory(h.code, h.type, lookback, estimateDate);
+      const last = points[points.length - 1];
+      if (!last || last.date !== estimateDate) return h;
 
-      if (data) {
-        updatedHoldings[i] = {
-          ...h,
-          name: data.name || h.name, // Update name if fetched
-          currentPrice: data.currentPrice || h.currentPrice,
-          yesterdayPrice: data.yesterdayPrice || h.currentPrice, // Fallback to current if no prev
-          priceDate: data.priceDate || h.priceDate
-        };
-      }
+      const prev = points.length > 1 ? points[points.length - 2] : null;
+      return {
+        ...h,
+        currentPrice: last.close,
+        yesterdayPrice: prev ? prev.close : h.yesterdayPrice,
+        priceDate: last.date,
+        priceStatus: PriceStatus.CONFIRMED
+      };
     } catch (e) {
-      console.warn(`Error updating ${h.code}`, e);
+      console.warn(`Failed to confirm NAV for ${h.code}`, e);
+      return h;
     }
-  }
+  });
+};
+
+// Quotes are requested per asset type so batch-capable providers see every code at once;
+// cash, deposits and manually priced assets never reach a provider
+export const refreshMarketPrices = async (holdings: Holding[]): Promise<Holding[]> => {
+  const types = [...new Set(holdings.filter(h => isQuotable(h.type)).map(h => h.type))];
+  const quotesByType = await Promise.all(types.map(type =>
+    fetchQuotes(holdings.filter(h => h.type === type).map(getQuoteCode), type)
+      .catch(e => {
+        console.warn(`Error updating ${type} quotes`, e);
+        return {} as Record<string, Quote>;
+      })
+  ));
+
+  const refreshed = holdings.map(h => {
+    if (!isQuotable(h.type)) return valueLocally(h);
+    const data = quotesByType[types.indexOf(h.type)][getQuoteCode(h)];
+    // No provider answered: keep the old price but flag it
+    if (!data) return { ...h, priceStatus: PriceStatus.STALE };
 
-  return updatedHoldings;
+    return {
+      ...h,
+      name: data.name || h.name, // Update name if fetched
+      currentPrice: data.currentPrice || h.currentPrice,
+      yesterdayPrice: data.yesterdayPrice || h.currentPrice, // Fallback to current if no prev
+      priceDate: data.priceDate || h.priceDate,
+      priceStatus: data.priceStatus
+    };
+  });
+
+  return confirmFundNavs(refreshed);
+};
+
+// Watchlist entries are quoted through the same provider chains as holdings; keyed by item id
+export const fetchWatchlistQuotes = async (items: WatchlistItem[]): Promise<Record<string, Quote>> => {
+  const quotable = items.filter(item => isQuotable(item.type));
+  const types = [...new Set(quotable.map(item => item.type))];
+  const quotesByType = await Promise.all(types.map(type =>
+    fetchQuotes(quotable.filter(item => item.type === type).map(getQuoteCode), type)
+      .catch(e => {
+        console.warn(`Error updating ${type} watchlist quotes`, e);
+        return {} as Record<string, Quote>;
+      })
+  ));
+
+  const result: Record<string, Quote> = {};
+  quotable.forEach(item => {
+    const quote = quotesByType[types.indexOf(item.type)][getQuoteCode(item)];
+    if (quote) result[item.id] = quote;
+  });
+  return result;
 };
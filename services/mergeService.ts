@@ -0,0 +1,149 @@
+import { Account, CostMethod, Holding, Transaction } from '../types';
+import { applyLedger } from './ledgerService';
+import { getAccountId } from './accountService';
+
+export interface PortfolioSide {
+  holdings: Holding[];
+  transactions: Transaction[];
+}
+
+export type MergeChoice = 'cloud' | 'local' | 'merge';
+
+export type ComparisonStatus = 'same' | 'changed' | 'localOnly' | 'cloudOnly';
+
+// One asset as it exists on this device and in the cloud
+export interface HoldingComparison {
+  key: string;
+  status: ComparisonStatus;
+  cloud?: Holding; // Positions derived from each side's own ledger
+  local?: Holding;
+  cloudTransactions: Transaction[];
+  localTransactions: Transaction[];
+  newLocalTransactions: number; // Local entries the cloud ledger does not have
+  fieldsDiffer: boolean; // Name, code, account... differ
+}
+
+// Fields a user sets; positions and prices are derived or refreshed and do not count as differences
+const USER_FIELDS: Array<keyof Holding> = ['name', 'code', 'type', 'accountId', 'market', 'currency', 'interestRate', 'maturityDate', 'feeScheduleId'];
+
+const assetKey = (h: Holding) => `${getAccountId(h)}|${h.type}|${h.code}`;
+
+// Guest entries get fresh ids, so the same trade recorded on both sides is matched by content
+const entryKey = (t: Transaction) => [t.type, t.date, t.price, t.quantity, t.amount ?? '', t.ratio ?? '', t.fee ?? ''].join('|');
+
+const isNewEntry = (t: Transaction, cloudTransactions: Transaction[]) => {
+  return !cloudTransactions.some(c => c.id === t.id || entryKey(c) === entryKey(t));
+};
+
+// Pairs holdings by id, then by account + type + code, and classifies each pair
+export const compareSides = (local: PortfolioSide, cloud: PortfolioSide, method: CostMethod): HoldingComparison[] => {
+  const cloudDerived = applyLedger(cloud.holdings, cloud.transactions, method);
+  const localDerived = applyLedger(local.holdings, local.transactions, method);
+  const unmatchedCloud = new Map(cloudDerived.map(h => [h.id, h]));
+  const comparisons: HoldingComparison[] = [];
+
+  localDerived.forEach(l => {
+    const match = unmatchedCloud.get(l.id) || [...unmatchedCloud.values()].find(c => assetKey(c) === assetKey(l));
+    const localTransactions = local.transactions.filter(t => t.holdingId === l.id);
+    if (!match) {
+      comparisons.push({
+        key: l.id,
+        status: 'localOnly',
+        local: l,
+        cloudTransactions: [],
+        localTransactions,
+        newLocalTransactions: localTransactions.length,
+        fieldsDiffer: false
+      });
+      return;
+    }
+    unmatchedCloud.delete(match.id);
+
+    const cloudTransactions = cloud.transactions.filter(t => t.holdingId === match.id);
+    const newLocalTransactions = localTransactions.filter(t => isNewEntry(t, cloudTransactions)).length;
+    const missingLocally = cloudTransactions.filter(t => isNewEntry(t, localTransactions)).length;
+    const fieldsDiffer = USER_FIELDS.some(f => (l[f] ?? '') !== (match[f] ?? ''));
+    comparisons.push({
+      key: match.id,
+      status: fieldsDiffer || newLocalTransactions > 0 || missingLocally > 0 ? 'changed' : 'same',
+      cloud: match,
+      local: l,
+      cloudTransactions,
+      localTransactions,
+      newLocalTransactions,
+      fieldsDiffer
+    });
+  });
+
+  unmatchedCloud.forEach(c => {
+    comparisons.push({
+      key: c.id,
+      status: 'cloudOnly',
+      cloud: c,
+      cloudTransactions: cloud.transactions.filter(t => t.holdingId === c.id),
+      localTransactions: [],
+      newLocalTransactions: 0,
+      fieldsDiffer: false
+    });
+  });
+  return comparisons;
+};
+
+// Only local work the cloud lacks warrants asking; a local copy that is merely behind is not
+export const hasLocalChanges = (comparisons: HoldingComparison[]): boolean => {
+  return comparisons.some(c => c.status === 'localOnly' || c.newLocalTransactions > 0 || c.fieldsDiffer);
+};
+
+export const defaultChoice = (c: HoldingComparison): MergeChoice => {
+  if (c.status === 'cloudOnly' || c.status === 'same') return 'cloud';
+  return c.status === 'localOnly' ? 'local' : 'merge';
+};
+
+// Builds the portfolio to keep. Merged holdings keep the cloud id and metadata and gain the local-only entries.
+export const mergeSides = (comparisons: HoldingComparison[], choices: Record<string, MergeChoice>): PortfolioSide => {
+  const holdings: Holding[] = [];
+  const transactions: Transaction[] = [];
+
+  comparisons.forEach(c => {
+    const choice = choices[c.key] || defaultChoice(c);
+
+    if (c.status === 'cloudOnly') {
+      if (choice !== 'local') {
+        holdings.push(c.cloud!);
+        transactions.push(...c.cloudTransactions);
+      }
+      return;
+    }
+    if (c.status === 'localOnly') {
+      if (choice !== 'cloud') {
+        holdings.push(c.local!);
+        transactions.push(...c.localTransactions);
+      }
+      return;
+    }
+
+    const cloud = c.cloud!;
+    if (choice === 'cloud') {
+      holdings.push(cloud);
+      transactions.push(...c.cloudTransactions);
+    } else if (choice === 'local') {
+      holdings.push({ ...c.local!, id: cloud.id });
+      transactions.push(...c.localTransactions.map(t => ({ ...t, holdingId: cloud.id })));
+    } else {
+      holdings.push(cloud);
+      transactions.push(
+        ...c.cloudTransactions,
+        ...c.localTransactions.filter(t => isNewEntry(t, c.cloudTransactions)).map(t => ({ ...t, holdingId: cloud.id }))
+      );
+    }
+  });
+
+  return { holdings, transactions };
+};
+
+// Cloud accounts plus local ones the kept holdings still point to
+export const mergeAccounts = (cloudAccounts: Account[], localAccounts: Account[], holdings: Holding[]): Account[] => {
+  const used = new Set(holdings.map(getAccountId));
+  const known = new Set(cloudAccounts.map(a => a.id));
+  return [...cloudAccounts, ...localAccounts.filter(a => !known.has(a.id) && used.has(a.id))];
+};
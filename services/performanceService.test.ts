@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { timeWeightedReturn, xirr } from './performanceService';
+
+describe('xirr', () => {
+  it('finds the annual rate of a one-year investment', () => {
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1100 }
+    ]);
+    expect(rate).toBeCloseTo(10, 4);
+  });
+
+  it('weights money by how long it was invested', () => {
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-07-02', amount: -1000 },
+      { date: '2024-01-01', amount: 2200 }
+    ]);
+    expect(rate!).toBeGreaterThan(10);
+    expect(rate!).toBeLessThan(14);
+  });
+
+  it('needs money both in and out', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: -100 }])).toBeNull();
+  });
+
+  it('does not annualize track records shorter than a month', () => {
+    expect(xirr([{ date: '2024-01-01', amount: -1000 }, { date: '2024-01-10', amount: 1010 }])).toBeNull();
+  });
+});
+
+describe('timeWeightedReturn', () => {
+  it('chains the daily returns', () => {
+    const values = [
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-01-02', value: 110 },
+      { date: '2024-01-03', value: 99 }
+    ];
+    expect(timeWeightedReturn(values, new Map())).toBeCloseTo(-1);
+  });
+
+  it('leaves deposits out of the return', () => {
+    const values = [
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-01-02', value: 210 }
+    ];
+    expect(timeWeightedReturn(values, new Map([['2024-01-02', 100]]))).toBeCloseTo(10);
+  });
+
+  it('needs two valuations', () => {
+    expect(timeWeightedReturn([{ date: '2024-01-01', value: 100 }], new Map())).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { FxRates, Holding, PortfolioSnapshot, Transaction, TransactionType } from '../types';
+import { createOpeningTransaction } from './ledgerService';
+import { toLocalDateString } from './snapshotService';
+import { DEFAULT_FX_RATES } from './fxService';
+import { getHoldingCurrency } from './valuationService';
+
+// Investor's point of view: money put in is negative, money taken out (or still held) is positive
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface HoldingPerformance {
+  xirr: number | null; // Annualized, in %
+  timeWeightedReturn: number | null; // Cumulative, in %
+}
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Annualizing very short track records produces meaningless numbers
+const MIN_XIRR_DAYS = 30;
+
+const yearFraction = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS / 365;
+
+// In the holding's currency
+const transactionCashFlow = (t: Transaction): number => {
+  switch (t.type) {
+    case TransactionType.BUY:
+      return -(t.price * t.quantity + (t.fee || 0));
+    case TransactionType.SELL:
+      return t.price * t.quantity - (t.fee || 0);
+    case TransactionType.DIVIDEND:
+      // A reinvested payout never leaves the position
+      return t.reinvested ? 0 : t.amount || 0;
+    case TransactionType.FEE:
+      return -(t.amount || 0);
+    default:
+      return 0;
+  }
+};
+
+// Returns are measured in CNY (snapshots are stored in CNY); entries without a recorded rate use today's
+const toCny = (t: Transaction, holding: Holding, rates: FxRates): number => {
+  return transactionCashFlow(t) * (t.fxRate ?? rates[getHoldingCurrency(holding)]);
+};
+
+const getLedger = (holding: Holding, transactions: Transaction[]): Transaction[] => {
+  const own = transactions.filter(t => t.holdingId === holding.id);
+  return own.length > 0 ? own : [createOpeningTransaction(holding)];
+};
+
+// Dated cash flows of the given holdings, closed by their current market value as a final inflow
+export const buildCashFlows = (
+  holdings: Holding[],
+  transactions: Transaction[],
+  rates: FxRates = DEFAULT_FX_RATES,
+  asOfDate: string = toLocalDateString()
+): CashFlow[] => {
+  const flows: CashFlow[] = holdings.flatMap(h =>
+    getLedger(h, transactions)
+      .map(t => ({ date: t.date, amount: toCny(t, h, rates) }))
+      .filter(f => f.amount !== 0)
+  );
+
+  const terminalValue = holdings.reduce((acc, h) => acc + h.currentPrice * h.quantity * rates[getHoldingCurrency(h)], 0);
+  if (terminalValue > 0) flows.push({ date: asOfDate, amount: terminalValue });
+
+  return flows.sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+};
+
+// Money-weighted return: the annual rate r solving sum(amount / (1 + r)^years) = 0
+export const xirr = (flows: CashFlow[]): number | null => {
+  if (flows.length < 2) return null;
+  if (!flows.some(f => f.amount < 0) || !flows.some(f => f.amount > 0)) return null;
+
+  const start = flows[0].date;
+  const end = flows[flows.length - 1].date;
+  if ((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS < MIN_XIRR_DAYS) return null;
+
+  const times = flows.map(f => yearFraction(start, f.date));
+  const npv = (rate: number) => flows.reduce((acc, f, i) => acc + f.amount / Math.pow(1 + rate, times[i]), 0);
+  const dNpv = (rate: number) => flows.reduce((acc, f, i) => acc - times[i] * f.amount / Math.pow(1 + rate, times[i] + 1), 0);
+
+  // Newton-Raphson first, it converges in a handful of steps for typical portfolios
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = dNpv(rate);
+    if (Math.abs(value) < 1e-7) return rate * 100;
+    if (slope === 0 || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next * 100;
+    rate = next;
+  }
+
+  // Fall back to bisection over a wide bracket
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-7) return mid * 100;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return ((low + high) / 2) * 100;
+};
+
+// Net money added to the position on each date (buys and fees in, sale proceeds and cash dividends out)
+const buildExternalFlows = (holdings: Holding[], transactions: Transaction[], rates: FxRates): Map<string, number> => {
+  const flows = new Map<string, number>();
+  holdings.forEach(h => {
+    getLedger(h, transactions).forEach(t => {
+      const amount = -toCny(t, h, rates);
+      if (amount !== 0) flows.set(t.date, (flows.get(t.date) || 0) + amount);
+    });
+  });
+  return flows;
+};
+
+// Time-weighted return: chain daily returns between valuations, neutralizing the flows of each day
+export const timeWeightedReturn = (values: Array<{ date: string; value: number }>, flows: Map<string, number>): number | null => {
+  if (values.length < 2) return null;
+
+  let growth = 1;
+  let periods = 0;
+  for (let i = 1; i < values.length; i++) {
+    const prev = values[i - 1].value;
+    if (prev <= 0) continue;
+
+    // Flows between the two valuations are assumed to happen at the end of the later day
+    const flow = [...flows.entries()]
+      .filter(([date]) => date > values[i - 1].date && date <= values[i].date)
+      .reduce((acc, [, amount]) => acc + amount, 0);
+
+    growth *= (values[i].value - flow) / prev;
+    periods++;
+  }
+
+  return periods > 0 ? (growth - 1) * 100 : null;
+};
+
+// Percentages do not depend on the reporting currency as long as one rate converts every amount
+export const getPortfolioPerformance = (
+  holdings: Holding[],
+  transactions: Transaction[],
+  snapshots: PortfolioSnapshot[],
+  rates: FxRates = DEFAULT_FX_RATES
+): HoldingPerformance => {
+  return {
+    xirr: xirr(buildCashFlows(holdings, transactions, rates)),
+    timeWeightedReturn: timeWeightedReturn(
+      snapshots.map(s => ({ date: s.date, value: s.totalMarketValue })),
+      buildExternalFlows(holdings, transactions, rates)
+    )
+  };
+};
+
+export const getHoldingPerformance = (
+  holding: Holding,
+  transactions: Transaction[],
+  snapshots: PortfolioSnapshot[],
+  rates: FxRates = DEFAULT_FX_RATES
+): HoldingPerformance => {
+  const values = snapshots
+    .map(s => ({ date: s.date, value: s.holdings.find(r => r.holdingId === holding.id)?.marketValue ?? 0 }))
+    // Leading days before the holding existed carry no information
+    .filter((v, i, all) => v.value > 0 || all.slice(0, i).some(p => p.value > 0));
+
+  return {
+    xirr: xirr(buildCashFlows([holding], transactions, rates)),
+    timeWeightedReturn: timeWeightedReturn(values, buildExternalFlows([holding], transactions, rates))
+  };
+};
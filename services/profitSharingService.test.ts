@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, FxRates, Holding, PortfolioSnapshot, ProfitSharingAgreement } from '../types';
+import { HoldingValuation } from './valuationService';
+import { DEFAULT_PROFIT_SHARING, calculateProfitSharing, measureAgreement } from './profitSharingService';
+
+const terms = DEFAULT_PROFIT_SHARING[0]; // 20% of 3-5%, 50% above 5%, losses fully guaranteed
+const rates: FxRates = { [Currency.CNY]: 1, [Currency.HKD]: 0.9, [Currency.USD]: 7 };
+
+describe('calculateProfitSharing', () => {
+  it('shares nothing below the first tier', () => {
+    const result = calculateProfitSharing(terms, { costBase: 10000, profit: 250 });
+    expect(result.shareAmount).toBe(0);
+    expect(result.guaranteeAmount).toBe(0);
+  });
+
+  it('takes each tier rate on its own band of profit', () => {
+    const result = calculateProfitSharing(terms, { costBase: 10000, profit: 800 });
+    expect(result.tierShares).toEqual([40, 150]);
+    expect(result.shareAmount).toBe(190);
+    expect(result.returnRate).toBeCloseTo(0.08);
+  });
+
+  it('shares nothing on profit below the high-water mark', () => {
+    const result = calculateProfitSharing({ ...terms, highWaterMark: 400 }, { costBase: 10000, profit: 800 });
+    expect(result.tierShares).toEqual([20, 150]);
+  });
+
+  it('guarantees part of a loss up to the cap', () => {
+    const partial = calculateProfitSharing({ ...terms, guaranteeRate: 0.5 }, { costBase: 10000, profit: -600 });
+    expect(partial.guaranteeAmount).toBe(300);
+    expect(partial.isGuaranteeCapped).toBe(false);
+
+    const capped = calculateProfitSharing({ ...terms, guaranteeCap: 200 }, { costBase: 10000, profit: -600 });
+    expect(capped.guaranteeAmount).toBe(200);
+    expect(capped.isGuaranteeCapped).toBe(true);
+  });
+
+  it('owes nothing without a cost base', () => {
+    expect(calculateProfitSharing(terms, { costBase: 0, profit: 100 }).shareAmount).toBe(0);
+  });
+});
+
+describe('measureAgreement', () => {
+  const holding = (id: string): Holding => ({
+    id, name: id, code: id, type: AssetType.FUND, buyDate: '2024-01-02', buyPrice: 1, quantity: 0, currentPrice: 1
+  });
+  const valuation = (cost: number, marketValue: number, realizedProfitLoss: number, dividendIncome = 0) => (
+    { cost, marketValue, realizedProfitLoss, dividendIncome } as HoldingValuation
+  );
+  const holdings = [holding('a'), holding('b')];
+  // b was sold during the period: its gain moved from unrealized to realized
+  const valuations = { a: valuation(1000, 1100, 0), b: valuation(0, 0, 300, 50) };
+  const startSnapshot: PortfolioSnapshot = {
+    date: '2024-06-30',
+    totalMarketValue: 1650,
+    totalCost: 1500,
+    totalDayProfitLoss: 0,
+    updatedAt: '',
+    holdings: [
+      { holdingId: 'a', cost: 1000, marketValue: 1050, dayProfitLoss: 0, realizedProfitLoss: 0, dividendIncome: 0 },
+      { holdingId: 'b', cost: 500, marketValue: 600, dayProfitLoss: 0, realizedProfitLoss: 20, dividendIncome: 20 }
+    ]
+  };
+  const agreement: ProfitSharingAgreement = { ...terms, periodStart: '2024-06-30' };
+
+  it('measures the total return, realized P/L included', () => {
+    const basis = measureAgreement(agreement, holdings, valuations, [startSnapshot], rates, Currency.CNY, '2024-12-31');
+    expect(basis.startBreakdown).toEqual({ unrealized: 150, realized: 20, dividends: 20 });
+    expect(basis.endBreakdown).toEqual({ unrealized: 100, realized: 300, dividends: 50 });
+    expect(basis.startProfit).toBe(170);
+    expect(basis.profit).toBe(230);
+    expect(basis.missingStartRealized).toBe(false);
+  });
+
+  it('measures from the total frozen by the last settlement', () => {
+    const basis = measureAgreement({ ...agreement, openingProfit: 300 }, holdings, valuations, [startSnapshot], rates, Currency.CNY, '2024-12-31');
+    expect(basis.profit).toBe(100);
+    expect(basis.startBreakdown).toBeUndefined();
+  });
+
+  it('flags start snapshots recorded before realized P/L was', () => {
+    const legacy = { ...startSnapshot, holdings: startSnapshot.holdings.map(({ realizedProfitLoss, dividendIncome, ...row }) => row) };
+    const basis = measureAgreement(agreement, holdings, valuations, [legacy], rates, Currency.CNY, '2024-12-31');
+    expect(basis.missingStartRealized).toBe(true);
+  });
+});
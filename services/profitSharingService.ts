@@ -0,0 +1,241 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, Currency, FxRates, Holding, PortfolioSnapshot, ProfitBreakdown, ProfitSharingAgreement, ProfitSharingTier } from '../types';
+import { HoldingValuation } from './valuationService';
+import { getAccountId } from './accountService';
+
+// The terms the dashboard card used before agreements were configurable
+export const DEFAULT_PROFIT_SHARING: ProfitSharingAgreement[] = [
+  {
+    id: 'default-profit-sharing',
+    name: '默认分成 (Default)',
+    scope: 'PORTFOLIO',
+    tiers: [
+      { threshold: 0.03, rate: 0.2 },
+      { threshold: 0.05, rate: 0.5 }
+    ],
+    highWaterMark: 0,
+    guaranteeRate: 1,
+    guaranteeCap: null
+  }
+];
+
+export const createAgreement = (): ProfitSharingAgreement => ({
+  id: uuidv4(),
+  name: '新协议 (New Agreement)',
+  scope: 'PORTFOLIO',
+  tiers: [{ threshold: 0, rate: 0.2 }],
+  highWaterMark: 0,
+  guaranteeRate: 0,
+  guaranteeCap: null
+});
+
+// Cost base and profit of an agreement's scope over its period
+export interface ProfitSharingBasis {
+  costBase: number;
+  profit: number; // Total return over the period, negative for a loss
+  startProfit: number; // Profit already there when the period started, excluded from `profit`
+  startBreakdown?: ProfitBreakdown; // Absent when the period opens at a settled total
+  endBreakdown: ProfitBreakdown;
+  startDate?: string; // Snapshot the period is measured from
+  endDate?: string; // Snapshot the period was frozen at, live figures when absent
+  missingStart: boolean; // periodStart precedes every snapshot, so profit is measured from inception
+  missingStartRealized: boolean; // The start snapshot predates realized P/L being recorded, so earlier sales count in the period
+  missingEnd: boolean; // periodEnd has passed but precedes every snapshot, so live figures are used
+}
+
+export interface ProfitSharingResult {
+  returnRate: number; // profit / costBase
+  tierShares: number[]; // Share earned in each tier, in tier order
+  shareAmount: number;
+  guaranteeAmount: number;
+  isGuaranteeCapped: boolean;
+}
+
+export const sortTiers = (tiers: ProfitSharingTier[]): ProfitSharingTier[] => {
+  return [...tiers].sort((a, b) => a.threshold - b.threshold);
+};
+
+// Pure: the share owed on a profit, or the guarantee owed on a loss, under the agreement's terms.
+// Each tier takes its rate on the profit between its threshold and the next one; profit below the
+// high-water mark earns nothing.
+export const calculateProfitSharing = (
+  agreement: Pick<ProfitSharingAgreement, 'tiers' | 'highWaterMark' | 'guaranteeRate' | 'guaranteeCap'>,
+  basis: Pick<ProfitSharingBasis, 'costBase' | 'profit'>
+): ProfitSharingResult => {
+  const tiers = sortTiers(agreement.tiers);
+  const { costBase, profit } = basis;
+
+  if (!(costBase > 0)) {
+    return { returnRate: 0, tierShares: tiers.map(() => 0), shareAmount: 0, guaranteeAmount: 0, isGuaranteeCapped: false };
+  }
+
+  const floor = Math.max(agreement.highWaterMark, 0);
+  const tierShares = tiers.map((tier, i) => {
+    const low = Math.max(tier.threshold * costBase, floor);
+    const high = i + 1 < tiers.length ? tiers[i + 1].threshold * costBase : Infinity;
+    return Math.max(Math.min(profit, high) - low, 0) * tier.rate;
+  });
+
+  let guaranteeAmount = 0;
+  let isGuaranteeCapped = false;
+  if (profit < 0) {
+    guaranteeAmount = -profit * agreement.guaranteeRate;
+    if (agreement.guaranteeCap !== null && guaranteeAmount > agreement.guaranteeCap) {
+      guaranteeAmount = agreement.guaranteeCap;
+      isGuaranteeCapped = true;
+    }
+  }
+
+  return {
+    returnRate: profit / costBase,
+    tierShares,
+    shareAmount: tierShares.reduce((sum, s) => sum + s, 0),
+    guaranteeAmount,
+    isGuaranteeCapped
+  };
+};
+
+export const getScopeHoldings = (agreement: ProfitSharingAgreement, holdings: Holding[]): Holding[] => {
+  switch (agreement.scope) {
+    case 'ACCOUNT':
+      return holdings.filter(h => getAccountId(h) === agreement.accountId);
+    case 'HOLDINGS':
+      return holdings.filter(h => agreement.holdingIds?.includes(h.id));
+    default:
+      return holdings;
+  }
+};
+
+// Latest snapshot on or before the day
+const findSnapshot = (snapshots: PortfolioSnapshot[], date: string): PortfolioSnapshot | undefined => {
+  let found: PortfolioSnapshot | undefined;
+  snapshots.forEach(s => {
+    if (s.date <= date && (!found || s.date > found.date)) found = s;
+  });
+  return found;
+};
+
+const EMPTY_BREAKDOWN: ProfitBreakdown = { unrealized: 0, realized: 0, dividends: 0 };
+
+// Dividends are already inside the other two parts
+export const getTotalProfit = (breakdown: ProfitBreakdown): number => breakdown.unrealized + breakdown.realized;
+
+// Snapshot amounts are in CNY
+const sumSnapshot = (snapshot: PortfolioSnapshot, ids: Set<string>, cnyPerUnit: number) => {
+  let cost = 0;
+  let value = 0;
+  let realized = 0;
+  let dividends = 0;
+  let hasRealized = true;
+  snapshot.holdings.forEach(h => {
+    if (!ids.has(h.holdingId)) return;
+    cost += h.cost;
+    value += h.marketValue;
+    if (h.realizedProfitLoss === undefined) hasRealized = false;
+    realized += h.realizedProfitLoss || 0;
+    dividends += h.dividendIncome || 0;
+  });
+  const breakdown: ProfitBreakdown = {
+    unrealized: (value - cost) / cnyPerUnit,
+    realized: realized / cnyPerUnit,
+    dividends: dividends / cnyPerUnit
+  };
+  return { cost: cost / cnyPerUnit, breakdown, hasRealized };
+};
+
+// Profit is the total return of the scope: unrealized P/L (market value - cost) plus realized P/L
+// from sales, fees and dividends. It is measured from the total frozen by the last settlement, or
+// else the period start snapshot, up to today or the period end snapshot.
+export const measureAgreement = (
+  agreement: ProfitSharingAgreement,
+  holdings: Holding[],
+  valuations: Record<string, HoldingValuation>,
+  snapshots: PortfolioSnapshot[],
+  rates: FxRates,
+  baseCurrency: Currency,
+  today: string
+): ProfitSharingBasis => {
+  const scoped = getScopeHoldings(agreement, holdings);
+  const ids = new Set(scoped.map(h => h.id));
+  const cnyPerUnit = rates[baseCurrency];
+
+  let costBase = 0;
+  let endBreakdown: ProfitBreakdown = { ...EMPTY_BREAKDOWN };
+  const isEnded = !!agreement.periodEnd && agreement.periodEnd < today;
+  const endSnapshot = isEnded ? findSnapshot(snapshots, agreement.periodEnd!) : undefined;
+  if (endSnapshot) {
+    const end = sumSnapshot(endSnapshot, ids, cnyPerUnit);
+    costBase = end.cost;
+    endBreakdown = end.breakdown;
+  } else {
+    scoped.forEach(h => {
+      const v = valuations[h.id];
+      if (!v) return;
+      costBase += v.cost;
+      endBreakdown.unrealized += v.marketValue - v.cost;
+      endBreakdown.realized += v.realizedProfitLoss;
+      endBreakdown.dividends += v.dividendIncome;
+    });
+  }
+  const endProfit = getTotalProfit(endBreakdown);
+
+  if (agreement.openingProfit !== undefined) {
+    return {
+      costBase,
+      profit: endProfit - agreement.openingProfit,
+      startProfit: agreement.openingProfit,
+      endBreakdown,
+      startDate: agreement.periodStart,
+      endDate: endSnapshot?.date,
+      missingStart: false,
+      missingStartRealized: false,
+      missingEnd: isEnded && !endSnapshot
+    };
+  }
+
+  const startSnapshot = agreement.periodStart ? findSnapshot(snapshots, agreement.periodStart) : undefined;
+  const start = startSnapshot ? sumSnapshot(startSnapshot, ids, cnyPerUnit) : null;
+  const startBreakdown = start ? start.breakdown : EMPTY_BREAKDOWN;
+  const startProfit = getTotalProfit(startBreakdown);
+
+  return {
+    costBase,
+    profit: endProfit - startProfit,
+    startProfit,
+    startBreakdown,
+    endBreakdown,
+    startDate: startSnapshot?.date,
+    endDate: endSnapshot?.date,
+    missingStart: !!agreement.periodStart && !startSnapshot,
+    missingStartRealized: !!start && !start.hasRealized,
+    missingEnd: isEnded && !endSnapshot
+  };
+};
+
+export const describeScope = (agreement: ProfitSharingAgreement, accounts: Account[]): string => {
+  if (agreement.scope === 'ACCOUNT') return accounts.find(a => a.id === agreement.accountId)?.name || '已删除账户';
+  if (agreement.scope === 'HOLDINGS') return `${agreement.holdingIds?.length || 0} 项持仓`;
+  return '全部持仓';
+};
+
+export const formatPercent = (fraction: number) => `${parseFloat((fraction * 100).toPrecision(10))}%`;
+
+// e.g. "收益3%-5%部分提成20%, 超过5%部分提成50%"
+export const describeTiers = (tiers: ProfitSharingTier[]): string => {
+  const sorted = sortTiers(tiers);
+  if (sorted.length === 0) return '不分成 (No share)';
+  return sorted.map((tier, i) => {
+    const next = sorted[i + 1];
+    const band = next
+      ? `收益${formatPercent(tier.threshold)}-${formatPercent(next.threshold)}部分`
+      : `超过${formatPercent(tier.threshold)}部分`;
+    return `${band}提成${formatPercent(tier.rate)}`;
+  }).join(', ');
+};
+
+export const describeGuarantee = (agreement: Pick<ProfitSharingAgreement, 'guaranteeRate' | 'guaranteeCap'>): string => {
+  if (agreement.guaranteeRate <= 0) return '亏损不兜底 (No guarantee)';
+  const share = agreement.guaranteeRate >= 1 ? '全额' : formatPercent(agreement.guaranteeRate);
+  const cap = agreement.guaranteeCap !== null ? `, 上限${Math.round(agreement.guaranteeCap).toLocaleString('zh-CN')}` : '';
+  return `亏损${share}兜底${cap}`;
+};
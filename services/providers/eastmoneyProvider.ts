@@ -0,0 +1,59 @@
+import { AssetSearchResult, AssetType, PricePoint, PriceStatus, Quote } from '../../types';
+import { MarketDataProvider } from './marketDataProvider';
+import { fetchText } from '../fetchPipeline';
+
+// --- Eastmoney (fund NAV history, confirmed NAV quotes, fund search) ---
+
+// Fund profile script declares `var Data_netWorthTrend = [{ x: epochMs, y: unitNav, ... }];` and `var fS_name = "...";`
+const fetchFundProfile = async (code: string): Promise<{ name: string; points: PricePoint[] }> => {
+  const text = await fetchText(`https://fund.eastmoney.com/pingzhongdata/${code}.js?v=${Date.now()}`);
+  const name = /fS_name\s*=\s*"([^"]*)"/.exec(text)?.[1] || code;
+  const trendMatch = /Data_netWorthTrend\s*=\s*(\[[\s\S]*?\]);/.exec(text);
+  if (!trendMatch) return { name, points: [] };
+  const trend = JSON.parse(trendMatch[1]) as Array<{ x: number; y: number }>;
+
+  const points = trend
+    .filter(p => typeof p.y === 'number' && p.y > 0)
+    .map(p => ({
+      // Timestamps are midnight China time; shift to read the CST calendar day
+      date: new Date(p.x + 8 * 3600 * 1000).toISOString().split('T')[0],
+      close: p.y
+    }));
+  return { name, points };
+};
+
+const fetchFundHistory = async (code: string, startDate: string, endDate: string): Promise<PricePoint[]> => {
+  const { points } = await fetchFundProfile(code);
+  return points.filter(p => p.date >= startDate && p.date <= endDate);
+};
+
+// Latest published NAV (no intraday estimate), useful as a fallback behind TianTian
+const fetchFundQuote = async (code: string): Promise<Quote | null> => {
+  const { name, points } = await fetchFundProfile(code);
+  if (points.length === 0) return null;
+  const last = points[points.length - 1];
+  const prev = points.length > 1 ? points[points.length - 2] : last;
+  return {
+    name,
+    currentPrice: last.close,
+    yesterdayPrice: prev.close,
+    priceDate: last.date,
+    priceStatus: PriceStatus.CONFIRMED
+  };
+};
+
+// Fund search API answers plain JSON when no callback is given
+const searchFunds = async (query: string): Promise<AssetSearchResult[]> => {
+  const text = await fetchText(`https://fundsuggest.eastmoney.com/FundSearch/api/FundSearchAPI.ashx?m=1&key=${encodeURIComponent(query)}`);
+  const data = JSON.parse(text) as { Datas?: Array<{ CODE: string; NAME: string }> };
+  return (data.Datas || []).map(d => ({ code: d.CODE, name: d.NAME, type: AssetType.FUND }));
+};
+
+export const eastmoneyProvider: MarketDataProvider = {
+  id: 'eastmoney',
+  name: '东方财富 (Eastmoney)',
+  supports: (type) => type === AssetType.FUND,
+  getQuote: (code) => fetchFundQuote(code),
+  getHistory: (code, _type, startDate, endDate) => fetchFundHistory(code, startDate, endDate),
+  search: searchFunds
+};
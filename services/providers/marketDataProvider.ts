@@ -0,0 +1,13 @@
+import { AssetSearchResult, AssetType, PricePoint, Quote } from '../../types';
+
+// A source of market data. Capabilities are optional: a provider may only serve quotes,
+// only history, or only search, and the registry skips it for what it cannot do.
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  supports: (type: AssetType) => boolean;
+  getQuote?: (code: string, type: AssetType) => Promise<Quote | null>;
+  getQuotes?: (codes: string[], type: AssetType) => Promise<Record<string, Quote>>; // Batched, keyed by code
+  getHistory?: (code: string, type: AssetType, startDate: string, endDate: string) => Promise<PricePoint[]>;
+  search?: (query: string) => Promise<AssetSearchResult[]>;
+}
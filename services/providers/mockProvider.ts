@@ -0,0 +1,84 @@
+import { AssetSearchResult, AssetType, Market, PricePoint, PriceStatus, Quote } from '../../types';
+import { getMarketStatus } from '../marketCalendar';
+import { MarketDataProvider } from './marketDataProvider';
+import { getQuoteCode } from '../stockCodes';
+
+// --- Deterministic offline provider ---
+// Prices are a pure function of (code, date), so the dashboard renders the same numbers on every
+// machine without network access. Enable with VITE_MARKET_DATA_PROVIDER=mock.
+
+const CATALOG: AssetSearchResult[] = [
+  { code: '161725', name: '招商中证白酒指数(LOF)A', type: AssetType.FUND },
+  { code: '005827', name: '易方达蓝筹精选混合', type: AssetType.FUND },
+  { code: '110011', name: '易方达优质精选混合', type: AssetType.FUND },
+  { code: '600519', name: '贵州茅台', type: AssetType.STOCK },
+  { code: '000858', name: '五粮液', type: AssetType.STOCK },
+  { code: '300750', name: '宁德时代', type: AssetType.STOCK },
+  { code: '00700', name: '腾讯控股', type: AssetType.STOCK, market: Market.HK },
+  { code: 'AAPL', name: '苹果', type: AssetType.STOCK, market: Market.US }
+];
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// FNV-1a, good enough to spread codes over a stable seed
+const hashCode = (code: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const toDateString = (time: number) => new Date(time).toISOString().split('T')[0];
+
+export const getMockPrice = (code: string, type: AssetType, date: string): number => {
+  const seed = hashCode(code);
+  const base = type === AssetType.FUND ? 1 + (seed % 2000) / 1000 : 10 + (seed % 19000) / 100;
+  const day = Math.floor(new Date(date).getTime() / DAY_MS);
+  const phase = (seed % 628) / 100;
+  const wave = 0.15 * Math.sin(day / 45 + phase) + 0.05 * Math.sin(day / 7 + phase * 2);
+  return Math.round(base * (1 + wave) * 10000) / 10000;
+};
+
+const getMockQuote = async (code: string, type: AssetType): Promise<Quote> => {
+  const today = toDateString(Date.now());
+  const yesterday = toDateString(Date.now() - DAY_MS);
+  // Stocks may arrive market-qualified (00700.HK)
+  const listed = CATALOG.find(c => c.code === code || getQuoteCode(c) === code);
+  return {
+    name: listed ? listed.name : `模拟资产 ${code}`,
+    currentPrice: getMockPrice(code, type, today),
+    yesterdayPrice: getMockPrice(code, type, yesterday),
+    priceDate: `${today} 15:00:00`,
+    // Mimic TianTian: funds are estimates while the market is open
+    priceStatus: type === AssetType.FUND && getMarketStatus().isOpen ? PriceStatus.ESTIMATE : PriceStatus.CONFIRMED
+  };
+};
+
+// One point per weekday in the range
+const getMockHistory = async (code: string, type: AssetType, startDate: string, endDate: string): Promise<PricePoint[]> => {
+  const points: PricePoint[] = [];
+  const end = new Date(endDate).getTime();
+  for (let t = new Date(startDate).getTime(); t <= end; t += DAY_MS) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const date = toDateString(t);
+    points.push({ date, close: getMockPrice(code, type, date) });
+  }
+  return points;
+};
+
+const searchMock = async (query: string): Promise<AssetSearchResult[]> => {
+  const q = query.trim().toLowerCase();
+  return CATALOG.filter(c => c.code.toLowerCase().includes(q) || c.name.toLowerCase().includes(q));
+};
+
+export const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  name: '模拟数据 (Mock)',
+  supports: () => true,
+  getQuote: getMockQuote,
+  getHistory: getMockHistory,
+  search: searchMock
+};
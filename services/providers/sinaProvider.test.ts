@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Market, PriceStatus } from '../../types';
+import { chunkSymbols, parseQuote, parseSinaQuoteLines } from './sinaProvider';
+
+const fields = (count: number, values: Record<number, string>) => Array.from({ length: count }, (_, i) => values[i] ?? '0').join(',');
+
+describe('parseSinaQuoteLines', () => {
+  it('keys every quote line by symbol and keeps empty answers', () => {
+    const text = 'var hq_str_sh600519="贵州茅台,1700.00";\nvar hq_str_sz000001="";\n';
+    expect(parseSinaQuoteLines(text)).toEqual({ sh600519: '贵州茅台,1700.00', sz000001: '' });
+  });
+});
+
+describe('parseQuote', () => {
+  it('reads A-share quotes and falls back to the previous close before the open', () => {
+    const line = fields(33, { 0: '贵州茅台', 2: '1700.00', 3: '0.00', 30: '2024-01-05', 31: '09:20:00' });
+    expect(parseQuote(line, Market.SH)).toEqual({
+      name: '贵州茅台',
+      currentPrice: 1700,
+      yesterdayPrice: 1700,
+      priceDate: '2024-01-05 09:20:00',
+      priceStatus: PriceStatus.CONFIRMED
+    });
+  });
+
+  it('reads Hong Kong quotes', () => {
+    const line = fields(20, { 0: 'TENCENT', 1: '腾讯控股', 3: '300.0', 6: '305.2', 17: '2024/01/05', 18: '16:08' });
+    expect(parseQuote(line, Market.HK)).toMatchObject({ name: '腾讯控股', currentPrice: 305.2, yesterdayPrice: 300, priceDate: '2024-01-05 16:08' });
+  });
+
+  it('derives the US previous close from the change when it is missing', () => {
+    const line = fields(27, { 0: '苹果', 1: '185.50', 3: '2024-01-06 05:00:00', 4: '1.50', 26: '' });
+    expect(parseQuote(line, Market.US)).toMatchObject({ currentPrice: 185.5, yesterdayPrice: 184 });
+  });
+
+  it('rejects truncated answers', () => {
+    expect(parseQuote('贵州茅台,1700.00', Market.SH)).toBeNull();
+  });
+});
+
+describe('chunkSymbols', () => {
+  it('keeps each comma-joined group within the length limit', () => {
+    expect(chunkSymbols(['sh600519', 'sz000001', 'sh601318'], 17)).toEqual([['sh600519', 'sz000001'], ['sh601318']]);
+  });
+
+  it('never splits a single symbol', () => {
+    expect(chunkSymbols(['sh600519'], 4)).toEqual([['sh600519']]);
+  });
+});
@@ -0,0 +1,215 @@
+import { AssetSearchResult, AssetType, Market, PricePoint, PriceStatus, Quote } from '../../types';
+import { MarketDataProvider } from './marketDataProvider';
+import { fetchText, mapWithConcurrency } from '../fetchPipeline';
+import { ParsedStockCode, parseStockCode } from '../stockCodes';
+
+// --- Sina Finance (A-share / HK / US quotes, A-share daily K-line, search) ---
+
+// sh600519, hk00700, gb_aapl
+const getStockSymbol = ({ code, market }: ParsedStockCode): string => {
+  switch (market) {
+    case Market.HK:
+      return `hk${code}`;
+    case Market.US:
+      return `gb_${code.toLowerCase()}`;
+    default:
+      return `${market.toLowerCase()}${code}`;
+  }
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Every `var hq_str_<symbol>="...";` line of a response, keyed by symbol
+export const parseSinaQuoteLines = (text: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  const pattern = /hq_str_(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    result[match[1]] = match[2];
+  }
+  return result;
+};
+
+// var hq_str_sh601006="Name, Open, Prev Close, Current, High, Low, ...";
+// Index 0: Name, 1: Open, 2: Prev Close, 3: Current Price
+// Index 30: Date (yyyy-MM-dd), 31: Time (HH:mm:ss)
+const parseAShareQuote = (dataStr: string): Quote | null => {
+  const parts = dataStr.split(',');
+  if (parts.length <= 31) return null;
+
+  const name = parts[0];
+  const prevClose = parseFloat(parts[2]);
+  const current = parseFloat(parts[3]);
+  const date = parts[30];
+  const time = parts[31];
+
+  // For stocks, current price is strictly Index 3.
+  // If market is closed, Index 3 is the close price of the last session.
+  const validCurrent = current > 0 ? current : prevClose;
+
+  return {
+    name: name,
+    currentPrice: validCurrent,
+    yesterdayPrice: prevClose,
+    priceDate: `${date} ${time}`,
+    priceStatus: PriceStatus.CONFIRMED
+  };
+};
+
+// var hq_str_hk00700="EN Name, CN Name, Open, Prev Close, High, Low, Last, Change, Change %, ...";
+// Index 1: Name, 3: Prev Close, 6: Last, 17: Date (yyyy/MM/dd), 18: Time (HH:mm)
+const parseHKQuote = (dataStr: string): Quote | null => {
+  const parts = dataStr.split(',');
+  if (parts.length <= 18) return null;
+
+  const prevClose = parseFloat(parts[3]);
+  const current = parseFloat(parts[6]);
+
+  return {
+    name: parts[1] || parts[0],
+    currentPrice: current > 0 ? current : prevClose,
+    yesterdayPrice: prevClose,
+    priceDate: `${parts[17].replace(/\//g, '-')} ${parts[18]}`,
+    priceStatus: PriceStatus.CONFIRMED
+  };
+};
+
+// var hq_str_gb_aapl="Name, Last, Change %, Time (CST), Change, Open, High, Low, ...";
+// Index 0: Name, 1: Last, 3: yyyy-MM-dd HH:mm:ss (Beijing time), 4: Change, 26: Prev Close
+const parseUSQuote = (dataStr: string): Quote | null => {
+  const parts = dataStr.split(',');
+  if (parts.length <= 4) return null;
+
+  const current = parseFloat(parts[1]);
+  const change = parseFloat(parts[4]) || 0;
+  const listedPrevClose = parseFloat(parts[26]);
+  const prevClose = listedPrevClose > 0 ? listedPrevClose : current - change;
+
+  return {
+    name: parts[0],
+    currentPrice: current > 0 ? current : prevClose,
+    yesterdayPrice: prevClose,
+    priceDate: parts[3],
+    priceStatus: PriceStatus.CONFIRMED
+  };
+};
+
+// Each market answers with a differently shaped string
+export const parseQuote = (dataStr: string, market: Market): Quote | null => {
+  switch (market) {
+    case Market.HK:
+      return parseHKQuote(dataStr);
+    case Market.US:
+      return parseUSQuote(dataStr);
+    default:
+      return parseAShareQuote(dataStr);
+  }
+};
+
+// Keeps each `list=` URL well under common URL length limits
+const MAX_LIST_LENGTH = 800;
+const BATCH_CONCURRENCY = 2;
+
+// Splits symbols into comma-joined groups no longer than maxLength
+export const chunkSymbols = (symbols: string[], maxLength: number = MAX_LIST_LENGTH): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  symbols.forEach(symbol => {
+    if (current.length > 0 && length + 1 + symbol.length > maxLength) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    length += (current.length > 0 ? 1 : 0) + symbol.length;
+    current.push(symbol);
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// One request per chunk of symbols instead of one per stock
+// Codes may be bare or market-qualified (see getQuoteCode); results are keyed by the code as given
+const fetchStockQuotes = async (codes: string[]): Promise<Record<string, Quote>> => {
+  const symbols = new Map<string, { code: string; market: Market }>();
+  codes.forEach(code => {
+    const parsed = parseStockCode(code);
+    if (parsed) symbols.set(getStockSymbol(parsed), { code, market: parsed.market });
+  });
+  const chunks = chunkSymbols([...symbols.keys()]);
+  const result: Record<string, Quote> = {};
+
+  await mapWithConcurrency(chunks, BATCH_CONCURRENCY, async (chunk) => {
+    try {
+      const lines = parseSinaQuoteLines(await fetchText(`https://hq.sinajs.cn/list=${chunk.join(',')}`));
+      chunk.forEach(symbol => {
+        const { code, market } = symbols.get(symbol)!;
+        const quote = lines[symbol] ? parseQuote(lines[symbol], market) : null;
+        if (quote) result[code] = quote;
+      });
+    } catch (e) {
+      console.error(`Failed to fetch stocks ${chunk.join(',')}`, e);
+    }
+  });
+
+  return result;
+};
+
+const fetchStockQuote = async (code: string): Promise<Quote | null> => {
+  const quotes = await fetchStockQuotes([code]);
+  return quotes[code] || null;
+};
+
+// Sina daily K-line via its JSONP wrapper: var <name>=([{ day, open, high, low, close, volume }]);
+// Only A-shares are served by this endpoint; HK / US holdings have no history source yet
+const fetchStockHistory = async (code: string, startDate: string, endDate: string): Promise<PricePoint[]> => {
+  const parsed = parseStockCode(code);
+  if (!parsed || parsed.market === Market.HK || parsed.market === Market.US) return [];
+  const symbol = getStockSymbol(parsed);
+  const varName = `_${symbol}_history`;
+  // The API counts bars back from today, so ask for enough calendar days to reach startDate
+  const days = Math.ceil((Date.now() - new Date(startDate).getTime()) / DAY_MS) + 1;
+  const datalen = Math.min(Math.max(days, 1), 1023);
+  const url = `https://quotes.sina.cn/cn/api/jsonp_v2.php/var%20${varName}=/CN_MarketDataService.getKLineData?symbol=${symbol}&scale=240&ma=no&datalen=${datalen}`;
+
+  const match = /=\((\[[\s\S]*\])\)/.exec(await fetchText(url));
+  if (!match) return [];
+  const rows = JSON.parse(match[1]) as Array<{ day: string; close: string }>;
+
+  return rows
+    .map(r => ({ date: r.day.slice(0, 10), close: parseFloat(r.close) }))
+    .filter(p => !isNaN(p.close) && p.close > 0 && p.date >= startDate && p.date <= endDate);
+};
+
+// Suggest API: var <name>="key,type,code,symbol,name,...;key,type,...";
+// Type 11 = A-share, 12 = B-share, 31 = HK, 41 = US. The symbol (sh600519, 00700, aapl) carries the market.
+const SUGGEST_MARKETS: Record<string, (symbol: string) => string> = {
+  '11': symbol => symbol,
+  '12': symbol => symbol,
+  '31': symbol => `hk${symbol}`,
+  '41': symbol => `gb_${symbol}`
+};
+
+const searchStocks = async (query: string): Promise<AssetSearchResult[]> => {
+  const types = Object.keys(SUGGEST_MARKETS).join(',');
+  const text = await fetchText(`https://suggest3.sinajs.cn/suggest/type=${types}&key=${encodeURIComponent(query)}&name=suggestvalue`);
+  const raw = /suggestvalue="([^"]*)"/.exec(text)?.[1];
+  if (!raw) return [];
+
+  return raw.split(';')
+    .map(entry => entry.split(','))
+    .filter(parts => parts.length > 4 && parts[2] && SUGGEST_MARKETS[parts[1]])
+    .map(parts => ({ parts, parsed: parseStockCode(SUGGEST_MARKETS[parts[1]](parts[3] || parts[2])) }))
+    .filter(({ parsed }) => parsed !== null)
+    .map(({ parts, parsed }) => ({ code: parsed!.code, name: parts[4], type: AssetType.STOCK, market: parsed!.market }));
+};
+
+export const sinaProvider: MarketDataProvider = {
+  id: 'sina',
+  name: '新浪财经 (Sina Finance)',
+  supports: (type) => type === AssetType.STOCK,
+  getQuote: (code) => fetchStockQuote(code),
+  getQuotes: (codes) => fetchStockQuotes(codes),
+  getHistory: (code, _type, startDate, endDate) => fetchStockHistory(code, startDate, endDate),
+  search: searchStocks
+};
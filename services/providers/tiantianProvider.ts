@@ -0,0 +1,51 @@
+import { AssetType, PriceStatus, Quote } from '../../types';
+import { MarketDataProvider } from './marketDataProvider';
+import { fetchText } from '../fetchPipeline';
+
+// --- TianTian Fund (fundgz) real-time estimates ---
+// Body: jsonpgz({ fundcode, name, jzrq, dwjz (prev close), gsz (current est), gszzl, gztime });
+interface FundData {
+  fundcode: string;
+  name: string;
+  dwjz: string; // Net Value (usually yesterday's close)
+  jzrq: string; // Net Value Date
+  gsz: string;  // Real-time Estimate
+  gszzl: string;
+  gztime: string; // Estimate Time
+}
+
+// Funds without an estimate (e.g. QDII) answer with an empty `jsonpgz();`
+export const parseFundEstimate = (text: string): FundData | null => {
+  const match = /jsonpgz\((\{[\s\S]*\})\)/.exec(text);
+  return match ? JSON.parse(match[1]) as FundData : null;
+};
+
+const fetchFundQuote = async (code: string): Promise<Quote | null> => {
+  const data = parseFundEstimate(await fetchText(`https://fundgz.1234567.com.cn/js/${code}.js?rt=${Date.now()}`));
+  if (!data || data.fundcode !== code) return null;
+
+  // Prioritize Real-time Estimate (gsz) if available and not empty, else use Net Value (dwjz)
+  const est = parseFloat(data.gsz);
+  const nav = parseFloat(data.dwjz);
+
+  // Logic: Use Estimate if valid, otherwise NAV
+  const isEstimateValid = !isNaN(est) && est > 0;
+  const currentPrice = isEstimateValid ? est : nav;
+  const yesterdayPrice = nav;
+  const priceDate = isEstimateValid ? data.gztime : data.jzrq;
+
+  return {
+    name: data.name,
+    currentPrice: isNaN(currentPrice) ? 0 : currentPrice,
+    yesterdayPrice: isNaN(yesterdayPrice) ? 0 : yesterdayPrice,
+    priceDate: priceDate,
+    priceStatus: isEstimateValid ? PriceStatus.ESTIMATE : PriceStatus.CONFIRMED
+  };
+};
+
+export const tiantianProvider: MarketDataProvider = {
+  id: 'tiantian',
+  name: '天天基金 (TianTian Fund)',
+  supports: (type) => type === AssetType.FUND,
+  getQuote: (code) => fetchFundQuote(code)
+};
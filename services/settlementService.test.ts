@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Currency, ProfitSharingAgreement } from '../types';
+import { ProfitSharingBasis, calculateProfitSharing } from './profitSharingService';
+import { carryHighWaterMark, canReopen, reopenSettlement, settlePeriod } from './settlementService';
+
+const agreement: ProfitSharingAgreement = {
+  id: 'a1',
+  name: 'Test',
+  scope: 'PORTFOLIO',
+  periodStart: '2024-01-01',
+  tiers: [{ threshold: 0, rate: 0.2 }],
+  highWaterMark: 0,
+  guaranteeRate: 0,
+  guaranteeCap: null
+};
+
+const basisOf = (startProfit: number, unrealized: number, realized: number): ProfitSharingBasis => ({
+  costBase: 10000,
+  profit: unrealized + realized - startProfit,
+  startProfit,
+  endBreakdown: { unrealized, realized, dividends: 0 },
+  missingStart: false,
+  missingStartRealized: false,
+  missingEnd: false
+});
+
+const settle = (current: ProfitSharingAgreement, basis: ProfitSharingBasis, paidAmount: number) => settlePeriod({
+  agreement: current,
+  basis,
+  result: calculateProfitSharing(current, basis),
+  periodEnd: '2024-12-31',
+  paidAmount,
+  scopeLabel: 'All',
+  baseCurrency: Currency.CNY,
+  settledAt: '2025-01-01T00:00:00.000Z'
+});
+
+describe('carryHighWaterMark', () => {
+  it('carries a loss until later profit recoups it', () => {
+    expect(carryHighWaterMark(0, -500, 0)).toBe(500);
+    expect(carryHighWaterMark(500, 200, 0)).toBe(300);
+    expect(carryHighWaterMark(500, 800, 0)).toBe(0);
+  });
+
+  it('does not carry a loss the guarantee made good', () => {
+    expect(carryHighWaterMark(0, -500, 500)).toBe(0);
+  });
+});
+
+describe('settlePeriod', () => {
+  it('opens the next period at the frozen total P/L', () => {
+    const { settlement, next } = settle(agreement, basisOf(0, 400, 600), 200);
+    expect(settlement.closingProfit).toBe(1000);
+    expect(settlement.closingBreakdown).toEqual({ unrealized: 400, realized: 600, dividends: 0 });
+    expect(next.openingProfit).toBe(1000);
+    expect(next.periodStart).toBe('2024-12-31');
+    expect(next.highWaterMark).toBe(0);
+  });
+
+  it('carries a loss as the next high-water mark', () => {
+    const { settlement, next } = settle(agreement, basisOf(1000, 300, 600), 0);
+    expect(settlement.profit).toBe(-100);
+    expect(next.highWaterMark).toBe(100);
+    expect(next.openingProfit).toBe(900);
+  });
+
+  it('does not count profit realized by a sale again in the next period', () => {
+    const first = settle(agreement, basisOf(0, 1000, 0), 200).next;
+    // The position is sold at the settled price: unrealized turns into realized, total unchanged
+    const { settlement } = settle(first, basisOf(first.openingProfit!, 0, 1000), 0);
+    expect(settlement.profit).toBe(0);
+    expect(settlement.shareAmount).toBe(0);
+  });
+
+  it('can be reopened while the next period is untouched', () => {
+    const { settlement, next } = settle({ ...agreement, highWaterMark: 50 }, basisOf(0, 400, 600), 190);
+    expect(canReopen(settlement, [settlement], next)).toBe(true);
+    expect(canReopen(settlement, [settlement], { ...next, openingProfit: 0 })).toBe(false);
+    const reopened = reopenSettlement(settlement, next);
+    expect(reopened.periodStart).toBe('2024-01-01');
+    expect(reopened.highWaterMark).toBe(50);
+  });
+});
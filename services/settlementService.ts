@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Currency, ProfitBreakdown, ProfitSharingAgreement, ProfitSharingSettlement, SettlementFrequency } from '../types';
+import { ProfitSharingBasis, ProfitSharingResult, describeGuarantee, formatPercent, getTotalProfit, sortTiers } from './profitSharingService';
+import { CURRENCY_SYMBOLS } from './fxService';
+
+export const FREQUENCY_LABELS: Record<SettlementFrequency, string> = {
+  QUARTERLY: '按季度 (Quarterly)',
+  ANNUAL: '按年度 (Annual)'
+};
+
+const QUARTER_ENDS = ['03-31', '06-30', '09-30', '12-31'];
+
+// The latest quarter or year end on or before today that still lies inside the period, otherwise today
+export const suggestPeriodEnd = (agreement: Pick<ProfitSharingAgreement, 'frequency' | 'periodStart' | 'periodEnd'>, today: string): string => {
+  const inPeriod = (date: string) => date <= today && (!agreement.periodStart || date > agreement.periodStart);
+  if (agreement.periodEnd && inPeriod(agreement.periodEnd)) return agreement.periodEnd;
+
+  const year = parseInt(today.slice(0, 4), 10);
+  const candidates = agreement.frequency === 'QUARTERLY'
+    ? [year, year - 1].flatMap(y => [...QUARTER_ENDS].reverse().map(md => `${y}-${md}`))
+    : agreement.frequency === 'ANNUAL' ? [`${year}-12-31`, `${year - 1}-12-31`] : [];
+  return candidates.find(inPeriod) || today;
+};
+
+// Loss the investor still has to recoup before the next period earns a share. A loss made good
+// by the guarantee is not carried.
+export const carryHighWaterMark = (highWaterMark: number, profit: number, guaranteePaid: number): number => {
+  return Math.max(Math.max(highWaterMark, 0) - profit - guaranteePaid, 0);
+};
+
+// Pure: freezes the period into a settlement and opens the next period at its end. The total P/L
+// (unrealized + realized) is carried, so profit realized by a sale is not counted again.
+export const settlePeriod = (params: {
+  agreement: ProfitSharingAgreement;
+  basis: ProfitSharingBasis;
+  result: ProfitSharingResult;
+  periodEnd: string;
+  paidAmount: number;
+  scopeLabel: string;
+  baseCurrency: Currency;
+  note?: string;
+  settledAt?: string;
+}): { settlement: ProfitSharingSettlement; next: ProfitSharingAgreement } => {
+  const { agreement, basis, result, periodEnd, paidAmount, scopeLabel, baseCurrency, note } = params;
+  const closingProfit = getTotalProfit(basis.endBreakdown);
+  const carriedHighWaterMark = carryHighWaterMark(agreement.highWaterMark, basis.profit, basis.profit < 0 ? paidAmount : 0);
+
+  const settlement: ProfitSharingSettlement = {
+    id: uuidv4(),
+    agreementId: agreement.id,
+    agreementName: agreement.name,
+    scopeLabel,
+    baseCurrency,
+    periodStart: agreement.periodStart,
+    periodEnd,
+    costBase: basis.costBase,
+    openingProfit: basis.startProfit,
+    closingProfit,
+    openingBreakdown: basis.startBreakdown,
+    closingBreakdown: basis.endBreakdown,
+    profit: basis.profit,
+    returnRate: result.returnRate,
+    tiers: sortTiers(agreement.tiers),
+    tierShares: result.tierShares,
+    highWaterMark: agreement.highWaterMark,
+    guaranteeRate: agreement.guaranteeRate,
+    guaranteeCap: agreement.guaranteeCap,
+    shareAmount: result.shareAmount,
+    guaranteeAmount: result.guaranteeAmount,
+    paidAmount,
+    carriedHighWaterMark,
+    note: note || undefined,
+    settledAt: params.settledAt || new Date().toISOString()
+  };
+
+  const next: ProfitSharingAgreement = {
+    ...agreement,
+    periodStart: periodEnd,
+    periodEnd: undefined,
+    openingProfit: closingProfit,
+    highWaterMark: carriedHighWaterMark
+  };
+
+  return { settlement, next };
+};
+
+// Only an agreement's latest settlement can be undone, and only while its next period is untouched
+export const canReopen = (settlement: ProfitSharingSettlement, settlements: ProfitSharingSettlement[], agreement?: ProfitSharingAgreement): boolean => {
+  if (!agreement || agreement.periodStart !== settlement.periodEnd || agreement.openingProfit !== settlement.closingProfit) return false;
+  return !settlements.some(s => s.agreementId === settlement.agreementId && s.settledAt > settlement.settledAt);
+};
+
+// Puts the agreement back into the period the settlement closed
+export const reopenSettlement = (settlement: ProfitSharingSettlement, agreement: ProfitSharingAgreement): ProfitSharingAgreement => ({
+  ...agreement,
+  periodStart: settlement.periodStart,
+  periodEnd: settlement.periodEnd,
+  openingProfit: settlement.openingProfit,
+  highWaterMark: settlement.highWaterMark
+});
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!
+));
+
+// A standalone, print-ready HTML document for the investor
+export const buildSettlementStatement = (settlement: ProfitSharingSettlement): string => {
+  const symbol = CURRENCY_SYMBOLS[settlement.baseCurrency];
+  const money = (value: number) => `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const row = (label: string, value: string) => `<tr><th>${label}</th><td>${value}</td></tr>`;
+  const breakdown = (parts?: ProfitBreakdown) => parts
+    ? `<br /><small>浮动 (Unrealized) ${money(parts.unrealized)} · 已实现 (Realized) ${money(parts.realized)} · 含分红 (Dividends) ${money(parts.dividends)}</small>`
+    : '';
+
+  const tierRows = settlement.tiers.map((tier, i) => {
+    const next = settlement.tiers[i + 1];
+    const band = next ? `${formatPercent(tier.threshold)} – ${formatPercent(next.threshold)}` : `&gt; ${formatPercent(tier.threshold)}`;
+    return `<tr><td>${band}</td><td>${formatPercent(tier.rate)}</td><td>${money(settlement.tierShares[i] || 0)}</td></tr>`;
+  }).join('');
+
+  const isLoss = settlement.profit < 0;
+  const title = '理财服务分成结算单 (Profit-sharing Settlement Statement)';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<title>${title} - ${escapeHtml(settlement.agreementName)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; margin: 32px; font-size: 13px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { color: #475569; margin-bottom: 20px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; }
+  th { background: #f1f5f9; font-weight: 500; width: 40%; }
+  .tiers th { width: auto; }
+  .total td { font-weight: 600; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 48px; }
+  .signatures div { width: 40%; border-top: 1px solid #0f172a; padding-top: 6px; color: #475569; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">
+  ${escapeHtml(settlement.agreementName)} · ${escapeHtml(settlement.scopeLabel)} ·
+  结算期间 (Period): ${settlement.periodStart || '建仓起 (Inception)'} – ${settlement.periodEnd} ·
+  币种 (Currency): ${settlement.baseCurrency}
+</div>
+<table>
+  ${row('成本 (Cost Base)', money(settlement.costBase))}
+  ${row('期初累计盈亏 (Opening P/L)', money(settlement.openingProfit) + breakdown(settlement.openingBreakdown))}
+  ${row('期末累计盈亏 (Closing P/L)', money(settlement.closingProfit) + breakdown(settlement.closingBreakdown))}
+  ${row('本期收益 (Period Profit)', `${money(settlement.profit)} (${(settlement.returnRate * 100).toFixed(2)}%)`)}
+  ${row('高水位 (High-water Mark)', money(settlement.highWaterMark))}
+</table>
+<table class="tiers">
+  <tr><th>收益区间 (Return Band)</th><th>提成比例 (Rate)</th><th>分成 (Share)</th></tr>
+  ${tierRows}
+  <tr class="total"><td colspan="2">分成金额 (Share Amount)</td><td>${money(settlement.shareAmount)}</td></tr>
+</table>
+<table>
+  ${row('兜底规则 (Guarantee)', escapeHtml(describeGuarantee(settlement)))}
+  ${row('兜底金额 (Guarantee Amount)', money(settlement.guaranteeAmount))}
+  ${row(isLoss ? '实付兜底 (Guarantee Paid to Investor)' : '实付分成 (Share Paid to Manager)', money(settlement.paidAmount))}
+  ${row('结转高水位 (Carried High-water Mark)', money(settlement.carriedHighWaterMark))}
+  ${settlement.note ? row('备注 (Note)', escapeHtml(settlement.note)) : ''}
+  ${row('结算时间 (Settled)', new Date(settlement.settledAt).toLocaleString('zh-CN', { hour12: false }))}
+</table>
+<div class="signatures">
+  <div>投资人签字 (Investor)</div>
+  <div>管理人签字 (Manager)</div>
+</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,109 @@
+import { Currency, FxRates, Holding, HoldingSnapshot, PortfolioSnapshot } from '../types';
+import { DEFAULT_FX_RATES } from './fxService';
+import { valueHolding } from './valuationService';
+
+export type SnapshotRange = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export interface EquityPoint {
+  date: string;
+  value: number;
+  cost: number;
+  returnRate: number; // Cumulative return in %
+}
+
+// yyyy-MM-dd in the browser's local timezone (toISOString would give the UTC day)
+export const toLocalDateString = (date: Date = new Date()): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Rows of closed positions only carry realized P/L and dividends
+export const isHeldRow = (row: HoldingSnapshot): boolean => row.marketValue > 0 || row.cost > 0;
+
+// Snapshots are stored in CNY so they stay comparable when the base currency changes
+export const buildSnapshot = (holdings: Holding[], rates: FxRates = DEFAULT_FX_RATES, date: string = toLocalDateString()): PortfolioSnapshot => {
+  const rows = holdings
+    .filter(h => h.quantity > 0 || h.realizedProfitLoss || h.dividendIncome)
+    .map(h => {
+      const valuation = valueHolding(h, rates, Currency.CNY);
+      return {
+        holdingId: h.id,
+        marketValue: valuation.marketValue,
+        cost: valuation.cost,
+        dayProfitLoss: valuation.dayProfitLoss,
+        realizedProfitLoss: valuation.realizedProfitLoss,
+        dividendIncome: valuation.dividendIncome
+      };
+    });
+
+  return {
+    date,
+    totalMarketValue: rows.reduce((acc, r) => acc + r.marketValue, 0),
+    totalCost: rows.reduce((acc, r) => acc + r.cost, 0),
+    totalDayProfitLoss: rows.reduce((acc, r) => acc + r.dayProfitLoss, 0),
+    holdings: rows,
+    updatedAt: new Date().toISOString()
+  };
+};
+
+// Narrows snapshots to a subset of holdings (one account), re-summing the totals; days on which
+// none of them was held are dropped
+export const filterSnapshots = (snapshots: PortfolioSnapshot[], holdingIds: Set<string>): PortfolioSnapshot[] => {
+  return snapshots
+    .map(snap => {
+      const rows = snap.holdings.filter(r => holdingIds.has(r.holdingId));
+      return {
+        ...snap,
+        totalMarketValue: rows.reduce((acc, r) => acc + r.marketValue, 0),
+        totalCost: rows.reduce((acc, r) => acc + r.cost, 0),
+        totalDayProfitLoss: rows.reduce((acc, r) => acc + r.dayProfitLoss, 0),
+        holdings: rows
+      };
+    })
+    .filter(snap => snap.holdings.some(isHeldRow));
+};
+
+// Inserts or replaces the snapshot of the same day, keeping the list sorted by date
+export const upsertSnapshot = (snapshots: PortfolioSnapshot[], snapshot: PortfolioSnapshot): PortfolioSnapshot[] => {
+  return [...snapshots.filter(s => s.date !== snapshot.date), snapshot]
+    .sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+};
+
+const getRangeStart = (range: SnapshotRange, today: Date): string | null => {
+  const start = new Date(today);
+  switch (range) {
+    case '1M':
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case '3M':
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case 'YTD':
+      start.setMonth(0, 1);
+      break;
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    case 'ALL':
+      return null;
+  }
+  return toLocalDateString(start);
+};
+
+export const filterSnapshotsByRange = (snapshots: PortfolioSnapshot[], range: SnapshotRange, today: Date = new Date()): PortfolioSnapshot[] => {
+  const start = getRangeStart(range, today);
+  return start ? snapshots.filter(s => s.date >= start) : snapshots;
+};
+
+// Value curve plus cumulative return (unrealized P/L over cost) for charting,
+// converted from CNY at `cnyPerUnit` of the display currency
+export const toEquityCurve = (snapshots: PortfolioSnapshot[], cnyPerUnit: number = 1): EquityPoint[] => {
+  return snapshots.map(s => ({
+    date: s.date,
+    value: s.totalMarketValue / cnyPerUnit,
+    cost: s.totalCost / cnyPerUnit,
+    returnRate: s.totalCost > 0 ? ((s.totalMarketValue - s.totalCost) / s.totalCost) * 100 : 0
+  }));
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Market } from '../types';
+import { parseStockCode } from './stockCodes';
+
+describe('parseStockCode', () => {
+  it('infers the exchange of bare A-share codes', () => {
+    expect(parseStockCode('600519')).toEqual({ code: '600519', market: Market.SH });
+    expect(parseStockCode('000001')).toEqual({ code: '000001', market: Market.SZ });
+    expect(parseStockCode('830799')).toEqual({ code: '830799', market: Market.BJ });
+    expect(parseStockCode('920118')).toEqual({ code: '920118', market: Market.BJ });
+    expect(parseStockCode('900901')).toEqual({ code: '900901', market: Market.SH });
+  });
+
+  it('pads short numeric codes as Hong Kong stocks', () => {
+    expect(parseStockCode('700')).toEqual({ code: '00700', market: Market.HK });
+    expect(parseStockCode('0700.HK')).toEqual({ code: '00700', market: Market.HK });
+  });
+
+  it('accepts suffixed and Sina-style prefixed codes', () => {
+    expect(parseStockCode('600519.SS')).toEqual({ code: '600519', market: Market.SH });
+    expect(parseStockCode('sz000001')).toEqual({ code: '000001', market: Market.SZ });
+    expect(parseStockCode('hk00700')).toEqual({ code: '00700', market: Market.HK });
+    expect(parseStockCode('gb_aapl')).toEqual({ code: 'AAPL', market: Market.US });
+  });
+
+  it('reads tickers that start like a prefix as US stocks', () => {
+    expect(parseStockCode('SHOP')).toEqual({ code: 'SHOP', market: Market.US });
+    expect(parseStockCode('brk.b')).toEqual({ code: 'BRK.B', market: Market.US });
+  });
+
+  it('rejects codes that do not fit the market', () => {
+    expect(parseStockCode('12345.SH')).toBeNull();
+    expect(parseStockCode('')).toBeNull();
+  });
+});
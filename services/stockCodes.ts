@@ -0,0 +1,80 @@
+import { AssetType, Currency, Holding, Market } from '../types';
+
+export interface ParsedStockCode {
+  code: string; // Canonical: 6 digits (A-share), 5 digits (HK), upper-case ticker (US)
+  market: Market;
+}
+
+const SUFFIX_MARKETS: Record<string, Market> = {
+  SH: Market.SH,
+  SS: Market.SH, // Yahoo style
+  SZ: Market.SZ,
+  BJ: Market.BJ,
+  HK: Market.HK,
+  US: Market.US
+};
+
+// First-digit heuristic for bare A-share codes; Beijing's new 920 range comes before Shanghai's 9
+export const inferAShareMarket = (code: string): Market => {
+  if (code.startsWith('920')) return Market.BJ;
+  if (code.startsWith('6') || code.startsWith('9') || code.startsWith('5')) return Market.SH;
+  if (code.startsWith('8') || code.startsWith('4')) return Market.BJ;
+  return Market.SZ;
+};
+
+const normalize = (code: string, market: Market): ParsedStockCode | null => {
+  switch (market) {
+    case Market.SH:
+    case Market.SZ:
+    case Market.BJ:
+      return /^\d{6}$/.test(code) ? { code, market } : null;
+    case Market.HK:
+      return /^\d{1,5}$/.test(code) ? { code: code.padStart(5, '0'), market } : null;
+    case Market.US:
+      return /^[A-Z][A-Z0-9.\-]*$/i.test(code) ? { code: code.toUpperCase(), market } : null;
+  }
+};
+
+// Accepts bare codes (600519, 700, AAPL), suffixed codes (600519.SH, 0700.HK, AAPL.US)
+// and Sina-style prefixed symbols (sh600519, hk00700, gb_aapl)
+export const parseStockCode = (input: string): ParsedStockCode | null => {
+  const value = input.trim();
+  if (!value) return null;
+
+  const suffixed = /^(.+)\.([A-Za-z]{2})$/.exec(value);
+  if (suffixed && SUFFIX_MARKETS[suffixed[2].toUpperCase()]) {
+    return normalize(suffixed[1], SUFFIX_MARKETS[suffixed[2].toUpperCase()]);
+  }
+
+  // A non-matching prefix is not an error: "SHOP" is a US ticker, not Shanghai "OP"
+  const prefixed = /^(sh|sz|bj|hk|gb_)(.+)$/i.exec(value);
+  if (prefixed) {
+    const prefix = prefixed[1].toLowerCase();
+    const market = prefix === 'gb_' ? Market.US : SUFFIX_MARKETS[prefix.toUpperCase()];
+    const parsed = normalize(prefixed[2], market);
+    if (parsed) return parsed;
+  }
+
+  if (/^\d{6}$/.test(value)) return { code: value, market: inferAShareMarket(value) };
+  if (/^\d{1,5}$/.test(value)) return normalize(value, Market.HK);
+  return normalize(value, Market.US);
+};
+
+export const getMarketCurrency = (market: Market): Currency => {
+  switch (market) {
+    case Market.HK:
+      return Currency.HKD;
+    case Market.US:
+      return Currency.USD;
+    default:
+      return Currency.CNY;
+  }
+};
+
+export const formatStockCode = (code: string, market: Market): string => `${code}.${market}`;
+
+// Code handed to the market data providers: stocks carry their market so the provider does not
+// have to guess; funds and legacy A-share holdings use the bare code
+export const getQuoteCode = (holding: Pick<Holding, 'code' | 'type' | 'market'>): string => {
+  return holding.type === AssetType.STOCK && holding.market ? formatStockCode(holding.code, holding.market) : holding.code;
+};
@@ -1,9 +1,34 @@
 
-import { Holding } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Account, AlertEvent, AlertRule, CostMethod, Currency, Holding, PortfolioSettings, PortfolioSnapshot, PriceHistoryCacheEntry, Transaction, WatchlistItem } from '../types';
 import { db } from './firebase';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, setDoc, writeBatch } from 'firebase/firestore';
+import { DEFAULT_FEE_SCHEDULES } from './feeService';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNTS } from './accountService';
+import { DEFAULT_PROFIT_SHARING } from './profitSharingService';
 
 const STORAGE_KEY = 'wealthtrack_holdings_v1';
+const TRANSACTIONS_KEY = 'wealthtrack_transactions_v1';
+const SETTINGS_KEY = 'wealthtrack_settings_v1';
+const SNAPSHOTS_KEY = 'wealthtrack_snapshots_v1';
+const HISTORY_CACHE_KEY = 'wealthtrack_price_history_v1';
+const ACCOUNTS_KEY = 'wealthtrack_accounts_v1';
+const ACTIVE_ACCOUNT_KEY = 'wealthtrack_active_account_v1';
+const DEVICE_ID_KEY = 'wealthtrack_device_id_v1';
+const LOCAL_OWNER_KEY = 'wealthtrack_local_owner_v1';
+const ALERT_RULES_KEY = 'wealthtrack_alert_rules_v1';
+const ALERT_HISTORY_KEY = 'wealthtrack_alert_history_v1';
+const WATCHLIST_KEY = 'wealthtrack_watchlist_v1';
+
+export const DEFAULT_SETTINGS: PortfolioSettings = {
+  costMethod: CostMethod.AVERAGE,
+  autoRefresh: true,
+  refreshIntervalSec: 60,
+  baseCurrency: Currency.CNY,
+  feeSchedules: DEFAULT_FEE_SCHEDULES,
+  profitSharing: DEFAULT_PROFIT_SHARING,
+  profitSharingSettlements: []
+};
 
 // --- Local Storage (Guest Mode) ---
 
@@ -25,8 +50,263 @@ export const saveHoldings = (holdings: Holding[]): void => {
   }
 };
 
+export const getTransactions = (): Transaction[] => {
+  try {
+    const data = localStorage.getItem(TRANSACTIONS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load local transactions', e);
+    return [];
+  }
+};
+
+export const saveTransactions = (transactions: Transaction[]): void => {
+  try {
+    localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(transactions));
+  } catch (e) {
+    console.error('Failed to save local transactions', e);
+  }
+};
+
+export const getSettings = (): PortfolioSettings => {
+  try {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.error('Failed to load local settings', e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: PortfolioSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save local settings', e);
+  }
+};
+
+export const getSnapshots = (): PortfolioSnapshot[] => {
+  try {
+    const data = localStorage.getItem(SNAPSHOTS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load local snapshots', e);
+    return [];
+  }
+};
+
+export const saveSnapshots = (snapshots: PortfolioSnapshot[]): void => {
+  try {
+    localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+  } catch (e) {
+    console.error('Failed to save local snapshots', e);
+  }
+};
+
+export const getAccounts = (): Account[] => {
+  try {
+    const data = localStorage.getItem(ACCOUNTS_KEY);
+    return data ? JSON.parse(data) : DEFAULT_ACCOUNTS;
+  } catch (e) {
+    console.error('Failed to load local accounts', e);
+    return DEFAULT_ACCOUNTS;
+  }
+};
+
+export const saveAccounts = (accounts: Account[]): void => {
+  try {
+    localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  } catch (e) {
+    console.error('Failed to save local accounts', e);
+  }
+};
+
+export const getAlertRules = (): AlertRule[] => {
+  try {
+    const data = localStorage.getItem(ALERT_RULES_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load local alert rules', e);
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]): void => {
+  try {
+    localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error('Failed to save local alert rules', e);
+  }
+};
+
+// Fired alerts are a per-device log and are never synced
+export const getAlertHistory = (): AlertEvent[] => {
+  try {
+    const data = localStorage.getItem(ALERT_HISTORY_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load alert history', e);
+    return [];
+  }
+};
+
+export const saveAlertHistory = (events: AlertEvent[]): void => {
+  try {
+    localStorage.setItem(ALERT_HISTORY_KEY, JSON.stringify(events));
+  } catch (e) {
+    console.error('Failed to save alert history', e);
+  }
+};
+
+export const getWatchlist = (): WatchlistItem[] => {
+  try {
+    const data = localStorage.getItem(WATCHLIST_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('Failed to load local watchlist', e);
+    return [];
+  }
+};
+
+export const saveWatchlist = (items: WatchlistItem[]): void => {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(items));
+  } catch (e) {
+    console.error('Failed to save local watchlist', e);
+  }
+};
+
+// The account shown on screen is a per-device view choice and is never synced
+export const getActiveAccountId = (): string => {
+  return localStorage.getItem(ACTIVE_ACCOUNT_KEY) || ALL_ACCOUNTS;
+};
+
+export const saveActiveAccountId = (accountId: string): void => {
+  try {
+    localStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
+  } catch (e) {
+    console.error('Failed to save active account', e);
+  }
+};
+
+// Whose data the local copy holds: a user id while it mirrors that user's cloud portfolio, absent for guest work
+export const getLocalOwner = (): string | null => {
+  return localStorage.getItem(LOCAL_OWNER_KEY);
+};
+
+export const saveLocalOwner = (userId: string | null): void => {
+  try {
+    if (userId) localStorage.setItem(LOCAL_OWNER_KEY, userId);
+    else localStorage.removeItem(LOCAL_OWNER_KEY);
+  } catch (e) {
+    console.error('Failed to save local data owner', e);
+  }
+};
+
+// Identifies this browser as the author of cloud writes, so sync can tell its own edits from other devices'
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = uuidv4();
+    try {
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    } catch (e) {
+      console.error('Failed to save device id', e);
+    }
+  }
+  return id;
+};
+
+// Price history is a pure cache (keyed by `${type}:${code}`) and never synced to the cloud
+export const getPriceHistoryCache = (): Record<string, PriceHistoryCacheEntry> => {
+  try {
+    const data = localStorage.getItem(HISTORY_CACHE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (e) {
+    console.error('Failed to load price history cache', e);
+    return {};
+  }
+};
+
+const isQuotaExceeded = (e: unknown): boolean => {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+// When storage is full the largest entries other than `keep` (the one just fetched) are evicted until
+// the cache fits; everything in it can be fetched again
+export const savePriceHistoryCache = (cache: Record<string, PriceHistoryCacheEntry>, keep?: string): void => {
+  const entries = { ...cache };
+  const evictable = Object.keys(entries)
+    .filter(key => key !== keep)
+    .sort((a, b) => entries[b].points.length - entries[a].points.length);
+
+  for (;;) {
+    try {
+      localStorage.setItem(HISTORY_CACHE_KEY, JSON.stringify(entries));
+      return;
+    } catch (e) {
+      if (!isQuotaExceeded(e)) {
+        console.error('Failed to save price history cache', e);
+        return;
+      }
+      const evict = evictable.shift();
+      if (!evict) {
+        console.warn('Price history cache does not fit in local storage; it is not kept');
+        localStorage.removeItem(HISTORY_CACHE_KEY);
+        return;
+      }
+      delete entries[evict];
+    }
+  }
+};
+
+// --- IndexedDB (Cloud sync outbox) ---
+
+// The sync engine's copy of the cloud data plus the edits not yet written to it, one record per user.
+// IndexedDB rather than localStorage so a long offline session cannot hit the 5 MB quota.
+const SYNC_DB_NAME = 'wealthtrack_sync';
+const SYNC_STORE = 'state';
+
+const openSyncDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(SYNC_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(SYNC_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const getSyncCache = async <T>(userId: string): Promise<T | null> => {
+  try {
+    const idb = await openSyncDb();
+    return await new Promise<T | null>((resolve, reject) => {
+      const request = idb.transaction(SYNC_STORE, 'readonly').objectStore(SYNC_STORE).get(userId);
+      request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.error('Failed to load sync outbox', e);
+    return null;
+  }
+};
+
+export const saveSyncCache = async <T>(userId: string, cache: T): Promise<void> => {
+  try {
+    const idb = await openSyncDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = idb.transaction(SYNC_STORE, 'readwrite');
+      tx.objectStore(SYNC_STORE).put(cache, userId);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error('Failed to save sync outbox', e);
+  }
+};
+
 // --- Cloud Storage (Authenticated Mode) ---
 
+// Holdings and transactions used to be arrays in the portfolio document. They now live one
+// document each (see syncService); these readers are only used to migrate old accounts.
 export const getUserHoldings = async (userId: string): Promise<Holding[] | null> => {
   if (!db) {
     console.warn("Firestore not initialized.");
@@ -37,7 +317,7 @@ export const getUserHoldings = async (userId: string): Promise<Holding[] | null>
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
-      return docSnap.data().holdings as Holding[];
+      return (docSnap.data().holdings as Holding[] | undefined) || null;
     } else {
       return null; // Indicates no cloud data found (new user or first sync)
     }
@@ -47,19 +327,222 @@ export const getUserHoldings = async (userId: string): Promise<Holding[] | null>
   }
 };
 
-export const saveUserHoldings = async (userId: string, holdings: Holding[]): Promise<void> => {
+export const getUserTransactions = async (userId: string): Promise<Transaction[] | null> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return null;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    const docSnap = await getDoc(docRef);
+
+    if (docSnap.exists()) {
+      return (docSnap.data().transactions as Transaction[] | undefined) || null;
+    } else {
+      return null;
+    }
+  } catch (e) {
+    console.error('Failed to fetch cloud transactions', e);
+    throw e;
+  }
+};
+
+export const getUserSettings = async (userId: string): Promise<PortfolioSettings | null> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return null;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    const docSnap = await getDoc(docRef);
+    const settings = docSnap.exists() ? docSnap.data().settings as Partial<PortfolioSettings> | undefined : undefined;
+    return settings ? { ...DEFAULT_SETTINGS, ...settings } : null;
+  } catch (e) {
+    console.error('Failed to fetch cloud settings', e);
+    throw e;
+  }
+};
+
+export const saveUserSettings = async (userId: string, settings: PortfolioSettings): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    await setDoc(docRef, {
+      settings,
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+  } catch (e) {
+    console.error('Failed to save cloud settings', e);
+    throw e;
+  }
+};
+
+export const getUserAccounts = async (userId: string): Promise<Account[] | null> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return null;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    const docSnap = await getDoc(docRef);
+    return docSnap.exists() ? (docSnap.data().accounts as Account[] | undefined) || null : null;
+  } catch (e) {
+    console.error('Failed to fetch cloud accounts', e);
+    throw e;
+  }
+};
+
+export const saveUserAccounts = async (userId: string, accounts: Account[]): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    await setDoc(docRef, {
+      accounts,
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+  } catch (e) {
+    console.error('Failed to save cloud accounts', e);
+    throw e;
+  }
+};
+
+export const getUserAlertRules = async (userId: string): Promise<AlertRule[] | null> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return null;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    const docSnap = await getDoc(docRef);
+    return docSnap.exists() ? (docSnap.data().alertRules as AlertRule[] | undefined) || null : null;
+  } catch (e) {
+    console.error('Failed to fetch cloud alert rules', e);
+    throw e;
+  }
+};
+
+export const saveUserAlertRules = async (userId: string, rules: AlertRule[]): Promise<void> => {
   if (!db) {
     console.warn("Firestore not initialized.");
     return;
   }
   try {
     const docRef = doc(db, 'portfolios', userId);
-    await setDoc(docRef, { 
-      holdings,
+    await setDoc(docRef, {
+      alertRules: rules,
       updatedAt: new Date().toISOString()
     }, { merge: true });
   } catch (e) {
-    console.error('Failed to save cloud holdings', e);
+    console.error('Failed to save cloud alert rules', e);
+    throw e;
+  }
+};
+
+export const getUserWatchlist = async (userId: string): Promise<WatchlistItem[] | null> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return null;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    const docSnap = await getDoc(docRef);
+    return docSnap.exists() ? (docSnap.data().watchlist as WatchlistItem[] | undefined) || null : null;
+  } catch (e) {
+    console.error('Failed to fetch cloud watchlist', e);
+    throw e;
+  }
+};
+
+export const saveUserWatchlist = async (userId: string, items: WatchlistItem[]): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId);
+    await setDoc(docRef, {
+      watchlist: items,
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+  } catch (e) {
+    console.error('Failed to save cloud watchlist', e);
+    throw e;
+  }
+};
+
+// Snapshots grow daily, so they are kept one document per day under portfolios/{uid}/snapshots
+export const getUserSnapshots = async (userId: string): Promise<PortfolioSnapshot[]> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return [];
+  }
+  try {
+    const querySnap = await getDocs(collection(db, 'portfolios', userId, 'snapshots'));
+    return querySnap.docs
+      .map(d => d.data() as PortfolioSnapshot)
+      .sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+  } catch (e) {
+    console.error('Failed to fetch cloud snapshots', e);
+    throw e;
+  }
+};
+
+export const saveUserSnapshot = async (userId: string, snapshot: PortfolioSnapshot): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    const docRef = doc(db, 'portfolios', userId, 'snapshots', snapshot.date);
+    await setDoc(docRef, snapshot);
+  } catch (e) {
+    console.error('Failed to save cloud snapshot', e);
+    throw e;
+  }
+};
+
+// Bulk write used by history backfill; Firestore batches are capped at 500 operations
+export const saveUserSnapshots = async (userId: string, snapshots: PortfolioSnapshot[]): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    for (let i = 0; i < snapshots.length; i += 400) {
+      const batch = writeBatch(db);
+      snapshots.slice(i, i + 400).forEach(snapshot => {
+        batch.set(doc(db!, 'portfolios', userId, 'snapshots', snapshot.date), snapshot);
+      });
+      await batch.commit();
+    }
+  } catch (e) {
+    console.error('Failed to save cloud snapshots', e);
+    throw e;
+  }
+};
+
+// Used by a replacing restore, so days missing from the backup do not linger in the cloud
+export const deleteUserSnapshots = async (userId: string, dates: string[]): Promise<void> => {
+  if (!db) {
+    console.warn("Firestore not initialized.");
+    return;
+  }
+  try {
+    for (let i = 0; i < dates.length; i += 400) {
+      const batch = writeBatch(db);
+      dates.slice(i, i + 400).forEach(date => {
+        batch.delete(doc(db!, 'portfolios', userId, 'snapshots', date));
+      });
+      await batch.commit();
+    }
+  } catch (e) {
+    console.error('Failed to delete cloud snapshots', e);
     throw e;
   }
 };
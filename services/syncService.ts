@@ -0,0 +1,595 @@
+import { QuerySnapshot, Unsubscribe, collection, deleteField, doc, getDocs, onSnapshot, runTransaction, updateDoc, writeBatch } from 'firebase/firestore';
+import { Account, AlertRule, Holding, PortfolioSettings, Transaction, WatchlistItem } from '../types';
+import { db } from './firebase';
+import { getSyncCache, getUserHoldings, getUserTransactions, saveSyncCache } from './storageService';
+
+// Fields rewritten by every device on quote refreshes and ledger re-derivation. Concurrent
+// writes to them are resolved by last-writer-wins without asking the user.
+const SILENT_FIELDS = new Set<string>([
+  'buyDate', 'buyPrice', 'quantity', 'currentPrice', 'yesterdayPrice', 'priceDate', 'priceStatus',
+  'realizedProfitLoss', 'dividendIncome', 'costFxRate', 'feesPaid', 'realizedFxBooked', 'dividendFxBooked'
+]);
+
+// Bookkeeping stored alongside each holding document's fields
+interface SyncMeta {
+  _fieldTimes: Record<string, number>; // Client time (ms) of each field's last write
+  _updatedBy: string; // Device id of the last writer
+}
+
+type CloudHolding = Holding & SyncMeta;
+
+export interface SyncConflict {
+  id: string;
+  holdingId: string;
+  holdingName: string;
+  field: string; // A Holding field, or 'deleted' when another device removed the holding
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: 'local' | 'remote'; // Whose value is in the cloud now
+  restore?: { holding: Holding; transactions: Transaction[] }; // This device's copy of a deleted holding
+}
+
+// Local edits of one holding that the cloud has not confirmed yet
+interface PendingHolding {
+  changes: Record<string, unknown>;
+  times: Record<string, number>;
+  baseTimes: Record<string, number>; // Cloud field times the edit was made against
+  isNew: boolean; // Created on this device, so a missing document is not a remote delete
+  deleted: boolean;
+}
+
+// What the cloud side looks like from this device
+export type SyncState = 'synced' | 'pending' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Holdings and ledger entries waiting to be written
+  error?: string;
+}
+
+// Persisted per user so edits survive a reload while offline
+interface SyncCache {
+  holdings: CloudHolding[];
+  transactions: Transaction[];
+  pendingHoldings: Array<[string, PendingHolding]>;
+  pendingTransactions: Array<[string, Transaction | null]>;
+  clearLegacy?: boolean; // The old portfolio arrays are still on the user document
+}
+
+export interface PortfolioSyncOptions {
+  userId: string;
+  deviceId: string;
+  onRemoteChange: (holdings: Holding[], transactions: Transaction[]) => void;
+  onConflicts: (conflicts: SyncConflict[]) => void;
+  onRemoteSettings: (settings: PortfolioSettings) => void;
+  onRemoteAccounts: (accounts: Account[]) => void;
+  onRemoteAlertRules: (rules: AlertRule[]) => void;
+  onRemoteWatchlist: (items: WatchlistItem[]) => void;
+  onStatus: (status: SyncStatus) => void;
+}
+
+export interface PortfolioSync {
+  // Loads the cloud portfolio (migrating the old single-document layout) and starts listening.
+  // Offline it starts from the cached copy and queued edits; null when the user has no data yet.
+  start: () => Promise<{ holdings: Holding[]; transactions: Transaction[] } | null>;
+  // The full portfolio as the app sees it; holdings and entries missing from it are deleted
+  save: (holdings: Holding[], transactions: Transaction[]) => Promise<void>;
+  // Price / derived-field updates for known holdings; never creates or deletes anything
+  update: (holdings: Holding[]) => Promise<void>;
+  resolveConflict: (conflict: SyncConflict, keep: 'local' | 'remote') => Promise<void>;
+  retry: () => Promise<void>;
+  stop: () => void;
+}
+
+// Key order differs between documents read from Firestore and objects built by the app
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_, v) => (
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : v
+));
+
+const sameValue = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+const sameView = (a: { holdings: Holding[]; transactions: Transaction[] }, b: { holdings: Holding[]; transactions: Transaction[] }) => {
+  const byId = (x: { id: string }, y: { id: string }) => (x.id < y.id ? -1 : x.id > y.id ? 1 : 0);
+  return sameValue([...a.holdings].sort(byId), [...b.holdings].sort(byId))
+    && sameValue([...a.transactions].sort(byId), [...b.transactions].sort(byId));
+};
+
+const stripMeta = ({ _fieldTimes, _updatedBy, ...holding }: CloudHolding): Holding => holding;
+
+// Holding fields are addressed by name when diffing and merging
+const getField = (holding: Holding, field: string): unknown => {
+  const fields: Record<string, unknown> = { ...holding };
+  return fields[field];
+};
+
+// Keeps holdings and transactions in per-document collections under portfolios/{uid}, live across devices.
+// Each holding field carries its own write time, so two devices editing different fields both keep
+// their change, and the later write wins when they edit the same one.
+export const createPortfolioSync = ({
+  userId,
+  deviceId,
+  onRemoteChange,
+  onConflicts,
+  onRemoteSettings,
+  onRemoteAccounts,
+  onRemoteAlertRules,
+  onRemoteWatchlist,
+  onStatus
+}: PortfolioSyncOptions): PortfolioSync => {
+  const remoteHoldings = new Map<string, CloudHolding>();
+  const remoteTransactions = new Map<string, Transaction>();
+  const pendingHoldings = new Map<string, PendingHolding>();
+  const pendingTransactions = new Map<string, Transaction | null>(); // null deletes
+  let order: string[] = [];
+  let known: { holdings: Holding[]; transactions: Transaction[] } = { holdings: [], transactions: [] };
+  let unsubscribers: Unsubscribe[] = [];
+  let queue: Promise<void> = Promise.resolve();
+  let lastError: string | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = 0;
+  let clearLegacy = false;
+
+  const holdingRef = (id: string) => doc(db!, 'portfolios', userId, 'holdings', id);
+  const transactionRef = (id: string) => doc(db!, 'portfolios', userId, 'transactions', id);
+
+  // Cloud state with the unconfirmed local edits laid on top
+  const buildView = () => {
+    const holdings = new Map<string, Holding>();
+    remoteHoldings.forEach((h, id) => holdings.set(id, stripMeta(h)));
+    pendingHoldings.forEach((p, id) => {
+      const base = holdings.get(id);
+      if (p.deleted) holdings.delete(id);
+      else if (base || p.isNew) holdings.set(id, { ...base, ...p.changes } as Holding);
+    });
+
+    const transactions = new Map(remoteTransactions);
+    pendingTransactions.forEach((t, id) => (t ? transactions.set(id, t) : transactions.delete(id)));
+
+    const rank = (id: string) => {
+      const i = order.indexOf(id);
+      return i === -1 ? order.length : i;
+    };
+    return {
+      holdings: [...holdings.values()].sort((a, b) => rank(a.id) - rank(b.id)),
+      transactions: [...transactions.values()]
+    };
+  };
+
+  const persist = () => {
+    saveSyncCache<SyncCache>(userId, {
+      holdings: [...remoteHoldings.values()],
+      transactions: [...remoteTransactions.values()],
+      pendingHoldings: [...pendingHoldings],
+      pendingTransactions: [...pendingTransactions],
+      clearLegacy
+    });
+  };
+
+  const emitStatus = () => {
+    const pending = pendingHoldings.size + pendingTransactions.size;
+    let state: SyncState = 'synced';
+    if (pending > 0 && !navigator.onLine) state = 'offline';
+    else if (lastError) state = 'error';
+    else if (pending > 0) state = 'pending';
+    onStatus({ state, pending, error: lastError || undefined });
+  };
+
+  const publish = () => {
+    const view = buildView();
+    if (sameView(view, known)) return;
+    known = view;
+    order = view.holdings.map(h => h.id);
+    onRemoteChange(view.holdings, view.transactions);
+  };
+
+  const recordHoldings = (holdings: Holding[], prune: boolean) => {
+    const now = Date.now();
+    const previous = new Map(known.holdings.map(h => [h.id, h]));
+
+    holdings.forEach(h => {
+      const prev = previous.get(h.id);
+      if (!prev && !prune) return;
+
+      const fields = prev
+        ? [...new Set([...Object.keys(prev), ...Object.keys(h)])].filter(f => !sameValue(getField(prev, f), getField(h, f)))
+        : Object.keys(h);
+      if (fields.length === 0) return;
+
+      const entry = pendingHoldings.get(h.id);
+      const next: PendingHolding = entry && !entry.deleted
+        ? entry
+        : { changes: {}, times: {}, baseTimes: {}, isNew: !remoteHoldings.has(h.id), deleted: false };
+      const remoteTimes = remoteHoldings.get(h.id)?._fieldTimes || {};
+      fields.forEach(f => {
+        if (!(f in next.times)) next.baseTimes[f] = remoteTimes[f] ?? 0;
+        next.changes[f] = getField(h, f);
+        next.times[f] = now;
+      });
+      pendingHoldings.set(h.id, next);
+    });
+
+    if (prune) {
+      const ids = new Set(holdings.map(h => h.id));
+      previous.forEach((_, id) => {
+        if (!ids.has(id)) pendingHoldings.set(id, { changes: {}, times: {}, baseTimes: {}, isNew: false, deleted: true });
+      });
+      order = holdings.map(h => h.id);
+    }
+  };
+
+  const recordTransactions = (transactions: Transaction[]) => {
+    const previous = new Map(known.transactions.map(t => [t.id, t]));
+    const ids = new Set(transactions.map(t => t.id));
+    transactions.forEach(t => {
+      if (!sameValue(previous.get(t.id), t)) pendingTransactions.set(t.id, t);
+    });
+    previous.forEach((_, id) => {
+      if (!ids.has(id)) pendingTransactions.set(id, null);
+    });
+  };
+
+  const writeTransactions = async () => {
+    const entries = [...pendingTransactions];
+    for (let i = 0; i < entries.length; i += 400) {
+      const batch = writeBatch(db!);
+      entries.slice(i, i + 400).forEach(([id, t]) => (t ? batch.set(transactionRef(id), t) : batch.delete(transactionRef(id))));
+      await batch.commit();
+    }
+    entries.forEach(([id, t]) => {
+      if (pendingTransactions.get(id) === t) pendingTransactions.delete(id);
+      if (t) remoteTransactions.set(id, t);
+      else remoteTransactions.delete(id);
+    });
+  };
+
+  const writeHolding = async (id: string, entry: PendingHolding): Promise<SyncConflict[]> => {
+    // The entry may be edited again while the transaction runs, so work on a copy
+    const { deleted, isNew } = entry;
+    const changes = { ...entry.changes };
+    const times = { ...entry.times };
+    const baseTimes = { ...entry.baseTimes };
+    let committed: Record<string, number> = {};
+    let lost: Record<string, { value: unknown; time: number }> = {};
+    let remoteDeleted = false;
+
+    const conflicts = await runTransaction(db!, async tx => {
+      committed = {};
+      lost = {};
+      remoteDeleted = false;
+      const snap = await tx.get(holdingRef(id));
+      const stored = snap.exists() ? (snap.data() as CloudHolding) : null;
+
+      if (deleted) {
+        if (stored) tx.delete(holdingRef(id));
+        return [];
+      }
+      if (!stored && !isNew) {
+        remoteDeleted = true;
+        const holding = known.holdings.find(h => h.id === id);
+        const name = (changes.name as string) || holding?.name || id;
+        return [{
+          id: `${id}:deleted`,
+          holdingId: id,
+          holdingName: name,
+          field: 'deleted',
+          localValue: name,
+          remoteValue: null,
+          winner: 'remote' as const,
+          restore: holding && { holding, transactions: known.transactions.filter(t => t.holdingId === id) }
+        }];
+      }
+
+      const found: SyncConflict[] = [];
+      const update: Record<string, unknown> = {};
+      Object.keys(times).forEach(f => {
+        const value = changes[f];
+        const storedTime = stored?._fieldTimes?.[f] ?? 0;
+        const storedValue = stored ? getField(stored, f) : undefined;
+
+        // Another device wrote this field after the value this edit was based on
+        if (storedTime !== baseTimes[f] && !sameValue(storedValue, value)) {
+          const winner = times[f] > storedTime ? 'local' : 'remote';
+          if (!SILENT_FIELDS.has(f)) {
+            found.push({
+              id: `${id}:${f}`,
+              holdingId: id,
+              holdingName: (stored?.name || changes.name || id) as string,
+              field: f,
+              localValue: value,
+              remoteValue: storedValue,
+              winner
+            });
+          }
+          if (winner === 'remote') {
+            lost[f] = { value: storedValue, time: storedTime };
+            return;
+          }
+        }
+
+        if (value !== undefined) update[f] = value;
+        else if (stored) update[f] = deleteField();
+        committed[f] = times[f];
+      });
+
+      if (Object.keys(committed).length > 0) {
+        tx.set(holdingRef(id), { ...update, _fieldTimes: committed, _updatedBy: deviceId }, { merge: true });
+      }
+      return found;
+    });
+
+    // Forget what was written or lost, unless the field was edited again meanwhile
+    const current = pendingHoldings.get(id);
+    if (current && current.deleted === deleted) {
+      if (deleted || remoteDeleted) {
+        pendingHoldings.delete(id);
+      } else {
+        Object.keys(times).forEach(f => {
+          if (current.times[f] === times[f]) {
+            delete current.changes[f];
+            delete current.times[f];
+            delete current.baseTimes[f];
+          } else if (f in committed) {
+            current.baseTimes[f] = committed[f];
+          }
+        });
+        current.isNew = false;
+        if (Object.keys(current.times).length === 0) pendingHoldings.delete(id);
+      }
+    }
+
+    // Mirror what the cloud now holds until the listener delivers it
+    if (deleted || remoteDeleted) {
+      remoteHoldings.delete(id);
+    } else if (Object.keys(committed).length > 0 || Object.keys(lost).length > 0) {
+      const stored = remoteHoldings.get(id);
+      const fields = { ...stored } as Record<string, unknown>;
+      const fieldTimes = { ...stored?._fieldTimes };
+      Object.keys(committed).forEach(f => {
+        fields[f] = changes[f];
+        fieldTimes[f] = committed[f];
+      });
+      Object.keys(lost).forEach(f => {
+        fields[f] = lost[f].value;
+        fieldTimes[f] = lost[f].time;
+      });
+      remoteHoldings.set(id, { ...fields, _fieldTimes: fieldTimes, _updatedBy: deviceId } as CloudHolding);
+    }
+    return conflicts;
+  };
+
+  // Ledger entries of holdings that are gone from the cloud are deleted along with them
+  const dropLedgers = (holdingIds: Set<string>) => {
+    buildView().transactions.forEach(t => {
+      if (holdingIds.has(t.holdingId)) pendingTransactions.set(t.id, null);
+    });
+  };
+
+  // Writes run one at a time; a failed write stays pending and goes out with the next one
+  const flush = async () => {
+    if (!db) return;
+    // Holdings that only gain ledger entries are still checked, so a remote delete is noticed
+    pendingTransactions.forEach(t => {
+      if (t && !pendingHoldings.has(t.holdingId)) {
+        pendingHoldings.set(t.holdingId, { changes: {}, times: {}, baseTimes: {}, isNew: false, deleted: false });
+      }
+    });
+    // Ledger entries first, so other devices never see a new holding without its transactions
+    if (pendingTransactions.size > 0) await writeTransactions();
+
+    const conflicts: SyncConflict[] = [];
+    for (const [id, entry] of [...pendingHoldings]) {
+      conflicts.push(...(await writeHolding(id, entry)));
+    }
+
+    const removed = new Set(conflicts.filter(c => c.field === 'deleted').map(c => c.holdingId));
+    if (removed.size > 0) {
+      dropLedgers(removed);
+      await writeTransactions();
+    }
+    publish();
+    if (conflicts.length > 0) onConflicts(conflicts);
+
+    // Once the migrated copy is written, drop the old arrays so they are not migrated again
+    // after the collections empty out
+    if (clearLegacy && pendingHoldings.size === 0 && pendingTransactions.size === 0) {
+      await updateDoc(doc(db, 'portfolios', userId), { holdings: deleteField(), transactions: deleteField() });
+      clearLegacy = false;
+    }
+  };
+
+  // Failed writes stay queued and are retried with backoff while online, or as soon as the browser reconnects
+  const scheduleRetry = () => {
+    if (retryTimer || !navigator.onLine) return;
+    retryDelay = Math.min(Math.max(retryDelay * 2, 5000), 5 * 60 * 1000);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      schedule().catch(() => undefined);
+    }, retryDelay);
+  };
+
+  const flushAndReport = async () => {
+    if (pendingHoldings.size === 0 && pendingTransactions.size === 0 && !clearLegacy) return;
+    emitStatus();
+    try {
+      await flush();
+      lastError = null;
+      retryDelay = 0;
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+      scheduleRetry();
+      throw e;
+    } finally {
+      persist();
+      emitStatus();
+    }
+  };
+
+  const schedule = () => {
+    const run = queue.then(flushAndReport);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const enqueue = () => {
+    persist();
+    emitStatus();
+    return schedule();
+  };
+
+  const updateHoldings = (holdings: Holding[]) => {
+    recordHoldings(holdings, false);
+    known = buildView();
+    return enqueue();
+  };
+
+  const handleOnline = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    retryDelay = 0;
+    lastError = null;
+    schedule().catch(() => undefined);
+  };
+
+  // Only server snapshots are taken: the in-memory Firestore cache is empty after an offline start,
+  // and our own writes are already mirrored. A full snapshot also drops documents deleted meanwhile.
+  const handleHoldings = (snap: QuerySnapshot) => {
+    if (snap.metadata.fromCache) return;
+    remoteHoldings.clear();
+    snap.docs.forEach(d => remoteHoldings.set(d.id, d.data() as CloudHolding));
+    persist();
+    publish();
+  };
+
+  const handleTransactions = (snap: QuerySnapshot) => {
+    if (snap.metadata.fromCache) return;
+    remoteTransactions.clear();
+    snap.docs.forEach(d => remoteTransactions.set(d.id, d.data() as Transaction));
+    persist();
+    publish();
+  };
+
+  const subscribe = () => {
+    const logError = (e: Error) => console.error('Cloud sync listener failed', e);
+    unsubscribers = [
+      onSnapshot(collection(db!, 'portfolios', userId, 'holdings'), handleHoldings, logError),
+      onSnapshot(collection(db!, 'portfolios', userId, 'transactions'), handleTransactions, logError),
+      onSnapshot(doc(db!, 'portfolios', userId), snap => {
+        // Our own settings / account / alert rule / watchlist writes echo back first as pending local changes
+        if (!snap.exists() || snap.metadata.hasPendingWrites) return;
+        const data = snap.data();
+        if (data.settings) onRemoteSettings(data.settings as PortfolioSettings);
+        if (data.accounts) onRemoteAccounts(data.accounts as Account[]);
+        if (data.alertRules) onRemoteAlertRules(data.alertRules as AlertRule[]);
+        if (data.watchlist) onRemoteWatchlist(data.watchlist as WatchlistItem[]);
+      }, logError)
+    ];
+  };
+
+  return {
+    start: async () => {
+      if (!db) return null;
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', emitStatus);
+
+      const cache = await getSyncCache<SyncCache>(userId);
+      cache?.pendingHoldings.forEach(([id, entry]) => pendingHoldings.set(id, entry));
+      cache?.pendingTransactions.forEach(([id, t]) => pendingTransactions.set(id, t));
+      clearLegacy = cache?.clearLegacy ?? false;
+
+      let result: { holdings: Holding[]; transactions: Transaction[] } | null = null;
+      try {
+        const [holdingDocs, transactionDocs] = await Promise.all([
+          getDocs(collection(db, 'portfolios', userId, 'holdings')),
+          getDocs(collection(db, 'portfolios', userId, 'transactions'))
+        ]);
+        holdingDocs.forEach(d => remoteHoldings.set(d.id, d.data() as CloudHolding));
+        transactionDocs.forEach(d => remoteTransactions.set(d.id, d.data() as Transaction));
+
+        if (remoteHoldings.size > 0 || remoteTransactions.size > 0 || pendingHoldings.size > 0 || pendingTransactions.size > 0) {
+          known = buildView();
+          result = known;
+        } else {
+          // First sign-in since the per-document layout: copy the old portfolio arrays over
+          const legacyHoldings = await getUserHoldings(userId);
+          if (legacyHoldings) {
+            const legacyTransactions = (await getUserTransactions(userId)) || [];
+            recordHoldings(legacyHoldings, true);
+            recordTransactions(legacyTransactions);
+            known = { holdings: legacyHoldings, transactions: legacyTransactions };
+            result = known;
+            clearLegacy = true;
+          }
+        }
+      } catch (e) {
+        // Offline: carry on from the last copy of the cloud data, if this device has one
+        if (!cache) {
+          console.error('Failed to start cloud sync', e);
+          throw e;
+        }
+        cache.holdings.forEach(h => remoteHoldings.set(h.id, h));
+        cache.transactions.forEach(t => remoteTransactions.set(t.id, t));
+        known = buildView();
+        result = known;
+      }
+
+      order = known.holdings.map(h => h.id);
+      subscribe();
+      enqueue().catch(e => console.error('Failed to replay queued changes', e));
+      return result;
+    },
+
+    save: (holdings, transactions) => {
+      recordTransactions(transactions);
+      recordHoldings(holdings, true);
+      known = { holdings, transactions };
+      return enqueue();
+    },
+
+    update: updateHoldings,
+
+    resolveConflict: (conflict, keep) => {
+      if (conflict.field === 'deleted') {
+        // Removed elsewhere, and its ledger entries with it; keeping this device's copy re-creates both
+        if (keep === 'remote' || !conflict.restore || known.holdings.some(h => h.id === conflict.holdingId)) {
+          return Promise.resolve();
+        }
+        const { holding, transactions } = conflict.restore;
+        const now = Date.now();
+        const fields = Object.keys(holding);
+        pendingHoldings.set(holding.id, {
+          changes: { ...holding },
+          times: Object.fromEntries(fields.map(f => [f, now])),
+          baseTimes: Object.fromEntries(fields.map(f => [f, 0])),
+          isNew: true,
+          deleted: false
+        });
+        transactions.forEach(t => pendingTransactions.set(t.id, t));
+        publish();
+        return enqueue();
+      }
+
+      const wanted = keep === 'local' ? conflict.localValue : conflict.remoteValue;
+      const current = known.holdings.find(h => h.id === conflict.holdingId);
+      if (!current || sameValue(getField(current, conflict.field), wanted)) {
+        return Promise.resolve();
+      }
+      return updateHoldings([{ ...current, [conflict.field]: wanted }]);
+    },
+
+    retry: () => {
+      handleOnline();
+      return queue;
+    },
+
+    stop: () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      unsubscribers = [];
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', emitStatus);
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
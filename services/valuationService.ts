@@ -0,0 +1,56 @@
+import { Currency, FxBookedAmount, FxRates, Holding } from '../types';
+
+// A holding's figures in the reporting currency
+export interface HoldingValuation {
+  marketValue: number;
+  cost: number; // Converted at the purchase FX rate when the ledger recorded it
+  profitLoss: number; // assetProfitLoss + fxProfitLoss
+  assetProfitLoss: number; // Price move, valued at today's FX rate
+  fxProfitLoss: number; // Exchange rate move on the cost basis
+  dayProfitLoss: number;
+  realizedProfitLoss: number; // Includes cash dividends; at the FX rates of the trade dates
+  dividendIncome: number; // At the FX rates of the payment dates
+  feesPaid: number; // Already part of cost / realized P/L, reported for reference
+}
+
+export const getHoldingCurrency = (holding: Holding): Currency => holding.currency || Currency.CNY;
+
+// Ledger amounts in CNY: the part booked at the entries' recorded FX rates stays fixed; entries
+// without a rate (CNY holdings, older data) are valued at `rateNow`
+export const toCnyAtBookedRates = (total: number, booked: FxBookedAmount | undefined, rateNow: number): number => {
+  return (booked?.cny || 0) + (total - (booked?.local || 0)) * rateNow;
+};
+
+// Rates are CNY based, so every figure is first expressed in CNY and then divided by the base
+// currency's current rate. Historical base rates are not tracked; for a non-CNY base the FX P/L
+// is therefore measured against CNY.
+export const valueHolding = (holding: Holding, rates: FxRates, baseCurrency: Currency): HoldingValuation => {
+  const rateNow = rates[getHoldingCurrency(holding)];
+  const rateAtCost = holding.costFxRate ?? rateNow;
+  const toBase = (cny: number) => cny / rates[baseCurrency];
+
+  const localCost = holding.buyPrice * holding.quantity;
+  const localValue = holding.currentPrice * holding.quantity;
+  const assetProfitLoss = toBase((localValue - localCost) * rateNow);
+  const fxProfitLoss = toBase(localCost * (rateNow - rateAtCost));
+
+  return {
+    marketValue: toBase(localValue * rateNow),
+    cost: toBase(localCost * rateAtCost),
+    profitLoss: assetProfitLoss + fxProfitLoss,
+    assetProfitLoss,
+    fxProfitLoss,
+    dayProfitLoss: holding.yesterdayPrice ? toBase((holding.currentPrice - holding.yesterdayPrice) * holding.quantity * rateNow) : 0,
+    realizedProfitLoss: toBase(toCnyAtBookedRates(holding.realizedProfitLoss || 0, holding.realizedFxBooked, rateNow)),
+    dividendIncome: toBase(toCnyAtBookedRates(holding.dividendIncome || 0, holding.dividendFxBooked, rateNow)),
+    feesPaid: toBase((holding.feesPaid || 0) * rateAtCost)
+  };
+};
+
+export const valueHoldings = (holdings: Holding[], rates: FxRates, baseCurrency: Currency): Record<string, HoldingValuation> => {
+  const result: Record<string, HoldingValuation> = {};
+  holdings.forEach(h => {
+    result[h.id] = valueHolding(h, rates, baseCurrency);
+  });
+  return result;
+};
@@ -0,0 +1,41 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AssetSearchResult, AssetType, Holding, Quote, WatchlistItem } from '../types';
+import { getMarketCurrency, parseStockCode } from './stockCodes';
+
+export const createWatchlistItem = (asset: AssetSearchResult): WatchlistItem => ({
+  id: uuidv4(),
+  code: asset.code,
+  name: asset.name,
+  type: asset.type,
+  market: asset.market,
+  currency: asset.market ? getMarketCurrency(asset.market) : undefined,
+  addedAt: new Date().toISOString()
+});
+
+// A typed code (600519, 0700.HK, AAPL) as a search result; null when a stock code cannot be parsed
+export const resolveWatchAsset = (input: string, type: AssetType, name?: string): AssetSearchResult | null => {
+  const value = input.trim();
+  if (!value) return null;
+  if (type !== AssetType.STOCK) return { code: value, name: name || value, type };
+  const parsed = parseStockCode(value);
+  return parsed ? { code: parsed.code, name: name || parsed.code, type, market: parsed.market } : null;
+};
+
+const sameAsset = (a: Pick<WatchlistItem, 'code' | 'type'>, b: Pick<WatchlistItem, 'code' | 'type'>) => {
+  return a.type === b.type && a.code.toUpperCase() === b.code.toUpperCase();
+};
+
+export const isWatched = (items: WatchlistItem[], asset: Pick<WatchlistItem, 'code' | 'type'>): boolean => {
+  return items.some(item => sameAsset(item, asset));
+};
+
+// Watching does not stop at buying; the table only marks assets that are also held
+export const isHeld = (item: WatchlistItem, holdings: Holding[]): boolean => {
+  return holdings.some(h => h.quantity > 0 && sameAsset(h, item));
+};
+
+export const getDayChange = (quote: Quote | undefined): { amount: number; rate: number } | null => {
+  if (!quote || !(quote.currentPrice > 0) || !(quote.yesterdayPrice > 0)) return null;
+  const amount = quote.currentPrice - quote.yesterdayPrice;
+  return { amount, rate: (amount / quote.yesterdayPrice) * 100 };
+};
@@ -1,7 +1,38 @@
 
 export enum AssetType {
   STOCK = 'STOCK',
-  FUND = 'FUND'
+  FUND = 'FUND',
+  BOND = 'BOND',
+  CASH = 'CASH', // Unit price fixed at 1, quantity is the balance
+  DEPOSIT = 'DEPOSIT', // Time deposit, valued with accrued interest
+  CRYPTO = 'CRYPTO',
+  MANUAL = 'MANUAL' // Wealth-management products and anything else valued by hand
+}
+
+// Listing venue of a stock
+export enum Market {
+  SH = 'SH', // Shanghai
+  SZ = 'SZ', // Shenzhen
+  BJ = 'BJ', // Beijing
+  HK = 'HK', // Hong Kong
+  US = 'US'
+}
+
+// Trading / reporting currencies
+export enum Currency {
+  CNY = 'CNY',
+  HKD = 'HKD',
+  USD = 'USD'
+}
+
+// CNY per one unit of each currency (CNY itself is 1)
+export type FxRates = Record<Currency, number>;
+
+// Reliability of a holding's currentPrice
+export enum PriceStatus {
+  ESTIMATE = 'ESTIMATE', // Intraday fund valuation (gsz), not an official NAV
+  CONFIRMED = 'CONFIRMED', // Exchange trade price or published NAV
+  STALE = 'STALE' // Last refresh failed; price carried over
 }
 
 export interface Holding {
@@ -9,12 +40,203 @@ export interface Holding {
   name: string;
   code: string;
   type: AssetType;
+  accountId?: string; // Owning account, the default account when absent
+  market?: Market; // Stocks only; inferred from the code for legacy A-share holdings
+  currency?: Currency; // Quote currency of the asset, CNY when absent
   buyDate: string;
   buyPrice: number;
   quantity: number;
   currentPrice: number;
   yesterdayPrice?: number; // Previous closing price for Daily P/L
   priceDate?: string; // Timestamp of the latest price
+  priceStatus?: PriceStatus;
+  interestRate?: number; // DEPOSIT: simple annual rate in %
+  maturityDate?: string; // DEPOSIT: interest stops accruing after this day (yyyy-MM-dd)
+  realizedProfitLoss?: number; // Booked gains from sales and cash dividends, derived from the ledger
+  dividendIncome?: number; // Cash and reinvested dividends received, derived from the ledger
+  costFxRate?: number; // Cost-weighted CNY rate of the open lots at purchase, derived from the ledger
+  feesPaid?: number; // Commissions, taxes and fees paid over the holding's life, derived from the ledger
+  realizedFxBooked?: FxBookedAmount; // Part of realizedProfitLoss from entries that recorded an FX rate
+  dividendFxBooked?: FxBookedAmount; // Part of dividendIncome from entries that recorded an FX rate
+  feeScheduleId?: string; // Broker / product fee schedule used to pre-fill trade fees
+}
+
+// An amount in the holding's currency together with its CNY value at the rates of the entries it came from
+export interface FxBookedAmount {
+  local: number;
+  cny: number;
+}
+
+// A named sub-portfolio: a brokerage account, a fund platform, a family member's holdings...
+export interface Account {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export enum TransactionType {
+  BUY = 'BUY',
+  SELL = 'SELL',
+  DIVIDEND = 'DIVIDEND',
+  SPLIT = 'SPLIT',
+  FEE = 'FEE'
+}
+
+// A single ledger entry. Holdings' quantity/buyPrice are derived from these.
+export interface Transaction {
+  id: string;
+  holdingId: string;
+  type: TransactionType;
+  date: string; // yyyy-MM-dd
+  price: number; // Unit price (BUY/SELL)
+  quantity: number; // Units (BUY/SELL)
+  amount?: number; // Cash amount (DIVIDEND/FEE)
+  fee?: number; // BUY/SELL: commission, stamp duty and other charges in the holding's currency
+  reinvested?: boolean; // DIVIDEND: amount bought `quantity` new units at `price` (红利再投资)
+  ratio?: number; // Share multiplier (SPLIT), e.g. 1.3 for 10送3
+  fxRate?: number; // CNY per unit of the holding's currency on the trade date
+  note?: string;
+  createdAt: string; // ISO timestamp, used to order same-day entries
+}
+
+// How sold units are matched against purchase lots
+export enum CostMethod {
+  FIFO = 'FIFO',
+  AVERAGE = 'AVERAGE'
+}
+
+export interface PortfolioSettings {
+  costMethod: CostMethod;
+  autoRefresh: boolean; // Poll quotes while the A-share market is open
+  refreshIntervalSec: number;
+  baseCurrency: Currency; // Totals and charts are reported in this currency
+  feeSchedules: FeeSchedule[];
+  profitSharing: ProfitSharingAgreement[];
+  profitSharingSettlements: ProfitSharingSettlement[];
+}
+
+// One bracket of a tiered fund subscription fee: applies to amounts below `upTo` (null = no cap)
+export interface FeeTier {
+  upTo: number | null;
+  rate: number; // Fraction of the amount, e.g. 0.015
+  fixed?: number; // Flat fee instead of the rate, e.g. 1000 for large subscriptions
+}
+
+// Charges of one broker or fund platform for one asset type. Rates are fractions of the trade amount.
+export interface FeeSchedule {
+  id: string;
+  name: string;
+  assetType: AssetType;
+  commissionRate: number; // Both sides
+  minCommission: number; // Floor per trade when a commission is charged
+  stampDutyRate: number; // Sells only
+  transferFeeRate: number; // Both sides
+  purchaseFeeTiers: FeeTier[]; // Fund front-end fee, buys only
+  purchaseFeeDiscount: number; // Multiplier on the tiered rate (0.1 = 一折), flat fees are not discounted
+  redemptionFeeRate: number; // Fund redemption fee, sells only
+}
+
+// Carry on the slice of return from `threshold` up to the next tier's threshold
+export interface ProfitSharingTier {
+  threshold: number; // Return on the cost base as a fraction, e.g. 0.03
+  rate: number; // Share of the profit in this band, e.g. 0.2
+}
+
+export type ProfitSharingScope = 'PORTFOLIO' | 'ACCOUNT' | 'HOLDINGS';
+
+export type SettlementFrequency = 'QUARTERLY' | 'ANNUAL';
+
+// Terms agreed with one investor. Amounts are in the base currency.
+export interface ProfitSharingAgreement {
+  id: string;
+  name: string;
+  scope: ProfitSharingScope;
+  accountId?: string; // ACCOUNT scope
+  holdingIds?: string[]; // HOLDINGS scope
+  periodStart?: string; // yyyy-MM-dd; profit is measured from the snapshot of this day, from inception when absent
+  periodEnd?: string; // yyyy-MM-dd; figures are frozen at this day's snapshot once it has passed
+  openingProfit?: number; // Scope total P/L frozen by the last settlement, used instead of the period start snapshot
+  frequency?: SettlementFrequency; // Suggests the next period end when settling
+  tiers: ProfitSharingTier[];
+  highWaterMark: number; // Period profit up to this amount earns no share (already shared, or a loss to recoup)
+  guaranteeRate: number; // Fraction of a period loss that is guaranteed, 0 = none, 1 = full
+  guaranteeCap: number | null; // Most the guarantee pays, null = no cap
+}
+
+// An asset followed without a position. Quotes come from the same providers as holdings and are not stored.
+export interface WatchlistItem {
+  id: string;
+  code: string;
+  name: string;
+  type: AssetType; // Quotable types only
+  market?: Market; // Stocks only
+  currency?: Currency; // Quote currency, CNY when absent
+  addedAt: string; // ISO timestamp
+}
+
+export type AlertCondition = 'PRICE_ABOVE' | 'PRICE_BELOW' | 'DAY_CHANGE' | 'TOTAL_RETURN' | 'DRAWDOWN';
+
+// A threshold watched on one holding after every price refresh. It fires once when the condition
+// becomes true and re-arms when it stops holding.
+export interface AlertRule {
+  id: string;
+  holdingId: string;
+  condition: AlertCondition;
+  threshold: number; // Price for PRICE_*, % for the others; a negative DAY_CHANGE / TOTAL_RETURN watches falls
+  enabled: boolean;
+  peakPrice?: number; // DRAWDOWN: highest price seen since the rule was created
+  triggeredAt?: string; // ISO timestamp, set while the condition holds
+  createdAt: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  holdingId: string;
+  holdingName: string;
+  code: string;
+  condition: AlertCondition;
+  threshold: number;
+  value: number; // Price or % that crossed the threshold
+  triggeredAt: string;
+  read: boolean;
+}
+
+// Cumulative P/L of a profit-sharing scope by source. Cash dividends are part of the realized P/L and
+// reinvested ones of the unrealized P/L, so `dividends` is shown for reference and not added again.
+export interface ProfitBreakdown {
+  unrealized: number; // Market value - cost
+  realized: number; // Sales, fees and cash dividends
+  dividends: number; // Cash plus reinvested
+}
+
+// A closed profit-sharing period. Figures are frozen at closing and kept for the statement.
+export interface ProfitSharingSettlement {
+  id: string;
+  agreementId: string;
+  agreementName: string;
+  scopeLabel: string;
+  baseCurrency: Currency;
+  periodStart?: string; // yyyy-MM-dd, from inception when absent
+  periodEnd: string;
+  costBase: number;
+  openingProfit: number; // Total P/L (unrealized + realized) at the period start
+  closingProfit: number; // Total P/L at the period end, the next period's opening profit
+  openingBreakdown?: ProfitBreakdown; // Absent when the period opened at a settled total
+  closingBreakdown?: ProfitBreakdown; // Absent in settlements closed on unrealized P/L only
+  profit: number; // closingProfit - openingProfit
+  returnRate: number;
+  tiers: ProfitSharingTier[];
+  tierShares: number[];
+  highWaterMark: number; // Mark in force during the period
+  guaranteeRate: number;
+  guaranteeCap: number | null;
+  shareAmount: number;
+  guaranteeAmount: number;
+  paidAmount: number; // Share actually paid to the manager, or guarantee actually paid to the investor
+  carriedHighWaterMark: number; // Loss still to recoup in the next period
+  note?: string;
+  settledAt: string; // ISO timestamp
 }
 
 export interface PortfolioSummary {
@@ -23,6 +245,62 @@ export interface PortfolioSummary {
   totalProfitLoss: number;
   totalReturnRate: number;
   totalDayProfitLoss: number; // New: Daily Profit/Loss
+  totalRealizedProfitLoss: number; // Booked gains from closed / partially closed positions and cash dividends
+  totalDividendIncome: number;
+  totalFxProfitLoss: number; // Part of totalProfitLoss caused by exchange rate moves
+  totalFees: number; // Trade fees paid, already included in cost and realized P/L
+  baseCurrency: Currency;
+  xirr: number | null; // Money-weighted annualized return (%), null when undefined
+  timeWeightedReturn: number | null; // Cumulative TWR (%) from daily snapshots
+}
+
+// Daily close (stocks) or unit NAV (funds)
+export interface PricePoint {
+  date: string; // yyyy-MM-dd
+  close: number;
+}
+
+// Latest price as returned by a market data provider
+export interface Quote {
+  name: string;
+  currentPrice: number;
+  yesterdayPrice: number; // Previous close / previous NAV
+  priceDate: string;
+  priceStatus: PriceStatus;
+}
+
+export interface AssetSearchResult {
+  code: string;
+  name: string;
+  type: AssetType;
+  market?: Market;
+}
+
+// Locally cached price history for one code, covering [from, to]
+export interface PriceHistoryCacheEntry {
+  from: string;
+  to: string;
+  points: PricePoint[];
+}
+
+// Per-holding figures captured in a daily snapshot
+export interface HoldingSnapshot {
+  holdingId: string;
+  marketValue: number; // 0 for a closed position, kept for its realized P/L
+  cost: number;
+  dayProfitLoss: number;
+  realizedProfitLoss?: number; // Cumulative, includes cash dividends; absent in snapshots recorded before it was tracked
+  dividendIncome?: number; // Cumulative, cash plus reinvested
+}
+
+// One record per calendar day, overwritten by later refreshes on the same day; amounts in CNY
+export interface PortfolioSnapshot {
+  date: string; // yyyy-MM-dd (local)
+  totalMarketValue: number;
+  totalCost: number;
+  totalDayProfitLoss: number;
+  holdings: HoldingSnapshot[];
+  updatedAt: string;
 }
 
 export interface AIAdvice {
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MARKET_DATA_PROVIDER?: string;
+  readonly VITE_MARKET_PROXY_URL?: string;
+}
@@ -1,6 +1,18 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { MARKET_PROXY_PATH, handleMarketProxy } from './server/marketProxy';
+
+// Serves the market data relay from both `vite` and `vite preview`
+const marketProxy = (): Plugin => ({
+  name: 'wealthtrack-market-proxy',
+  configureServer(server) {
+    server.middlewares.use(MARKET_PROXY_PATH, (req, res) => { handleMarketProxy(req, res); });
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(MARKET_PROXY_PATH, (req, res) => { handleMarketProxy(req, res); });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +21,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), marketProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)